@@ -0,0 +1,14 @@
+// Types for the parts of tracery.js that the parity tests in ui/ use
+
+interface TraceryGrammar {
+  addModifiers(modifiers: Record<string, (s: string, params: string[]) => string>): void;
+  flatten(rule: string): string;
+}
+
+declare const tracery: {
+  createGrammar(raw: unknown): TraceryGrammar;
+  baseEngModifiers: Record<string, (s: string, params: string[]) => string>;
+  setRng(rng: () => number): void;
+};
+
+export = tracery;
@@ -1,4 +1,4 @@
-// not used, kept for reference
+// kept for reference; the Tracery parity tests in ui/ run against it
 // ISC License
 /**
  * @author Kate
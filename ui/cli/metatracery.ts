@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Node entry of the metatracery CLI (see src/engine/cli.ts). Build with `npm run build:cli`, then
+ * `node dist-cli/metatracery.js generate grammar.json -p lang=Welsh -f jsonl`.
+ */
+
+import { readFileSync } from 'node:fs';
+import { CLI_USAGE, parseCliArgs, runCli } from '../src/engine/cli';
+import { loadGrammar } from '../src/engine/grammarImports';
+
+// A closed pipe (`| head`) just ends the output
+process.stdout.on('error', (err: NodeJS.ErrnoException) => {
+  if (err.code === 'EPIPE') process.exit(process.exitCode ?? 0);
+  throw err;
+});
+
+async function main(): Promise<number> {
+  const options = parseCliArgs(process.argv.slice(2));
+  if (options.help) {
+    process.stdout.write(CLI_USAGE);
+    return 0;
+  }
+  const grammar = await loadGrammar(options.files, (file) => readFileSync(file === '-' ? 0 : file, 'utf8'), {
+    onUnresolved: ({ file, name, qualified }) =>
+      process.stderr.write(`metatracery: ${file} uses "${name}", which it neither defines nor imports (now "${qualified}")\n`),
+  });
+  const lines = runCli(options, grammar);
+  let next = lines.next();
+  while (!next.done) {
+    process.stdout.write(`${next.value}\n`);
+    next = lines.next();
+  }
+  return next.value;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    process.stderr.write(`metatracery: ${err instanceof Error ? err.message : String(err)}\n`);
+    process.stderr.write('Run "metatracery --help" for usage.\n');
+    process.exitCode = 2;
+  },
+);
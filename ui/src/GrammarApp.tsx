@@ -31,9 +31,15 @@ import { UsecaseDiscoveryCards } from './components/UsecaseDiscoveryCards';
 import { UsecaseHero } from './components/UsecaseHero';
 import { GrammarProcessor } from './engine/GrammarEngine';
 import { ensureRulesForReferences } from './engine/grammarGraphModel';
-import type { GrammarRule, GenerationResult } from './engine/types';
+import type {
+  CombinationPage,
+  GrammarRule,
+  GenerationConstraints,
+  GenerationResult,
+} from './engine/types';
 import type { GenerationStrategy } from './engine/Engine';
 import { fixtures } from './fixtures';
+import { buildReplayUrl, parseReplaySearch, type ReplayState } from './lib/replayLink';
 import {
   type GrammarLibraryState,
   type SavedGrammarItem,
@@ -80,6 +86,8 @@ const HOME_RICH_RESULT_PREVIEW: UseCasePreviewConfig = {
 };
 
 const DEBOUNCE_MS = 450;
+/** "Generate all" shows this many combinations per page. */
+const COMBINATION_PAGE_SIZE = 100;
 
 /** Per-route grammar draft when leaving a configured use case (see pathname effect + navigation modal). */
 function draftStorageKey(pathname: string): string {
@@ -126,6 +134,17 @@ function getInitialClientGrammarState(): {
 
 export default function GrammarApp() {
   const { pathname, search } = useLocation();
+  /** Fixed seed for generation; null draws a fresh seed per run. */
+  const [seed, setSeed] = useState<number | null>(() => parseReplaySearch(search).seed ?? null);
+  /** Options of the run that produced `results`, so a replay link matches them even after edits. */
+  const [lastRun, setLastRun] = useState<Omit<ReplayState, 'seed'> | null>(null);
+  /** Set while the results are a page of "Generate all"; tied to the engine that produced it. */
+  const [combinationPaging, setCombinationPaging] = useState<{
+    engine: GrammarProcessor;
+    constraints: GenerationConstraints;
+    page: CombinationPage;
+  } | null>(null);
+
   if (!isToolRoute(pathname)) {
     return <Navigate to="/" replace />;
   }
@@ -193,7 +212,14 @@ export default function GrammarApp() {
 
     setGrammarViewMode(uc?.ui?.defaultGrammarViewMode ?? 'graph');
 
-    if (uc?.ui?.defaultProcessModifiers !== undefined) {
+    // Replay links carry seed and options; they win over the route defaults
+    const replay = parseReplaySearch(search);
+    if (replay.seed !== undefined) setSeed(replay.seed);
+    if (replay.strategy) setStrategy(replay.strategy);
+
+    if (replay.processModifiers !== undefined) {
+      setProcessModifiers(replay.processModifiers);
+    } else if (uc?.ui?.defaultProcessModifiers !== undefined) {
       setProcessModifiers(uc.ui.defaultProcessModifiers);
     } else if (pathname !== FLEXIBLE_EDITOR_PATH) {
       setProcessModifiers(false);
@@ -237,7 +263,7 @@ export default function GrammarApp() {
         setGrammar(g);
         setLibrarySource('fixture');
         setSelectedFixtureName(fixtureFromLanding.name);
-        setProcessModifiers(fixtureFromLanding.name === WRITING_PROMPTS_FIXTURE_NAME);
+        setProcessModifiers(replay.processModifiers ?? fixtureFromLanding.name === WRITING_PROMPTS_FIXTURE_NAME);
         setError(null);
         setBaselineSerialized(grammarSignature(g));
         return;
@@ -449,13 +475,23 @@ export default function GrammarApp() {
     }
   }, []);
 
-  const handleGenerate = async (parameters: Record<string, string>) => {
+  const replayOptions = (constraints: GenerationConstraints): Omit<ReplayState, 'seed'> => ({
+    strategy,
+    processModifiers,
+    parameters: constraints.requiredParameters ?? {},
+    excludedParameters: constraints.excludedParameters ?? {},
+    contextualParameters: constraints.contextualParameters ?? {},
+  });
+
+  const handleGenerate = async (constraints: GenerationConstraints) => {
     if (!engine) return;
 
     setIsLoading(true);
     try {
-      const result = engine.generateWithParameters('origin', parameters, strategy);
+      const result = engine.generateWithParameters('origin', constraints, strategy, seed ?? undefined);
       setResults([result]);
+      setCombinationPaging(null);
+      setLastRun(replayOptions(constraints));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Generation failed');
     } finally {
@@ -463,13 +499,14 @@ export default function GrammarApp() {
     }
   };
 
-  const handleGenerateAll = async (selectedParameters: Record<string, string>) => {
+  const showCombinationPage = (constraints: GenerationConstraints, cursor?: string) => {
     if (!engine) return;
 
     setIsLoading(true);
     try {
-      const allResults = engine.generateAllCombinations('origin', selectedParameters);
-      setResults(allResults);
+      const page = engine.getCombinationPage('origin', constraints, COMBINATION_PAGE_SIZE, cursor);
+      setResults(page.results);
+      setCombinationPaging({ engine, constraints, page });
     } catch (err) {
       console.error('Generation error:', err);
       setError(err instanceof Error ? err.message : 'Generation failed');
@@ -478,7 +515,15 @@ export default function GrammarApp() {
     }
   };
 
-  const handleGenerateMany = async (parameters: Record<string, string>, count: number) => {
+  const handleGenerateAll = async (constraints: GenerationConstraints) => {
+    showCombinationPage(constraints);
+  };
+
+  const handleCombinationPageChange = (cursor: string) => {
+    if (combinationPaging) showCombinationPage(combinationPaging.constraints, cursor);
+  };
+
+  const handleGenerateMany = async (constraints: GenerationConstraints, count: number) => {
     if (!engine) return;
 
     const cap = useCase?.ui?.maxGenerateMany;
@@ -486,14 +531,10 @@ export default function GrammarApp() {
 
     setIsLoading(true);
     try {
-      const manyResults: GenerationResult[] = [];
-
-      for (let i = 0; i < n; i++) {
-        const result = engine.generateWithParameters('origin', parameters, strategy);
-        manyResults.push(result);
-      }
-
+      const manyResults = engine.generateMany('origin', constraints, n, strategy, seed ?? undefined);
       setResults(manyResults);
+      setCombinationPaging(null);
+      setLastRun(replayOptions(constraints));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Generation failed');
     } finally {
@@ -501,6 +542,17 @@ export default function GrammarApp() {
     }
   };
 
+  const handleCopyReplayLink = async (result: GenerationResult) => {
+    if (!lastRun || result.metadata.seed === undefined) return;
+    const url = buildReplayUrl(window.location.href, { ...lastRun, seed: result.metadata.seed });
+    try {
+      await navigator.clipboard.writeText(url);
+      notifications.show({ message: 'Replay link copied', color: 'teal' });
+    } catch {
+      notifications.show({ message: 'Could not copy', color: 'red' });
+    }
+  };
+
   const resolveDraftUseDefault = useCallback(() => {
     if (!draftDialog) return;
     removeDraftsForRoute(draftDialog.path);
@@ -616,10 +668,15 @@ export default function GrammarApp() {
             onGenerate={handleGenerate}
             onGenerateAll={handleGenerateAll}
             onGenerateMany={handleGenerateMany}
+            combinationPage={combinationPaging?.engine === engine ? combinationPaging.page : null}
+            onCombinationPageChange={handleCombinationPageChange}
             strategy={strategy}
             onStrategyChange={setStrategy}
             processModifiers={processModifiers}
             onProcessModifiersChange={setProcessModifiers}
+            seed={seed}
+            onSeedChange={setSeed}
+            onCopyReplayLink={lastRun ? handleCopyReplayLink : undefined}
             contentVariant={resultsContentVariant}
             preview={resultsPreview}
             maxGenerateMany={useCase?.ui?.maxGenerateMany}
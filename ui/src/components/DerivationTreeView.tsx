@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { ActionIcon, Box, Code, Group, Mark, ScrollArea, Stack, Text } from '@mantine/core';
+import { IconChevronDown, IconChevronRight } from '@tabler/icons-react';
+import type { DerivationNode } from '../engine/types';
+
+/** Expansions are addressed by their child indexes from the root, e.g. "0.2" */
+type NodePath = string;
+
+const childPath = (path: NodePath, index: number): NodePath => (path ? `${path}.${index}` : String(index));
+
+function TreeRow({
+  node,
+  path,
+  depth,
+  open,
+  active,
+  onToggle,
+  onActivate,
+}: {
+  node: DerivationNode;
+  path: NodePath;
+  depth: number;
+  open: Set<NodePath>;
+  active: NodePath | null;
+  onToggle: (path: NodePath) => void;
+  onActivate: (path: NodePath | null) => void;
+}) {
+  const expanded = open.has(path);
+  const detail = node.modifiers ? `${node.expandedText} → .${node.modifiers.join('.')}` : node.alternative;
+
+  return (
+    <>
+      <Group
+        gap={4}
+        wrap="nowrap"
+        pl={depth * 16}
+        onMouseEnter={() => onActivate(path)}
+        style={{
+          borderRadius: 'var(--mantine-radius-xs)',
+          backgroundColor: active === path ? 'var(--mantine-color-default-hover)' : undefined,
+        }}
+      >
+        {node.children.length > 0 ? (
+          <ActionIcon
+            variant="subtle"
+            size="xs"
+            color="gray"
+            aria-label={expanded ? `Collapse ${node.symbol}` : `Expand ${node.symbol}`}
+            onClick={() => onToggle(path)}
+          >
+            {expanded ? <IconChevronDown size={12} /> : <IconChevronRight size={12} />}
+          </ActionIcon>
+        ) : (
+          <Box w={18} style={{ flexShrink: 0 }} />
+        )}
+        <Code style={{ flexShrink: 0 }}>{node.symbol}</Code>
+        <Text size="xs" c="dimmed" truncate title={detail}>
+          {node.silent ? `${detail} (stored by an action)` : detail}
+        </Text>
+      </Group>
+      {expanded &&
+        node.children.map((child, i) => (
+          <TreeRow
+            key={childPath(path, i)}
+            node={child}
+            path={childPath(path, i)}
+            depth={depth + 1}
+            open={open}
+            active={active}
+            onToggle={onToggle}
+            onActivate={onActivate}
+          />
+        ))}
+    </>
+  );
+}
+
+const nodeAt = (root: DerivationNode, path: NodePath): DerivationNode =>
+  path ? path.split('.').reduce((node, i) => node.children[Number(i)]!, root) : root;
+
+/** Expandable parse tree of one result; hovering an expansion highlights the text it produced. */
+export function DerivationTreeView({ tree }: { tree: DerivationNode }) {
+  const [open, setOpen] = useState<Set<NodePath>>(() => new Set(['']));
+  const [active, setActive] = useState<NodePath | null>(null);
+  const span = active === null ? null : nodeAt(tree, active);
+
+  const toggle = (path: NodePath) =>
+    setOpen((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(path)) next.add(path);
+      return next;
+    });
+
+  return (
+    <Stack gap={6}>
+      <Text size="sm" lh={1.55} style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+        {span && span.end > span.start ? (
+          <>
+            {tree.text.slice(0, span.start)}
+            <Mark>{tree.text.slice(span.start, span.end)}</Mark>
+            {tree.text.slice(span.end)}
+          </>
+        ) : (
+          tree.text
+        )}
+      </Text>
+      <ScrollArea.Autosize mah={240} type="auto" onMouseLeave={() => setActive(null)}>
+        <TreeRow
+          node={tree}
+          path=""
+          depth={0}
+          open={open}
+          active={active}
+          onToggle={toggle}
+          onActivate={setActive}
+        />
+      </ScrollArea.Autosize>
+    </Stack>
+  );
+}
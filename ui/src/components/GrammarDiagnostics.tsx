@@ -0,0 +1,55 @@
+import { Alert, Code, Group, ScrollArea, Stack, Text } from '@mantine/core';
+import type { LintDiagnostic, LintSeverity } from '../engine/grammarLint';
+
+const SEVERITY_COLOR: Record<LintSeverity, string> = {
+  error: 'red',
+  warning: 'yellow',
+  info: 'gray',
+};
+
+const SEVERITY_LABEL: Record<LintSeverity, [string, string]> = {
+  error: ['error', 'errors'],
+  warning: ['warning', 'warnings'],
+  info: ['note', 'notes'],
+};
+
+function summarize(diagnostics: LintDiagnostic[]): string {
+  return (['error', 'warning', 'info'] as const)
+    .map((severity) => {
+      const n = diagnostics.filter((d) => d.severity === severity).length;
+      if (n === 0) return null;
+      return `${n} ${SEVERITY_LABEL[severity][n === 1 ? 0 : 1]}`;
+    })
+    .filter(Boolean)
+    .join(', ');
+}
+
+/** Lint results listed by rule and alternative, under the editor toolbar. */
+export function GrammarDiagnostics({ diagnostics }: { diagnostics: LintDiagnostic[] }) {
+  if (diagnostics.length === 0) return null;
+  const worst = diagnostics.some((d) => d.severity === 'error')
+    ? 'error'
+    : diagnostics.some((d) => d.severity === 'warning')
+      ? 'warning'
+      : 'info';
+
+  return (
+    <Alert color={SEVERITY_COLOR[worst]} title={summarize(diagnostics)} p="xs">
+      <ScrollArea.Autosize mah={140}>
+        <Stack gap={4}>
+          {diagnostics.map((d, i) => (
+            <Group key={i} gap="xs" wrap="nowrap" align="baseline">
+              <Text size="xs" fw={600} c={SEVERITY_COLOR[d.severity]} w={56} style={{ flexShrink: 0 }}>
+                {d.severity}
+              </Text>
+              <Code style={{ flexShrink: 0 }}>
+                {d.alternative === undefined ? d.rule : `${d.rule} › ${d.alternative + 1}`}
+              </Code>
+              <Text size="xs">{d.message}</Text>
+            </Group>
+          ))}
+        </Stack>
+      </ScrollArea.Autosize>
+    </Alert>
+  );
+}
@@ -20,11 +20,16 @@ import {
   IconAlertCircle,
   IconCircleCheck,
   IconDeviceFloppy,
+  IconDownload,
   IconMenu2,
 } from '@tabler/icons-react';
 import type { GrammarRule } from '../engine/types';
+import { normalizeGrammarJson } from '../engine/grammarGraphModel';
+import { lintGrammar } from '../engine/grammarLint';
+import { GRAMMAR_EXPORT_FORMATS, exportGrammar, type GrammarExportFormat } from '../engine/grammarExport';
 import { fixtures } from '../fixtures';
 import type { GrammarLibraryState, GrammarLibrarySource } from '../grammarLibraryStorage';
+import { GrammarDiagnostics } from './GrammarDiagnostics';
 import { GrammarGraphView } from './grammarGraph';
 
 const NEW_GRAMMAR_VALUE = '__new__';
@@ -71,6 +76,7 @@ export function GrammarEditor({
   const [jsonText, setJsonText] = useState('');
   const [isValid, setIsValid] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const diagnostics = useMemo(() => lintGrammar(grammar), [grammar]);
 
   useEffect(() => {
     setJsonText(JSON.stringify(grammar, null, 2));
@@ -81,7 +87,7 @@ export function GrammarEditor({
     setError(null);
 
     try {
-      const parsed = JSON.parse(value);
+      const parsed = normalizeGrammarJson(JSON.parse(value));
       setIsValid(true);
       onChange(parsed);
     } catch (err) {
@@ -142,6 +148,27 @@ export function GrammarEditor({
     />
   );
 
+  const exportFormatData = GRAMMAR_EXPORT_FORMATS.map((f) => ({ value: f.format, label: f.label }));
+
+  const handleExport = (format: GrammarExportFormat) => {
+    const { extension } = GRAMMAR_EXPORT_FORMATS.find((f) => f.format === format)!;
+    let text: string;
+    try {
+      text = exportGrammar(grammar, format);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+      return;
+    }
+    const baseName = (activeUserItem?.name ?? selectedFixtureName ?? 'grammar').replace(/[^\w.-]+/g, '-');
+    const dataBlob = new Blob([text], { type: 'text/plain;charset=utf-8;' });
+    const url = URL.createObjectURL(dataBlob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const libraryAndExamplesControls = (
     <>
       <Select
@@ -181,6 +208,22 @@ export function GrammarEditor({
           <IconDeviceFloppy size={16} stroke={1.5} />
         </ActionIcon>
       </Tooltip>
+      <Menu position="bottom-end" withinPortal>
+        <Menu.Target>
+          <Tooltip label="Export grammar">
+            <ActionIcon size="md" variant="default" radius="md" aria-label="Export grammar">
+              <IconDownload size={16} stroke={1.5} />
+            </ActionIcon>
+          </Tooltip>
+        </Menu.Target>
+        <Menu.Dropdown>
+          {GRAMMAR_EXPORT_FORMATS.map((f) => (
+            <Menu.Item key={f.format} onClick={() => handleExport(f.format)}>
+              {f.label}
+            </Menu.Item>
+          ))}
+        </Menu.Dropdown>
+      </Menu>
       <Select
         placeholder="Load example"
         data={fixtureSelectData}
@@ -254,6 +297,15 @@ export function GrammarEditor({
           size="xs"
           comboboxProps={{ withinPortal: true }}
         />
+        <Select
+          label="Export as"
+          placeholder="Export as"
+          data={exportFormatData}
+          value={null}
+          onChange={(value) => value && handleExport(value as GrammarExportFormat)}
+          size="xs"
+          comboboxProps={{ withinPortal: true }}
+        />
       </Stack>
     </Menu.Dropdown>
   );
@@ -367,6 +419,7 @@ export function GrammarEditor({
               <Text size="sm">{error}</Text>
             </Alert>
           )}
+          <GrammarDiagnostics diagnostics={diagnostics} />
         </Stack>
         <Stack
           gap={0}
@@ -433,6 +486,8 @@ export function GrammarEditor({
         </Alert>
       )}
 
+      <GrammarDiagnostics diagnostics={diagnostics} />
+
       {viewMode === 'json' ? (
         <>
           <Textarea
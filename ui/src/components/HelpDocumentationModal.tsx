@@ -60,6 +60,13 @@ export function HelpDocumentationModal({ opened, onClose }: HelpDocumentationMod
                 <strong>Graph</strong> to see rules as nodes and references as edges: edit alternatives in place, rename
                 rules, add alternatives, and delete rules (except <Code>origin</Code>) from the node header.
               </Text>
+              <Text size="sm" mt="xs">
+                In both views, a box under the toolbar lists problems the checker finds, each with its rule and
+                alternative number. <strong>Errors</strong> cover broken tags, references to missing rules, and rules
+                that can never finish. <strong>Warnings</strong> cover rules not reachable from <Code>origin</Code>,
+                recursion that grows faster than it ends, unknown modifiers, and duplicate alternatives. Empty
+                alternatives show up as <strong>notes</strong>.
+              </Text>
             </div>
 
             <div>
@@ -68,13 +75,19 @@ export function HelpDocumentationModal({ opened, onClose }: HelpDocumentationMod
               </Title>
               <Text size="sm" mb="xs">
                 The right column runs the engine on your grammar. Symbols with more than one alternative may appear as{' '}
-                <strong>parameters</strong>: you can fix them to specific values or leave them random. Use{' '}
+                <strong>parameters</strong>: you can fix them to specific values, exclude some values, or leave them
+                random. Use{' '}
                 <strong>Advanced</strong> (next to the generate control) to expand or collapse strategy, modifiers,
                 parameter dropdowns, and combination counts; on <strong>/editor</strong> Advanced starts open, while preset
                 routes start collapsed. The main <strong>Generate</strong> action stays visible with a count field; when
                 the <strong>▼</strong> menu next to <strong>Generate</strong> lists every combination when the space is
-                small enough (≤100), or samples up to the usual batch cap with a short note when the full space is larger.
-                Combination stats are inside Advanced.
+                small enough (≤100). For larger spaces it offers a random sample up to the usual batch cap, or every
+                combination in a fixed order, 100 per page, with <strong>Previous</strong> / <strong>Next</strong> above
+                the results.
+                Combination stats are inside Advanced, with a breakdown of combinations by nesting depth. A grammar
+                whose rules refer back to themselves (directly or through other rules) has infinitely many
+                combinations: the total shows <strong>∞</strong>, names the recursive rules, and counts, “generate
+                all” and pages stop at depth 10.
               </Text>
 
               <Title order={6} mb="xs">
@@ -144,7 +157,10 @@ export function HelpDocumentationModal({ opened, onClose }: HelpDocumentationMod
                 In <strong>Advanced</strong> (when expanded), <strong>Total combinations</strong> is the full output space
                 of the grammar (with no parameter locks). <strong>With selected parameters</strong> reflects your
                 dropdown choices: picking a specific value fixes that symbol; <strong>Random</strong> leaves it
-                unconstrained in the count. If the filtered count exceeds 100, use the <strong>▼</strong> menu for a capped
+                unconstrained in the count; values picked in <strong>Exclude…</strong> under a dropdown are left out of
+                counts, samples and &quot;list all&quot;. A symbol referenced from several rules (e.g. <Code>NP</Code> in
+                both <Code>SP</Code> and <Code>OP</Code>) also gets one dropdown per parent, so subject and object can be
+                pinned independently. If the filtered count exceeds 100, use the <strong>▼</strong> menu for a capped
                 random batch or narrow parameters to list all.
               </Text>
 
@@ -168,6 +184,17 @@ export function HelpDocumentationModal({ opened, onClose }: HelpDocumentationMod
                 mainly for debugging and understanding how a string was built.
               </Text>
 
+              <Title order={6} mb="xs">
+                Seeds and replay links
+              </Title>
+              <Text size="sm" mb="xs">
+                Every random result records the <strong>seed</strong> it was generated from (shown in Generation
+                Details). Enter a number in the <strong>Seed</strong> field under <strong>Advanced</strong> to make runs
+                repeatable: the same grammar, seed, parameters, strategy and Modifier setting always give the same
+                output. <strong>Copy replay link</strong> puts that result's seed and options in the page URL; open it and
+                press Generate with count <strong>1</strong> to reproduce the result.
+              </Text>
+
               <Title order={6} mb="xs">
                 Per-page defaults (use-case routes)
               </Title>
@@ -218,6 +245,12 @@ export function HelpDocumentationModal({ opened, onClose }: HelpDocumentationMod
                   samples to reflect the <em>size</em> of each subtree, not just the number of listed alternatives.
                 </List.Item>
               </List>
+              <Text size="sm" mt="xs">
+                Both strategies honour explicit weights (see <strong>Weights</strong> in the Syntax tab): Uniform picks in
+                proportion to the weight alone, Weighted multiplies it by the branch size. Counting and &quot;all
+                combinations&quot; ignore weights. Parameter dropdowns show each value&apos;s exact chance of being picked under
+                the selected strategy.
+              </Text>
             </div>
 
             <div>
@@ -340,6 +373,91 @@ export function HelpDocumentationModal({ opened, onClose }: HelpDocumentationMod
               </List>
             </div>
 
+            <div>
+              <Title order={5} mb="xs">
+                Weights
+              </Title>
+              <List size="sm" spacing="xs">
+                <List.Item>
+                  <Code>"girl ^3"</Code> — a trailing space, caret and number make an alternative three times as likely
+                  as one without a weight (weight 1). <Code>^0</Code> never picks it at random.
+                </List.Item>
+                <List.Item>
+                  In JSON you can also write <Code>{'{ "text": "girl", "weight": 3 }'}</Code>; the editor turns it into the
+                  suffix form. Write <Code>\^</Code> for a literal caret at the end.
+                </List.Item>
+              </List>
+            </div>
+
+            <div>
+              <Title order={5} mb="xs">
+                Actions (Tracery push/pop)
+              </Title>
+              <List size="sm" spacing="xs">
+                <List.Item>
+                  <Code>[hero:#name#]</Code> — expand <Code>#name#</Code> once and make the result the only alternative of{' '}
+                  <Code>hero</Code>, so every later <Code>#hero#</Code> repeats it. Comma-separated rules push several
+                  alternatives: <Code>[pet:cat,dog]</Code>.
+                </List.Item>
+                <List.Item>
+                  <Code>[hero:POP]</Code> — drop the last push and restore the previous alternatives.
+                </List.Item>
+                <List.Item>
+                  <Code>#[hero:#name#]story#</Code> — push only while expanding <Code>story</Code>; popped afterwards.
+                </List.Item>
+                <List.Item>
+                  <Code>[#setPronouns#]</Code> — expand a rule just for the actions it contains.
+                </List.Item>
+                <List.Item>
+                  Brackets that are not actions (e.g. <Code>[link](url)</Code>) stay literal; write <Code>\[</Code> to force
+                  a literal bracket.
+                </List.Item>
+              </List>
+            </div>
+
+            <div>
+              <Title order={5} mb="xs">
+                Variables
+              </Title>
+              <List size="sm" spacing="xs">
+                <List.Item>
+                  <Code>#hero=name#</Code> — expand <Code>name</Code>, output it and bind the text to{' '}
+                  <Code>$hero</Code> for the rest of the result, in any rule. <Code>#$hero#</Code> repeats it verbatim;{' '}
+                  <Code>#$hero.capitalize#</Code> runs modifiers on the copy. Modifiers on the binding tag change only
+                  its own output.
+                </List.Item>
+                <List.Item>
+                  <Code>[#hero=name#]</Code> — bind without output. A later <Code>#hero=…#</Code> replaces the value.
+                </List.Item>
+                <List.Item>
+                  Bindings show up in the result metadata (<Code>bindings</Code>) and in the applied rules under{' '}
+                  <Code>$hero</Code>. Counts and full enumeration choose each bound value once.
+                </List.Item>
+              </List>
+            </div>
+
+            <div>
+              <Title order={5} mb="xs">
+                Guarded alternatives
+              </Title>
+              <List size="sm" spacing="xs">
+                <List.Item>
+                  <Code>{'"order": ["[?language=Welsh] #VSO#", "[?language!=Welsh] #SVO#"]'}</Code> — an alternative
+                  is eligible only while its guards hold: the last value chosen for <Code>language</Code> so far in the
+                  result must be (or, with <Code>!=</Code>, must not be) one of the listed values.
+                </List.Item>
+                <List.Item>
+                  <Code>[?language=Welsh|Irish]</Code> lists several values; several guards in a row must all hold. A
+                  rule that has not been chosen yet fails <Code>=</Code> and passes <Code>!=</Code>, so choose the
+                  tested rule earlier in the template.
+                </List.Item>
+                <List.Item>
+                  Counts, full enumeration and probabilities respect guards exactly. The parameter panel shows which
+                  parameters a rule depends on and each value&apos;s condition.
+                </List.Item>
+              </List>
+            </div>
+
             <div>
               <Title order={5} mb="xs">
                 English modifiers
@@ -373,6 +491,77 @@ export function HelpDocumentationModal({ opened, onClose }: HelpDocumentationMod
                   <Code>replace(a,b)</Code> — replace every occurrence of substring <Code>a</Code> with <Code>b</Code>{' '}
                   (comma-separated arguments in parentheses; use <Code>replace(x,y)</Code> syntax in the placeholder).
                 </List.Item>
+                <List.Item>
+                  Arguments may be quoted to keep commas, dots and parentheses:{' '}
+                  <Code>{'#list.replace(", ", " and ")#'}</Code>; inside quotes <Code>\&quot;</Code> is a quote, and{' '}
+                  <Code>\,</Code> or <Code>\)</Code> work unquoted. An argument with placeholders is expanded first:{' '}
+                  <Code>{'#text.replace(#old#, #new#)#'}</Code> picks <Code>old</Code> and <Code>new</Code> like any
+                  other reference, so counts and full enumeration include their choices.
+                </List.Item>
+              </List>
+              <Text size="sm" mt="xs" mb="xs">
+                Beyond the tracery.js set (<Code>a</Code> also knows <Code>an hour</Code> and <Code>a university</Code>):
+              </Text>
+              <List size="sm" spacing="xs">
+                <List.Item>
+                  <Code>ing</Code> — present participle (<Code>making</Code>, <Code>lying</Code>, <Code>running</Code>).{' '}
+                  <Code>possessive</Code> — <Code>cat&apos;s</Code>, <Code>cats&apos;</Code>.
+                </List.Item>
+                <List.Item>
+                  <Code>pluralize</Code> — plural of the last word, knowing irregular and uncountable nouns such as{' '}
+                  <Code>children</Code>, <Code>wolves</Code>, <Code>sheep</Code>; <Code>s</Code> keeps tracery.js
+                  behaviour.
+                </List.Item>
+                <List.Item>
+                  <Code>upper</Code>, <Code>lower</Code>, <Code>titleCase</Code> (short words like <Code>of</Code> stay
+                  lower mid-title), <Code>trim</Code> (also collapses repeated spaces).
+                </List.Item>
+                <List.Item>
+                  <Code>spell</Code> — <Code>42</Code> → <Code>forty-two</Code>. <Code>ordinal</Code> —{' '}
+                  <Code>21</Code> → <Code>21st</Code>, <Code>twenty-one</Code> → <Code>twenty-first</Code>.
+                </List.Item>
+                <List.Item>
+                  <Code>slug</Code>, <Code>escapeXml</Code>, <Code>escapeJson</Code> — for ids, SVG/XML and JSON
+                  output. <Code>truncate(n)</Code> — keep <Code>n</Code> characters and add <Code>…</Code> (or{' '}
+                  <Code>truncate(n,suffix)</Code>).
+                </List.Item>
+              </List>
+            </div>
+
+            <div>
+              <Title order={5} mb="xs">
+                Grammar modifiers and language packs
+              </Title>
+              <Text size="sm" mb="xs">
+                A grammar can bring its own modifiers under the reserved <Code>$modifiers</Code> key. It is not a rule:
+                the graph hides it and it never shows up as a parameter. Each definition is plain data, so saved grammars
+                keep their modifiers without running any code.
+              </Text>
+              <List size="sm" spacing="xs">
+                <List.Item>
+                  <Code>{'"$modifiers": { "gen": { "а": "ы", "": "а" }, "shout": { "/!$/": "!!!" } }'}</Code> — each
+                  modifier is a table of <Code>pattern → replacement</Code> rows, tried top to bottom; the first match
+                  applies. A plain pattern is a suffix (empty matches anything, so it appends); <Code>/…/flags</Code> is a
+                  regex, with <Code>$1</Code> available in the replacement; regexes that could hang (a repeated group that
+                  repeats or branches, such as <Code>(a+)+</Code>, two repeats of the same characters side by side, such
+                  as <Code>.*.*</Code>, more than three <Code>*</Code>/<Code>+</Code> repeats, or a backreference) are
+                  rejected. The JSON view stores
+                  tables as lines such as{' '}
+                  <Code>gen: а -&gt; ы</Code>.
+                </List.Item>
+                <List.Item>
+                  <Code>{'"@pack": "ru"'}</Code> (line <Code>@pack ru</Code>) — add a built-in pack. <Code>ru</Code>: noun
+                  cases <Code>gen</Code>, <Code>dat</Code>, <Code>acc</Code>, <Code>ins</Code>, <Code>prep</Code>, plural{' '}
+                  <Code>pl</Code> (hints <Code>m</Code>, <Code>anim</Code>) and <Code>agree(f|n|pl)</Code> for adjectives
+                  and past-tense verbs. <Code>de</Code>: articles <Code>der</Code>, <Code>ein</Code>, <Code>kein</Code>{' '}
+                  with case and gender params, e.g. <Code>#tier.der(dat,n)#</Code>. <Code>es</Code>: <Code>el</Code>,{' '}
+                  <Code>un</Code>, <Code>del</Code>, <Code>al</Code> (params <Code>f</Code>, <Code>m</Code>,{' '}
+                  <Code>pl</Code>) and plural <Code>pl</Code>. Genders are guessed from word endings when not given.
+                </List.Item>
+                <List.Item>
+                  Grammar definitions override packs, and packs override the English modifiers of the same name. Lines
+                  that do not compile are listed by the grammar checker.
+                </List.Item>
               </List>
             </div>
 
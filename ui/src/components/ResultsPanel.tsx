@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, type ReactNode } from 'react';
+import { useState, useEffect, useMemo, useRef, type ReactNode } from 'react';
 import { useLocation } from 'react-router-dom';
 import {
   Stack,
@@ -14,6 +14,7 @@ import {
   Loader,
   Center,
   NumberInput,
+  MultiSelect,
   NativeSelect,
   Switch,
   useMantineTheme,
@@ -23,11 +24,21 @@ import {
   Box,
   Checkbox,
   Menu,
+  TextInput,
+  Progress,
 } from '@mantine/core';
-import { IconChevronDown, IconChevronRight } from '@tabler/icons-react';
+import { IconChevronDown, IconChevronRight, IconLink } from '@tabler/icons-react';
 import { GrammarProcessor } from '../engine/GrammarEngine';
-import type { GenerationResult } from '../engine/types';
-import type { GenerationStrategy } from '../engine/Engine';
+import type {
+  CombinationPage,
+  GenerationConstraints,
+  GenerationResult,
+  MultiContextParameters,
+} from '../engine/types';
+import type { GenerationStrategy, LanguageSize } from '../engine/Engine';
+import type { AlternativeGuard } from '../engine/placeholderParse';
+import { parseSeed } from '../engine/random';
+import { parseReplaySearch } from '../lib/replayLink';
 import type { UseCasePreviewConfig, UseCaseResultsContentVariant } from '../seo/useCases';
 import { ResultsRenderer } from './ResultsRenderer';
 import { UsecaseCardOrnament } from './usecaseOrnaments';
@@ -44,17 +55,64 @@ const RESULT_DISPLAY_MODE_OPTIONS: { value: UseCaseResultsContentVariant; label:
 const MODIFIERS_TOOLTIP =
   'When on, the engine runs Tracery-style modifier chains in placeholders like #noun.a# or #phrase.capitalize# (English helpers: a/an, plural -s, capitalization, ed/ing, and more). Turn off for plain expansion without post-processing.';
 
+/** Dropdown label for a parameter value: its guards, author weight and chance of being picked at random. */
+function parameterOptionLabel(
+  value: string,
+  weight: number | undefined,
+  probability: number | undefined,
+  guards: AlternativeGuard[] = [],
+): string {
+  const parts = [value];
+  if (guards.length) {
+    const conditions = guards.map((g) => `${g.rule}${g.negate ? '≠' : '='}${g.values.join('|')}`);
+    parts.push(`(if ${conditions.join(', ')})`);
+  }
+  if (weight !== undefined && weight !== 1) parts.push(`(×${weight})`);
+  if (probability !== undefined) parts.push(`· ${Math.round(probability * 1000) / 10}%`);
+  return parts.join(' ');
+}
+
+/** Combinations per derivation depth, as bars scaled to the largest depth. */
+function DepthHistogram({ depthCounts }: { depthCounts: number[] }) {
+  const largest = Math.max(...depthCounts);
+  return (
+    <Stack gap={2} maw={360}>
+      {depthCounts.map((n, depth) =>
+        n === 0 ? null : (
+          <Group key={depth} gap="xs" wrap="nowrap">
+            <Text size="xs" c="dimmed" w={56} style={{ flexShrink: 0 }}>
+              depth {depth}
+            </Text>
+            <Progress value={(n / largest) * 100} size="sm" style={{ flex: 1 }} aria-label={`Depth ${depth}`} />
+            <Text size="xs" c="dimmed" w={80} ta="right" style={{ flexShrink: 0 }}>
+              {n.toLocaleString()}
+            </Text>
+          </Group>
+        ),
+      )}
+    </Stack>
+  );
+}
+
 interface ResultsPanelProps {
   engine: GrammarProcessor | null;
   results: GenerationResult[];
   isLoading: boolean;
-  onGenerate: (parameters: Record<string, string>) => void;
-  onGenerateAll: (selectedParameters: Record<string, string>) => void;
-  onGenerateMany: (parameters: Record<string, string>, count: number) => void;
+  onGenerate: (constraints: GenerationConstraints) => void;
+  onGenerateAll: (constraints: GenerationConstraints) => void;
+  onGenerateMany: (constraints: GenerationConstraints, count: number) => void;
+  /** Current page when the results come from "Generate all". */
+  combinationPage?: CombinationPage | null;
+  onCombinationPageChange?: (cursor: string) => void;
   strategy: GenerationStrategy;
   onStrategyChange: (strategy: GenerationStrategy) => void;
   processModifiers: boolean;
   onProcessModifiersChange: (value: boolean) => void;
+  /** Fixed generation seed; null means a fresh random seed per run. */
+  seed: number | null;
+  onSeedChange: (seed: number | null) => void;
+  /** When set, seeded results offer a "copy replay link" action. */
+  onCopyReplayLink?: (result: GenerationResult) => void;
   /** Default `line` — single-line text cells. */
   contentVariant?: UseCaseResultsContentVariant;
   /** Preview layout for svg/html/markdown. */
@@ -80,10 +138,15 @@ export function ResultsPanel({
   onGenerate,
   onGenerateAll,
   onGenerateMany,
+  combinationPage = null,
+  onCombinationPageChange,
   strategy,
   onStrategyChange,
   processModifiers,
   onProcessModifiersChange,
+  seed,
+  onSeedChange,
+  onCopyReplayLink,
   contentVariant = 'line',
   preview,
   maxGenerateMany,
@@ -97,18 +160,26 @@ export function ResultsPanel({
   const theme = useMantineTheme();
   const h3Heading = theme.headings.sizes.h3;
   const resultsTitleRowHeight = `calc(${h3Heading.fontSize} * ${h3Heading.lineHeight})`;
-  const { pathname } = useLocation();
+  const { pathname, search } = useLocation();
   const ornamentPath = pathname;
 
   const [selectedParameters, setSelectedParameters] = useState<Record<string, string>>({});
+  const [excludedParameters, setExcludedParameters] = useState<Record<string, string[]>>({});
+  const [contextualSelections, setContextualSelections] = useState<MultiContextParameters>({});
+  /** Parameters from a replay link, applied once the first engine is ready. */
+  const pendingReplayRef = useRef<ReturnType<typeof parseReplaySearch> | null>(parseReplaySearch(search));
+  const [seedDraft, setSeedDraft] = useState(seed === null ? '' : String(seed));
   const [generateCount, setGenerateCount] = useState<number>(10);
   const [parameterControlsOpen, setParameterControlsOpen] = useState(parameterControlsDefaultExpanded);
   const [showResultParameters, setShowResultParameters] = useState(false);
   /** Shown after “sample from large space” from the ▼ menu; cleared on other generates / parameter changes. */
   const [largeSpaceSampleNote, setLargeSpaceSampleNote] = useState<string | null>(null);
 
-  const parameters = engine?.getParameters() || {};
-  const stats = engine?.getParameterStatistics();
+  const parameters = useMemo(() => engine?.getParameters() || {}, [engine]);
+  /** Parent rules per symbol; symbols with several parents can be pinned per context. */
+  const parameterContexts = useMemo(() => engine?.getContextualParameters() ?? {}, [engine]);
+  const stats = useMemo(() => engine?.getParameterStatistics(strategy), [engine, strategy]);
+  const languageSize = useMemo<LanguageSize | null>(() => engine?.getLanguageSize('origin') ?? null, [engine]);
 
   /** Drop selections that no longer match the current grammar (e.g. after renames). */
   const validatedParameterConstraints = useMemo(() => {
@@ -121,13 +192,44 @@ export function ResultsPanel({
     return out;
   }, [parameters, selectedParameters]);
 
+  /** Exclusions for values that still exist, on parameters that are not pinned to one value. */
+  const validatedExclusions = useMemo(() => {
+    const out: Record<string, string[]> = {};
+    for (const [k, values] of Object.entries(excludedParameters)) {
+      const param = parameters[k];
+      if (!param || k in validatedParameterConstraints) continue;
+      const kept = values.filter((v) => param.values.includes(v));
+      if (kept.length > 0) out[k] = kept;
+    }
+    return out;
+  }, [parameters, excludedParameters, validatedParameterConstraints]);
+
+  /** Per-context pins for existing values and parents, on parameters that are not pinned globally. */
+  const validatedContextualConstraints = useMemo(() => {
+    const out: MultiContextParameters = {};
+    for (const [k, byParent] of Object.entries(contextualSelections)) {
+      const param = parameters[k];
+      if (!param || k in validatedParameterConstraints) continue;
+      const parents = parameterContexts[k] ?? [];
+      const kept = Object.entries(byParent).filter(
+        ([parent, v]) => parents.includes(parent) && param.values.includes(v),
+      );
+      if (kept.length > 0) out[k] = Object.fromEntries(kept);
+    }
+    return out;
+  }, [parameters, parameterContexts, contextualSelections, validatedParameterConstraints]);
+
   const filterableParameters = Object.entries(parameters).filter(([_, param]) => param.values.length > 1);
   const singleValueParameters = Object.entries(parameters).filter(([_, param]) => param.values.length === 1);
 
   const getActualCombinationCount = (): number => {
     if (!engine) return 0;
     try {
-      return engine.getTotalCombinations('origin', selectedParameters);
+      return engine.getTotalCombinations('origin', {
+        requiredParameters: validatedParameterConstraints,
+        excludedParameters: validatedExclusions,
+        contextualParameters: validatedContextualConstraints,
+      });
     } catch (err) {
       console.error('Error calculating combination count:', err);
       return 0;
@@ -144,17 +246,36 @@ export function ResultsPanel({
 
   const getModifierApplications = (result: GenerationResult) => result.metadata.modifierApplications ?? [];
 
+  const getDerivationTree = (result: GenerationResult) => engine?.getDerivationTree('origin', result);
+
   useEffect(() => {
-    setSelectedParameters({});
+    setSelectedParameters(pendingReplayRef.current?.parameters ?? {});
+    setExcludedParameters(pendingReplayRef.current?.excludedParameters ?? {});
+    setContextualSelections(pendingReplayRef.current?.contextualParameters ?? {});
+    if (engine) pendingReplayRef.current = null;
   }, [engine]);
 
+  useEffect(() => {
+    setSeedDraft(seed === null ? '' : String(seed));
+  }, [seed]);
+
+  const handleSeedDraftChange = (value: string) => {
+    setSeedDraft(value);
+    if (value.trim() === '') {
+      onSeedChange(null);
+      return;
+    }
+    const parsed = parseSeed(value);
+    if (parsed !== null) onSeedChange(parsed);
+  };
+
   useEffect(() => {
     setGenerateCount((c) => Math.min(Math.max(1, c), generateManyMax));
   }, [generateManyMax, engine]);
 
   useEffect(() => {
     setLargeSpaceSampleNote(null);
-  }, [selectedParameters, engine]);
+  }, [selectedParameters, excludedParameters, contextualSelections, engine]);
 
   const handleParameterChange = (paramName: string, value: string) => {
     setSelectedParameters((prev) => {
@@ -166,12 +287,36 @@ export function ResultsPanel({
     });
   };
 
-  const buildParameterPayload = () => {
+  const handleExclusionChange = (paramName: string, values: string[]) => {
+    setExcludedParameters((prev) => {
+      const next = { ...prev };
+      if (values.length > 0) next[paramName] = values;
+      else delete next[paramName];
+      return next;
+    });
+  };
+
+  const handleContextualChange = (paramName: string, parent: string, value: string) => {
+    setContextualSelections((prev) => {
+      const byParent = { ...prev[paramName] };
+      if (value === '') delete byParent[parent];
+      else byParent[parent] = value;
+      const next = { ...prev, [paramName]: byParent };
+      if (Object.keys(byParent).length === 0) delete next[paramName];
+      return next;
+    });
+  };
+
+  const buildParameterPayload = (): GenerationConstraints => {
     const allParameters = { ...validatedParameterConstraints };
     singleValueParameters.forEach(([name, param]) => {
       allParameters[name] = param.values[0];
     });
-    return allParameters;
+    return {
+      requiredParameters: allParameters,
+      excludedParameters: validatedExclusions,
+      contextualParameters: validatedContextualConstraints,
+    };
   };
 
   const clampedGenerateCount = Math.min(Math.max(1, generateCount), generateManyMax);
@@ -187,7 +332,11 @@ export function ResultsPanel({
 
   const handleGenerateAllFromMenu = () => {
     setLargeSpaceSampleNote(null);
-    onGenerateAll(validatedParameterConstraints);
+    onGenerateAll({
+      requiredParameters: validatedParameterConstraints,
+      excludedParameters: validatedExclusions,
+      contextualParameters: validatedContextualConstraints,
+    });
   };
 
   const handleLargeSpaceSampleFromMenu = () => {
@@ -240,7 +389,8 @@ export function ResultsPanel({
     URL.revokeObjectURL(url);
   };
 
-  const totalCombinations = engine ? engine.getTotalCombinations('origin') : 0;
+  const totalCombinations = languageSize?.count ?? 0;
+  const depthLimit = engine?.getDepthLimit('origin') ?? Infinity;
 
   const parametersBlock =
     filterableParameters.length === 0 ? (
@@ -267,15 +417,54 @@ export function ResultsPanel({
             <Text fw={500} size="sm">
               {name}
             </Text>
+            {param.dependsOn && (
+              <Text size="xs" c="dimmed" mt={-6}>
+                depends on {param.dependsOn.join(', ')}
+              </Text>
+            )}
             <NativeSelect
               size="xs"
               value={selectedParameters[name] ?? ''}
               onChange={(e) => handleParameterChange(name, e.currentTarget.value)}
               data={[
                 { value: '', label: 'Random' },
-                ...param.values.map((value) => ({ value, label: value })),
+                ...param.values.map((value, i) => ({
+                  value,
+                  label: parameterOptionLabel(
+                    value,
+                    param.weights?.[i],
+                    stats?.parameterProbabilities[name]?.[value],
+                    param.guards?.[i],
+                  ),
+                })),
               ]}
             />
+            <MultiSelect
+              size="xs"
+              placeholder={validatedExclusions[name] ? undefined : 'Exclude…'}
+              aria-label={`Exclude values of ${name}`}
+              data={[...new Set(param.values)]}
+              value={validatedExclusions[name] ?? []}
+              onChange={(values) => handleExclusionChange(name, values)}
+              maxValues={param.values.length - 1}
+              disabled={name in validatedParameterConstraints}
+              clearable
+            />
+            {(parameterContexts[name]?.length ?? 0) > 1 &&
+              parameterContexts[name]!.map((parent) => (
+                <NativeSelect
+                  key={parent}
+                  size="xs"
+                  aria-label={`${name} in ${parent}`}
+                  value={validatedContextualConstraints[name]?.[parent] ?? ''}
+                  onChange={(e) => handleContextualChange(name, parent, e.currentTarget.value)}
+                  disabled={name in validatedParameterConstraints}
+                  data={[
+                    { value: '', label: `${parent}: any` },
+                    ...[...new Set(param.values)].map((value) => ({ value, label: `${parent}: ${value}` })),
+                  ]}
+                />
+              ))}
           </Stack>
         ))}
       </Box>
@@ -397,13 +586,22 @@ export function ResultsPanel({
                         All {actualCombinations.toLocaleString()} — list every combination
                       </Menu.Item>
                     ) : actualCombinations > 100 ? (
-                      <Menu.Item
-                        onClick={handleLargeSpaceSampleFromMenu}
-                        disabled={isLoading}
-                        title={`${generateManyMax} independent random samples; full enumeration would be ${actualCombinations.toLocaleString()}`}
-                      >
-                        {generateManyMax} of {actualCombinations.toLocaleString()} (random sample)
-                      </Menu.Item>
+                      <>
+                        <Menu.Item
+                          onClick={handleLargeSpaceSampleFromMenu}
+                          disabled={isLoading}
+                          title={`${generateManyMax} independent random samples; full enumeration would be ${actualCombinations.toLocaleString()}`}
+                        >
+                          {generateManyMax} of {actualCombinations.toLocaleString()} (random sample)
+                        </Menu.Item>
+                        <Menu.Item
+                          onClick={handleGenerateAllFromMenu}
+                          disabled={isLoading}
+                          title="Every combination in a fixed order, one page at a time"
+                        >
+                          All {actualCombinations.toLocaleString()} — page through every combination
+                        </Menu.Item>
+                      </>
                     ) : (
                       <Menu.Item disabled>
                         Only one outcome — use Generate
@@ -458,12 +656,22 @@ export function ResultsPanel({
               w={120}
               value={strategy}
               onChange={(e) => onStrategyChange(e.currentTarget.value as GenerationStrategy)}
-              title="Generation strategy: Uniform gives equal probability to each option, Weighted favors options that generate more strings"
+              title="Generation strategy: Uniform picks options by their ^weight (equal by default), Weighted also favors options that generate more strings"
               data={[
                 { value: 'uniform', label: 'Uniform' },
                 { value: 'weighted', label: 'Weighted' },
               ]}
             />
+            <TextInput
+              size="xs"
+              w={120}
+              value={seedDraft}
+              onChange={(e) => handleSeedDraftChange(e.currentTarget.value)}
+              placeholder="Random seed"
+              aria-label="Generation seed"
+              error={seedDraft.trim() !== '' && parseSeed(seedDraft) === null}
+              title="Fixed seed (non-negative integer): the same seed, parameters and options always give the same results. Leave empty for a fresh seed per run."
+            />
             <Tooltip label={MODIFIERS_TOOLTIP} multiline w={280} position="bottom" withArrow>
               <Switch
                 size="xs"
@@ -485,7 +693,10 @@ export function ResultsPanel({
             <Stack gap={6}>
               <Group gap={6} wrap="wrap" align="baseline">
                 <Text size="sm" c="dimmed" span>
-                  Total combinations: {totalCombinations}
+                  Total combinations:{' '}
+                  {languageSize?.infinite
+                    ? `∞ (${totalCombinations.toLocaleString()} up to depth ${depthLimit})`
+                    : totalCombinations}
                 </Text>
                 <Text size="sm" c="dimmed" span>
                   /
@@ -498,6 +709,15 @@ export function ResultsPanel({
                   With selected parameters: {actualCombinations}
                 </Text>
               </Group>
+              {languageSize?.infinite && (
+                <Text size="sm" c="dimmed" lh={1.45}>
+                  Recursive rules: {languageSize.recursiveRules.join(', ')}. Counts, “generate all” and pages stop at
+                  depth {depthLimit}.
+                </Text>
+              )}
+              {languageSize && languageSize.depthCounts.filter((n) => n > 0).length > 1 && (
+                <DepthHistogram depthCounts={languageSize.depthCounts} />
+              )}
               {singleValueParameters.length > 0 && (
                 <Text size="sm" c="dimmed" lh={1.45}>
                   {singleValueParameters.length} fixed parameter
@@ -530,15 +750,47 @@ export function ResultsPanel({
             </Text>
           </Box>
         ) : (
-          <ResultsRenderer
-            contentVariant={contentVariant}
-            results={results}
-            theme={theme}
-            preview={preview}
-            showParameters={showResultParameters}
-            getRelevantParameters={getRelevantParameters}
-            getModifierApplications={(r) => getModifierApplications(r) ?? []}
-          />
+          <Stack gap="sm">
+            {combinationPage && onCombinationPageChange && combinationPage.total > combinationPage.results.length && (
+              <Group justify="space-between" gap="xs">
+                <Text size="xs" c="dimmed">
+                  {(combinationPage.offset + 1).toLocaleString()}–
+                  {(combinationPage.offset + combinationPage.results.length).toLocaleString()} of{' '}
+                  {combinationPage.total.toLocaleString()} combinations
+                </Text>
+                <Group gap={6}>
+                  <Button
+                    size="xs"
+                    variant="default"
+                    disabled={!combinationPage.previousCursor}
+                    onClick={() =>
+                      combinationPage.previousCursor && onCombinationPageChange(combinationPage.previousCursor)
+                    }
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="default"
+                    disabled={!combinationPage.nextCursor}
+                    onClick={() => combinationPage.nextCursor && onCombinationPageChange(combinationPage.nextCursor)}
+                  >
+                    Next
+                  </Button>
+                </Group>
+              </Group>
+            )}
+            <ResultsRenderer
+              contentVariant={contentVariant}
+              results={results}
+              theme={theme}
+              preview={preview}
+              showParameters={showResultParameters}
+              getRelevantParameters={getRelevantParameters}
+              getModifierApplications={(r) => getModifierApplications(r) ?? []}
+              getDerivationTree={getDerivationTree}
+            />
+          </Stack>
         )}
       </Paper>
 
@@ -571,6 +823,25 @@ export function ResultsPanel({
                       Result {index + 1}
                     </Text>
                     <Stack gap="xs">
+                      {result.metadata.seed !== undefined && (
+                        <Group gap="xs" align="center">
+                          <Text size="sm" c="dimmed">
+                            Seed:
+                          </Text>
+                          <Code>{result.metadata.seed}</Code>
+                          {onCopyReplayLink && (
+                            <Button
+                              size="compact-xs"
+                              variant="subtle"
+                              leftSection={<IconLink size={12} />}
+                              onClick={() => onCopyReplayLink(result)}
+                              title="Copy a link that reopens this page with this seed, strategy and parameters (generate with count 1 to reproduce)"
+                            >
+                              Copy replay link
+                            </Button>
+                          )}
+                        </Group>
+                      )}
                       <div>
                         <Text size="sm" c="dimmed">
                           Generation Path:
@@ -595,6 +866,24 @@ export function ResultsPanel({
                           ))}
                         </Text>
                       </div>
+                      {result.metadata.bindings && (
+                        <div>
+                          <Text size="sm" c="dimmed">
+                            Variables:
+                          </Text>
+                          <Stack gap={6} mt={4}>
+                            {Object.entries(result.metadata.bindings).map(([name, value]) => (
+                              <Text key={name} size="sm">
+                                <Text component="span" fw={600}>
+                                  ${name}
+                                </Text>
+                                {' = '}
+                                <Code>{value}</Code>
+                              </Text>
+                            ))}
+                          </Stack>
+                        </div>
+                      )}
                       {getModifierApplications(result).length > 0 && (
                         <div>
                           <Text size="sm" c="dimmed">
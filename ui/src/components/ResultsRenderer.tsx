@@ -1,4 +1,4 @@
-import { useMemo, type CSSProperties } from 'react';
+import { useMemo, useState, type CSSProperties } from 'react';
 import {
   ActionIcon,
   Badge,
@@ -22,9 +22,10 @@ import {
 import { IconCopy } from '@tabler/icons-react';
 import { marked } from 'marked';
 import { notifications } from '@mantine/notifications';
-import type { GenerationResult, ModifierApplication } from '../engine/types';
+import type { DerivationNode, GenerationResult, ModifierApplication } from '../engine/types';
 import type { UseCasePreviewConfig, UseCaseResultsContentVariant } from '../seo/useCases';
 import { sanitizeHtml, sanitizeSvg } from '../lib/sanitize';
+import { DerivationTreeView } from './DerivationTreeView';
 import classes from './ResultsRenderer.module.css';
 
 export interface ResultsRendererProps {
@@ -36,6 +37,8 @@ export interface ResultsRendererProps {
   showParameters?: boolean;
   getRelevantParameters: (result: GenerationResult) => Record<string, unknown>;
   getModifierApplications: (result: GenerationResult) => ModifierApplication[];
+  /** Parse tree of a result; when given, the parameter summary can show it */
+  getDerivationTree?: (result: GenerationResult) => DerivationNode | undefined;
 }
 
 async function copyText(label: string, text: string, color: MantineColor) {
@@ -62,12 +65,19 @@ function ParameterLine({
   result,
   getRelevantParameters,
   getModifierApplications,
+  getDerivationTree,
 }: Pick<
   ResultsRendererProps,
-  'getRelevantParameters' | 'getModifierApplications'
+  'getRelevantParameters' | 'getModifierApplications' | 'getDerivationTree'
 > & { result: GenerationResult }) {
   const params = Object.entries(getRelevantParameters(result));
   const mods = getModifierApplications(result);
+  const [treeOpen, setTreeOpen] = useState(false);
+  // Rebuilt only when opened: results from enumeration carry no tree of their own
+  const tree = useMemo(
+    () => (treeOpen ? getDerivationTree?.(result) : undefined),
+    [treeOpen, getDerivationTree, result],
+  );
 
   return (
     <Stack gap={6}>
@@ -95,6 +105,25 @@ function ParameterLine({
           ))}
         </Group>
       )}
+      {getDerivationTree && (
+        <Button
+          size="compact-xs"
+          variant="subtle"
+          color="gray"
+          style={{ alignSelf: 'flex-start' }}
+          onClick={() => setTreeOpen((open) => !open)}
+        >
+          {treeOpen ? 'Hide parse tree' : 'Parse tree'}
+        </Button>
+      )}
+      {treeOpen &&
+        (tree ? (
+          <DerivationTreeView tree={tree} />
+        ) : (
+          <Text size="xs" c="dimmed">
+            No parse tree for this result
+          </Text>
+        ))}
     </Stack>
   );
 }
@@ -154,6 +183,7 @@ export function ResultsRenderer({
   showParameters = false,
   getRelevantParameters,
   getModifierApplications,
+  getDerivationTree,
 }: ResultsRendererProps) {
   const colorScheme = useComputedColorScheme('light');
   const scheme: 'light' | 'dark' = colorScheme === 'dark' ? 'dark' : 'light';
@@ -219,6 +249,7 @@ export function ResultsRenderer({
                       result={result}
                       getRelevantParameters={getRelevantParameters}
                       getModifierApplications={getModifierApplications}
+                      getDerivationTree={getDerivationTree}
                     />
                   </>
                 )}
@@ -267,6 +298,7 @@ export function ResultsRenderer({
                     result={result}
                     getRelevantParameters={getRelevantParameters}
                     getModifierApplications={getModifierApplications}
+                    getDerivationTree={getDerivationTree}
                   />
                 )}
               </Stack>
@@ -321,6 +353,7 @@ export function ResultsRenderer({
                       result={result}
                       getRelevantParameters={getRelevantParameters}
                       getModifierApplications={getModifierApplications}
+                      getDerivationTree={getDerivationTree}
                     />
                   )}
                 </Stack>
@@ -370,6 +403,7 @@ export function ResultsRenderer({
                     result={result}
                     getRelevantParameters={getRelevantParameters}
                     getModifierApplications={getModifierApplications}
+                    getDerivationTree={getDerivationTree}
                   />
                 )}
               </Stack>
@@ -409,6 +443,7 @@ export function ResultsRenderer({
                       result={result}
                       getRelevantParameters={getRelevantParameters}
                       getModifierApplications={getModifierApplications}
+                      getDerivationTree={getDerivationTree}
                     />
                   )}
                 </Stack>
@@ -457,6 +492,7 @@ export function ResultsRenderer({
                     result={result}
                     getRelevantParameters={getRelevantParameters}
                     getModifierApplications={getModifierApplications}
+                    getDerivationTree={getDerivationTree}
                   />
                 </Table.Td>
               )}
@@ -12,7 +12,6 @@ import {
 } from '@xyflow/react';
 import { useDebouncedCallback, useDebouncedValue } from '@mantine/hooks';
 import {
-  Alert,
   Button,
   Group,
   Modal,
@@ -25,7 +24,6 @@ import { IconLayout, IconPlus } from '@tabler/icons-react';
 import type { GrammarRule } from '../../engine/types';
 import {
   ensureRulesForReferences,
-  findMissingRefs,
   grammarLayoutFingerprint,
   renameRule,
 } from '../../engine/grammarGraphModel';
@@ -276,8 +274,6 @@ function GrammarGraphInner({ grammar, onChange, fillHeight }: GrammarGraphViewPr
     }
   }, [layoutSource]);
 
-  const missing = useMemo(() => findMissingRefs(draftGrammar), [draftGrammar]);
-
   const keys = Object.keys(draftGrammar);
 
   if (keys.length === 0) {
@@ -327,11 +323,6 @@ function GrammarGraphInner({ grammar, onChange, fillHeight }: GrammarGraphViewPr
         </Stack>
       </Modal>
 
-      {missing.length > 0 && (
-        <Alert color="yellow" title="Unknown references">
-          <Text size="sm">These #symbols# have no rule: {missing.join(', ')}</Text>
-        </Alert>
-      )}
       <div
         style={{
           flex: fillHeight ? 1 : undefined,
@@ -1,33 +1,196 @@
-import { applyModifierPipeline, DEFAULT_ENGLISH_MODIFIERS } from "./baseEngModifiers";
+import { applyModifierCalls, DEFAULT_ENGLISH_MODIFIERS, type ModifierFn } from "./baseEngModifiers";
 import {
-  decodePlaceholderInner,
-  parsePlaceholderInner,
+  isVariableName,
+  parseActionInner,
+  parseModifierCall,
+  parsePlaceholder,
+  splitAlternativeGuards,
+  splitAlternativeWeight,
   splitTemplateSegments,
+  type AlternativeGuard,
 } from "./placeholderParse";
-import type { ModifierApplication } from "./types";
+import { recursiveComponents } from "./grammarGraphModel";
+import {
+  createSeededRng,
+  nextSeed,
+  normalizeSeed,
+  randomIndex,
+  sampleIndices,
+  type RandomSource,
+} from "./random";
+import type { DerivationNode, GenerationConstraints, ModifierApplication } from "./types";
 
 export type Grammar = Record<string, string[]>;
 type Constraints = Record<string, string | string[]>;
+/** Either a flat map of allowed values per rule, or the full GenerationConstraints */
+export type ConstraintsInput = Constraints | GenerationConstraints;
+/**
+ * How alternatives are sampled. Both honour author weights (`"text ^3"`):
+ * - uniform: proportional to author weight (equal when no weights are given)
+ * - weighted: proportional to author weight × number of strings the alternative can produce
+ */
 export type GenerationStrategy = "uniform" | "weighted";
 
-type AstNode = LiteralNode | ReferenceNode | SequenceNode | AlternationNode;
+/** One alternative of a rule with its author weight and chance of being picked */
+export interface AlternativeStats {
+  alternative: string;
+  weight: number;
+  /** Derivations reachable through this alternative */
+  count: number;
+  /** Probability of picking it at this rule under the strategy */
+  probability: number;
+}
+
+/** How often a rule's alternatives are chosen in one generated string */
+export interface RuleDistribution {
+  /** Expected expansions of the rule from the grammar per generated string */
+  expectedVisits: number;
+  alternatives: AlternativeProbability[];
+}
+
+export interface AlternativeProbability {
+  alternative: string;
+  weight: number;
+  /** Expected times it is chosen per generated string (its probability when the rule is used at most once) */
+  expected: number;
+  /** Probability of being chosen given that the rule is expanded */
+  probability: number;
+}
+
+export type AstNode = LiteralNode | ReferenceNode | SequenceNode | AlternationNode | ActionNode;
 
-interface LiteralNode {
+export interface LiteralNode {
   kind: "literal";
   text: string;
 }
-interface ReferenceNode {
+export interface ReferenceNode {
   kind: "reference";
   name: string;
+  /** Modifier segments as written, for labels and metadata */
   modifiers: string[];
+  modifierSteps: ModifierStep[];
+  /** Tracery preactions (`#[hero:#name#]story#`): run before expanding; their pushes are popped after */
+  preactions: ActionNode[];
+  /** Rule whose alternative contains this reference ("" for the start symbol), for contextual constraints */
+  parent: string;
+  /** For the `$hero` reference of a `#hero=name#` tag: the reference whose text the tag binds, for labels */
+  bound?: ReferenceNode;
+}
+/**
+ * A parsed modifier. Arguments with #ref# tags are expanded by a hidden preaction that pushes the text
+ * onto an ARG_STACK symbol, so counting and enumeration see their choices like any other preaction.
+ */
+export interface ModifierStep {
+  name: string;
+  args: (string | { stack: string })[];
 }
-interface SequenceNode {
+// `$` cannot start a rule name and `$$` cannot start a variable, so these stacks never clash with either
+const ARG_STACK = "$$arg";
+export const isArgPush = (action: ActionNode): action is Extract<ActionNode, { action: "push" }> =>
+  action.action === "push" && action.target.startsWith(ARG_STACK);
+// Pushes to `$hero` come only from `#hero=name#` tags: action targets must be rule names
+export const isBindingPush = (action: ActionNode): boolean =>
+  action.action === "push" && isVariableName(action.target);
+/**
+ * The last choice of a rule that guards test (`[?language=Welsh]`) is kept on the rule stacks as `?language`,
+ * so counting and enumeration follow it like any other runtime state. `?` cannot start a rule or a variable.
+ * Generation stores the option index as text, counting as the number itself.
+ */
+const CHOICE_STACK = "?";
+const choiceShape = (index: number): number => index;
+const choiceText = (index: number): string[] => [String(index)];
+/** A guard resolved against its rule: which option indices satisfy it */
+interface ResolvedGuard {
+  stack: string;
+  allowed: Set<number>;
+  negate: boolean;
+}
+export interface SequenceNode {
   kind: "sequence";
   parts: AstNode[];
 }
-interface AlternationNode {
+export interface AlternationNode {
   kind: "alternation";
   options: AstNode[];
+  /** Author weights (`"text ^3"`), parallel to options; 1 when not given */
+  weights: number[];
+}
+/**
+ * Tracery action: `push` expands each rule to text and pushes them as the new alternatives of `target`,
+ * `pop` restores the previous ones, `run` expands a template only for the actions inside it.
+ */
+export type ActionNode =
+  | { kind: "action"; action: "push"; target: string; rules: AstNode[] }
+  | { kind: "action"; action: "pop"; target: string }
+  | { kind: "action"; action: "run"; template: AstNode };
+
+/**
+ * Runtime rule stacks created by actions, per symbol (immutable, so branches can share them).
+ * Generation keeps the pushed texts; counting only needs how many alternatives each level has.
+ */
+type Stacks<T> = Readonly<Record<string, readonly T[]>>;
+const NO_STACKS: Stacks<never> = {};
+
+function pushStack<T>(stacks: Stacks<T>, name: string, value: T): Stacks<T> {
+  return { ...stacks, [name]: [...(stacks[name] ?? []), value] };
+}
+
+function popStack<T>(stacks: Stacks<T>, name: string): Stacks<T> {
+  const stack = stacks[name];
+  if (!stack?.length) return stacks;
+  if (stack.length > 1) return { ...stacks, [name]: stack.slice(0, -1) };
+  return Object.fromEntries(Object.entries(stacks).filter(([k]) => k !== name));
+}
+
+function topOfStack<T>(stacks: Stacks<T>, name: string): T | undefined {
+  const stack = stacks[name];
+  return stack?.length ? stack[stack.length - 1] : undefined;
+}
+
+// Bindings are never popped, so the stacks a derivation ends with hold the last value of each variable
+function bindingsOf(stacks: Stacks<string[]>): Record<string, string> | undefined {
+  const bound = Object.entries(stacks).filter(([name]) => isVariableName(name));
+  if (!bound.length) return undefined;
+  return Object.fromEntries(bound.map(([name]) => [name.slice(1), topOfStack(stacks, name)![0]!]));
+}
+
+function stacksKey(stacks: Stacks<unknown>): string {
+  if (stacks === NO_STACKS) return "";
+  const names = Object.keys(stacks);
+  if (!names.length) return "";
+  return JSON.stringify(names.sort().map((n) => [n, stacks[n]]));
+}
+
+const stackShapes = (stacks: Stacks<string[]>): Stacks<number> =>
+  stacks === NO_STACKS
+    ? NO_STACKS
+    : Object.fromEntries(
+        Object.entries(stacks).map(([k, v]) => [
+          k,
+          k.startsWith(CHOICE_STACK) ? v.map((level) => Number(level[0])) : v.map((level) => level.length),
+        ]),
+      );
+
+/** Derivation counts keyed by the rule stacks they leave behind */
+type CountOutcomes = Map<string, { stacks: Stacks<number>; count: number }>;
+type OutcomeCounter = (node: AstNode, depth: number, stacks: Stacks<number>) => CountOutcomes;
+
+const sum = (values: readonly number[]): number => {
+  let total = 0;
+  for (const v of values) total += v;
+  return total;
+};
+
+const totalCount = (outcomes: CountOutcomes): number => {
+  let sum = 0;
+  for (const o of outcomes.values()) sum += o.count;
+  return sum;
+};
+
+/** Probabilities of the rule stacks left behind, with expected choices per rule alternative */
+interface ChoiceFlow {
+  outcomes: Map<string, { stacks: Stacks<number>; p: number }>;
+  choices: Map<string, number[]>;
 }
 
 type Trace = Record<string, string[]>;
@@ -37,26 +200,289 @@ export interface Generated {
   trace: Trace; // rule -> list of chosen alternatives
   /** Present when processModifiers ran and at least one #rule.mod# had modifiers */
   modifierApplications?: ModifierApplication[];
+  /** Present when a `#hero=name#` tag ran: each variable's last bound text (key without `$`) */
+  bindings?: Record<string, string>;
+  /** Present on generate() results: which rule produced which part of the text (derivationTree rebuilds it) */
+  tree?: DerivationNode;
+  /** Present when generated from a numeric seed: replaying that seed reproduces this result */
+  seed?: number;
+  /** Present when drawn by index: nthString(index) reproduces this result */
+  index?: number;
+}
+
+export interface DistinctCountOptions {
+  /** Enumerate every derivation up to this many (default 100000); estimate beyond */
+  exactLimit?: number;
+  /** Derivations sampled for an estimate (default 1000) */
+  sampleSize?: number;
+  seed?: number;
+}
+
+export interface DistinctStringCount {
+  /** Distinct texts: exact, or a rounded unbiased estimate */
+  count: number;
+  /** All derivations, as countStrings counts them */
+  derivations: number;
+  exact: boolean;
+}
+
+/** How many derivations a rule has, and how deep they go */
+export interface LanguageSize {
+  /** Derivations within the depth limit; Infinity for a recursive rule without one */
+  count: number;
+  /** Recursion gives the rule infinitely many derivations when depth is not limited */
+  infinite: boolean;
+  /** Rules on the recursive cycles, in the order they are reached */
+  recursiveRules: string[];
+  /**
+   * depthCounts[d]: derivations whose longest chain of references below the start rule is d long
+   * (empty when count is Infinity)
+   */
+  depthCounts: number[];
+}
+
+/** "derivation": every result is a different derivation; "text": every result has a different text */
+export type DistinctBy = "derivation" | "text";
+
+export interface DistinctSample {
+  results: Generated[];
+  /** Derivations drawn, including those dropped as duplicate texts */
+  drawn: number;
+  /** Drawn derivations dropped because an earlier one had the same text */
+  collapsed: number;
+  /** Per kept text, how many further drawn derivations produced it (only texts with duplicates) */
+  collapsedByText: Record<string, number>;
+  /** Every derivation was drawn (fewer than n results means the space is too small) */
+  exhausted: boolean;
+}
+
+/** Persistent list, newest first: enumeration branches share everything chosen before they split */
+type Chain<T> = { head: T; tail: Chain<T> } | null;
+
+const chainToArray = <T,>(chain: Chain<T>): T[] => {
+  const out: T[] = [];
+  for (let link = chain; link; link = link.tail) out.push(link.head);
+  return out.reverse();
+};
+
+/** A derivation in progress during enumeration */
+interface WalkState {
+  text: string;
+  choices: Chain<readonly [rule: string, label: string]>;
+  modifierApplications: Chain<ModifierApplication>;
+  stacks: Stacks<string[]>;
+}
+
+/** What follows a node: how many derivations each outcome leads to, and how to produce them (false: stop) */
+interface Continuation {
+  count: (stacks: Stacks<number>) => number;
+  run: (state: WalkState, skip: number) => boolean;
+}
+
+/** generateMany(unique) switches to exact sampling after this many repeated texts in a row */
+const UNIQUE_REJECTION_LIMIT = 100;
+
+/** enumerate() builds this many derivations at a time */
+const ENUMERATION_CHUNK = 256;
+
+/** generate() gives up after drawing this many derivations that guards leave with no alternative */
+const MAX_DEAD_DERIVATIONS = 1000;
+
+/** Picks the alternative of `rule` to expand; undefined leaves the expansion empty. Depth below 0 is past the limit */
+type OptionChooser = (
+  rule: string,
+  alt: AlternationNode,
+  depth: number,
+  stacks: Stacks<string[]>,
+) => AstNode | undefined;
+
+// Spans are built relative to the text of the enclosing expansion; this turns them into offsets into the
+// result. Under a tag whose modifiers rewrote its text, children keep their place when the expanded text
+// survives up to case (`.a`, `.capitalize`) and get the tag's whole span otherwise. Action expansions and
+// everything below them are silent, with empty spans.
+function placeSpans(
+  nodes: DerivationNode[],
+  base: number,
+  whole?: { start: number; end: number },
+  silent = false,
+): void {
+  for (const node of nodes) {
+    if (whole) {
+      node.start = whole.start;
+      node.end = whole.end;
+    } else {
+      node.start += base;
+      node.end += base;
+    }
+    if (silent) node.silent = true;
+    let inner = whole;
+    let offset = 0;
+    if (!inner && node.silent) inner = { start: node.start, end: node.start };
+    else if (!inner && node.expandedText !== undefined) {
+      offset = survivingOffset(node.text, node.expandedText);
+      if (offset < 0) inner = { start: node.start, end: node.end };
+    }
+    placeSpans(node.children, node.start + offset, inner, node.silent === true);
+  }
+}
+
+// Where modifiers left `expanded` in `text`, ignoring case; -1 when they rewrote it
+function survivingOffset(text: string, expanded: string): number {
+  const exact = text.indexOf(expanded);
+  if (exact >= 0) return exact;
+  const lower = text.toLowerCase();
+  const expandedLower = expanded.toLowerCase();
+  // Lowercasing a few letters (İ) changes the length, and offsets would no longer line up
+  if (lower.length !== text.length || expandedLower.length !== expanded.length) return -1;
+  return lower.indexOf(expandedLower);
+}
+
+/** Steers enumeration down one traced derivation: the labels still to choose per rule, and its position */
+interface DerivationGuide {
+  remaining: Record<string, string[]>;
+  rank: number;
+}
+
+const memoByStacks = (fn: (stacks: Stacks<number>) => number) => {
+  let memo: Map<string, number> | undefined;
+  return (stacks: Stacks<number>): number => {
+    const k = stacksKey(stacks);
+    memo ??= new Map();
+    let n = memo.get(k);
+    if (n === undefined) {
+      n = fn(stacks);
+      memo.set(k, n);
+    }
+    return n;
+  };
+};
+
+/** Constraints resolved once per engine call; constrained rules are cached per call */
+interface RuleConstraints {
+  allowed: Record<string, Set<string>>;
+  excluded: Record<string, Set<string>>;
+  /** contextualParameters: symbol → parent rule → allowed values when referenced from that parent */
+  contextual: Record<string, Record<string, Set<string>>>;
+  /** fixedWords: the rule expands to exactly this text */
+  fixed: Record<string, string>;
+  /** Values left out to count the derivations that avoid them; unlike excluded, they may leave no option */
+  dropped: Record<string, Set<string>>;
+  /** Finite depth limit (the smaller of the argument and constraints.maxDepth) */
+  depth: number;
+  /** No depth limit was given: `depth` is only a stand-in, too deep to recurse to */
+  unbounded: boolean;
+  rules: Map<string, AlternationNode>;
+}
+
+const GENERATION_CONSTRAINT_KEYS = new Set([
+  "fixedWords",
+  "requiredParameters",
+  "excludedParameters",
+  "contextualParameters",
+  "maxDepth",
+]);
+
+// Flat constraints only hold strings and string arrays, so any object or number under a known key
+// means the full structure
+function isGenerationConstraints(input: ConstraintsInput): input is GenerationConstraints {
+  return Object.entries(input).some(
+    ([key, value]) =>
+      GENERATION_CONSTRAINT_KEYS.has(key) &&
+      value !== undefined &&
+      typeof value !== "string" &&
+      !Array.isArray(value),
+  );
+}
+
+const toSet = (value: string | string[]): Set<string> =>
+  new Set(Array.isArray(value) ? value : [value]);
+
+function resolveConstraints(input: ConstraintsInput | undefined, maxDepth: number): RuleConstraints {
+  const out: RuleConstraints = {
+    allowed: {},
+    excluded: {},
+    contextual: {},
+    fixed: {},
+    dropped: {},
+    depth: maxDepth,
+    unbounded: false,
+    rules: new Map(),
+  };
+  if (input && isGenerationConstraints(input)) {
+    for (const [rule, value] of Object.entries(input.requiredParameters ?? {})) {
+      out.allowed[rule] = toSet(value);
+    }
+    for (const [rule, values] of Object.entries(input.excludedParameters ?? {})) {
+      if (values.length) out.excluded[rule] = toSet(values);
+    }
+    for (const [rule, byParent] of Object.entries(input.contextualParameters ?? {})) {
+      out.contextual[rule] = Object.fromEntries(
+        Object.entries(byParent).map(([parent, value]) => [parent, toSet(value)]),
+      );
+    }
+    Object.assign(out.fixed, input.fixedWords);
+    if (input.maxDepth !== undefined) out.depth = Math.min(out.depth, input.maxDepth);
+  } else if (input) {
+    for (const [rule, value] of Object.entries(input)) out.allowed[rule] = toSet(value);
+  }
+  if (!isFinite(out.depth)) {
+    out.depth = 1e9;
+    out.unbounded = true;
+  }
+  return out;
 }
 
 const Literal = (text: string): LiteralNode => ({ kind: "literal", text });
-const Ref = (name: string, modifiers: string[] = []): ReferenceNode => ({
+const Ref = (
+  name: string,
+  modifiers: string[] = [],
+  modifierSteps: ModifierStep[] = [],
+  preactions: ActionNode[] = [],
+  parent = "",
+): ReferenceNode => ({
   kind: "reference",
   name,
   modifiers,
+  modifierSteps,
+  preactions,
+  parent,
 });
 const Sequence = (parts: AstNode[]): AstNode =>
   parts.length === 1 ? parts[0]! : { kind: "sequence", parts };
-const Alternation = (options: AstNode[]): AlternationNode => ({
+const Alternation = (
+  options: AstNode[],
+  weights: number[] = options.map(() => 1),
+): AlternationNode => ({
   kind: "alternation",
   options,
+  weights,
 });
 
+// Calls `visit` on `node` and every node below it, including actions and preactions
+export function walkAst(node: AstNode, visit: (node: AstNode) => void): void {
+  visit(node);
+  switch (node.kind) {
+    case "reference":
+      for (const action of node.preactions) walkAst(action, visit);
+      break;
+    case "sequence":
+      for (const part of node.parts) walkAst(part, visit);
+      break;
+    case "alternation":
+      for (const option of node.options) walkAst(option, visit);
+      break;
+    case "action":
+      if (node.action === "push") for (const rule of node.rules) walkAst(rule, visit);
+      else if (node.action === "run") walkAst(node.template, visit);
+      break;
+  }
+}
+
 function ruleNameFromPattern(pat: string): string | undefined {
   try {
     const segs = splitTemplateSegments(pat);
     if (segs.length !== 1 || segs[0]!.kind !== "placeholder") return undefined;
-    return parsePlaceholderInner(decodePlaceholderInner(segs[0].innerRaw)).ruleName;
+    return parsePlaceholder(segs[0].innerRaw).ruleName;
   } catch {
     return undefined;
   }
@@ -64,40 +490,159 @@ function ruleNameFromPattern(pat: string): string | undefined {
 
 export class GrammarEngine {
   private readonly ruleAst: Record<string, AlternationNode>;
+  /** Symbols some action pushes to: they have alternatives at runtime even without a rule */
+  private readonly pushTargets = new Set<string>();
+  private readonly labels = new WeakMap<AstNode, string>();
+  private readonly nodeIds = new WeakMap<AstNode, number>();
+  private nextNodeId = 0;
+  private nextArgStack = 0;
+  /** Guarded alternatives (`[?language=Welsh] …`) and their guards */
+  private readonly guards = new Map<AstNode, ResolvedGuard[]>();
+  /** Options of the rules guards test: choosing one records its index on the rule's choice stack */
+  private readonly choiceOf = new WeakMap<AstNode, { stack: string; index: number }>();
+  /** Registry for #rule.mod# pipelines (see modifierPacks and grammarModifiers) */
+  private readonly modifiers: Record<string, ModifierFn>;
 
-  constructor(rules: Grammar) {
+  constructor(rules: Grammar, modifiers: Record<string, ModifierFn> = DEFAULT_ENGLISH_MODIFIERS) {
+    this.modifiers = modifiers;
+    const guarded = new Map<AstNode, AlternativeGuard[]>();
     this.ruleAst = Object.fromEntries(
-      Object.entries(rules).map(([name, templates]) => [
-        name,
-        Alternation(templates.map(this.parseTemplate)),
-      ]),
+      Object.entries(rules).map(([name, alternatives]) => {
+        const split = alternatives.map(splitAlternativeWeight);
+        const options = split.map((a) => {
+          const { template, guards } = splitAlternativeGuards(a.template);
+          const option = this.parseTemplate(template, name);
+          if (guards.length) guarded.set(option, guards);
+          return option;
+        });
+        return [name, Alternation(options, split.map((a) => a.weight))];
+      }),
     );
+    for (const alt of Object.values(this.ruleAst)) {
+      walkAst(alt, (node) => {
+        if (node.kind === "action" && node.action === "push") this.pushTargets.add(node.target);
+      });
+    }
+    for (const [option, guards] of guarded) this.guards.set(option, guards.map(this.resolveGuard));
   }
 
-  // Parse a template like "#NP# eats #OP#" or "#noun.a#"; `\#` / `\\` for literal # and \
-  private parseTemplate = (template: string): AstNode => {
+  // Values match options like constraint values do; a guard on a missing rule never sees a choice
+  private resolveGuard = ({ rule, values, negate }: AlternativeGuard): ResolvedGuard => {
+    const stack = `${CHOICE_STACK}${rule}`;
+    const options = this.ruleAst[rule]?.options ?? [];
+    const allowed = new Set<number>();
+    const wanted = new Set(values);
+    options.forEach((option, index) => {
+      this.choiceOf.set(option, { stack, index });
+      if (this.optionMatches(option, wanted)) allowed.add(index);
+    });
+    return { stack, allowed, negate };
+  };
+
+  // Whether the guards of `option` hold for the choices recorded on `stacks`
+  private eligible = (option: AstNode, stacks: Stacks<number> | Stacks<string[]>): boolean => {
+    const guards = this.guards.get(option);
+    if (!guards) return true;
+    return guards.every(({ stack, allowed, negate }) => {
+      const top = topOfStack<number | string[]>(stacks, stack);
+      const index = top === undefined ? undefined : typeof top === "number" ? top : Number(top[0]);
+      return (index !== undefined && allowed.has(index)) !== negate;
+    });
+  };
+
+  // Stacks after choosing `option`: a rule that guards test remembers which option it took
+  private recordChoice<T>(option: AstNode, stacks: Stacks<T>, value: (index: number) => T): Stacks<T> {
+    const choice = this.choiceOf.get(option);
+    return choice ? { ...stacks, [choice.stack]: [value(choice.index)] } : stacks;
+  }
+
+  // Parse a template of rule `parent` like "#NP# eats #OP#", "#noun.a#" or "[hero:#name#]#story#";
+  // `\#` / `\\` for literal # and \
+  private parseTemplate = (template: string, parent: string): AstNode => {
     const parts: AstNode[] = [];
     for (const seg of splitTemplateSegments(template)) {
       if (seg.kind === "literal") {
         if (seg.text) parts.push(Literal(seg.text));
         continue;
       }
-      const decoded = decodePlaceholderInner(seg.innerRaw);
-      const { ruleName, modifierSegments } = parsePlaceholderInner(decoded);
-      parts.push(Ref(ruleName, modifierSegments));
+      if (seg.kind === "action") {
+        parts.push(this.parseAction(seg.innerRaw, parent));
+        continue;
+      }
+      const { ruleName, modifierSegments, actions, binding } = parsePlaceholder(seg.innerRaw);
+      const preactions = actions.map((a) => this.parseAction(a, parent));
+      const argPushes: ActionNode[] = [];
+      const steps = modifierSegments.map((segment): ModifierStep => {
+        const { name, args } = parseModifierCall(segment);
+        return {
+          name,
+          args: args.map((arg) => {
+            if (arg.kind === "text") return arg.text;
+            const stack = `${ARG_STACK}${this.nextArgStack++}`;
+            argPushes.push({
+              kind: "action",
+              action: "push",
+              target: stack,
+              rules: [this.parseTemplate(arg.template, parent)],
+            });
+            return { stack };
+          }),
+        };
+      });
+      if (!binding) {
+        parts.push(Ref(ruleName, modifierSegments, steps, [...preactions, ...argPushes], parent));
+        continue;
+      }
+      // `#hero=name#` is `[$hero:#name#]#$hero#`: the push is not undone, so later `#$hero#` tags see it
+      const bound = Ref(ruleName, [], [], preactions, parent);
+      parts.push(
+        { kind: "action", action: "push", target: binding, rules: [bound] },
+        { ...Ref(binding, modifierSegments, steps, argPushes, parent), bound },
+      );
     }
     return Sequence(parts);
   };
 
+  private parseAction = (inner: string, parent: string): ActionNode => {
+    const parsed = parseActionInner(inner);
+    switch (parsed.kind) {
+      case "push":
+        return {
+          kind: "action",
+          action: "push",
+          target: parsed.target,
+          rules: parsed.rules.map((rule) => this.parseTemplate(rule, parent)),
+        };
+      case "pop":
+        return { kind: "action", action: "pop", target: parsed.target };
+      case "run":
+        return {
+          kind: "action",
+          action: "run",
+          template: this.parseTemplate(parsed.template, parent),
+        };
+    }
+  };
+
   // Render a node back to a pattern string with #Nonterm# placeholders
   private renderPattern = (node: AstNode): string => {
     switch (node.kind) {
       case "literal":
         return node.text;
-      case "reference":
+      case "reference": {
+        const source = node.bound ?? node;
+        const pre = source.preactions
+          .filter((action) => !isArgPush(action))
+          .map(this.renderPattern)
+          .join("");
+        const name = node.bound ? `${node.name.slice(1)}=${node.bound.name}` : node.name;
         return node.modifiers.length
-          ? `#${node.name}.${node.modifiers.join(".")}#`
-          : `#${node.name}#`;
+          ? `#${pre}${name}.${node.modifiers.join(".")}#`
+          : `#${pre}${name}#`;
+      }
+      case "action":
+        // A binding's push is rendered by the reference after it
+        return isBindingPush(node) ? "" : this.renderAction(node);
       case "sequence":
         return node.parts.map(this.renderPattern).join("");
       case "alternation":
@@ -105,331 +650,1288 @@ export class GrammarEngine {
     }
   };
 
-  // Human friendly label for a chosen alternative
+  // Memo key for counting. Nodes are keyed by identity: the same text under different rules may count
+  // differently (contextual constraints), and constrained rules are cached per call.
+  private nodeId = (node: AstNode): number => {
+    let id = this.nodeIds.get(node);
+    if (id === undefined) {
+      id = this.nextNodeId++;
+      this.nodeIds.set(node, id);
+    }
+    return id;
+  };
+
+  private renderAction = (node: ActionNode): string => {
+    switch (node.action) {
+      case "push":
+        return `[${node.target}:${node.rules.map(this.renderPattern).join(",")}]`;
+      case "pop":
+        return `[${node.target}:POP]`;
+      case "run":
+        return `[${this.renderPattern(node.template)}]`;
+    }
+  };
+
+  // Human friendly label for a chosen alternative (cached: generation labels every choice)
   private choiceLabel = (node: AstNode): string => {
+    const cached = this.labels.get(node);
+    if (cached !== undefined) return cached;
+    let label: string;
     if (node.kind === "reference") {
-      return node.modifiers.length ? this.renderPattern(node) : node.name;
+      label =
+        node.modifiers.length || node.preactions.length ? this.renderPattern(node) : node.name;
+    } else {
+      const pattern = this.renderPattern(node);
+      label = /^#([A-Za-z_][A-Za-z0-9_]*(?:::[A-Za-z_][A-Za-z0-9_]*)*)#$/.exec(pattern)?.[1] ?? pattern;
+    }
+    this.labels.set(node, label);
+    return label;
+  };
+
+  // Whether an option matches one of the given values (pattern, rule name or #rule#)
+  private optionMatches = (option: AstNode, values: Set<string>): boolean => {
+    const pat = this.renderPattern(option);
+    if (values.has(pat)) return true;
+    if (option.kind === "reference") {
+      if (values.has(option.name)) return true;
+      if (values.has(`#${option.name}#`)) return true;
     }
-    const pattern = this.renderPattern(node);
-    const onlyRef = /^#([A-Za-z_][A-Za-z0-9_]*)#$/.exec(pattern)?.[1];
-    return onlyRef ?? pattern;
+    const rn = ruleNameFromPattern(pat);
+    return rn ? values.has(rn) : false;
   };
 
-  // Apply constraints to an alternation under a rule name
-  private applyConstraints = (
+  // A grammar rule after constraints: fixed words replace it, required values filter it, excluded values drop
+  // options, and contextual values filter it when referenced from `parent`. Missing rules have no options.
+  // Contextual options are a subset of the plain constrained rule's options (same nodes).
+  private constrainedRule = (
     ruleName: string,
-    alt: AlternationNode | undefined,
-    constraints?: Constraints,
+    c: RuleConstraints,
+    parent?: string,
   ): AlternationNode => {
+    const context =
+      parent === undefined || ruleName in c.fixed ? undefined : c.contextual[ruleName]?.[parent];
+    const key = context ? `${parent}>${ruleName}` : ruleName;
+    const cached = c.rules.get(key);
+    if (cached) return cached;
+    const alt = this.applyConstraints(ruleName, c, context);
+    c.rules.set(key, alt);
+    return alt;
+  };
+
+  private applyConstraints(
+    ruleName: string,
+    c: RuleConstraints,
+    context?: Set<string>,
+  ): AlternationNode {
+    if (ruleName in c.fixed) return Alternation([Literal(c.fixed[ruleName]!)]);
+    const alt = this.ruleAst[ruleName];
     if (!alt) return Alternation([]);
-    if (!constraints || !(ruleName in constraints)) return alt;
-    const required = constraints[ruleName];
-    const allowed = new Set(Array.isArray(required) ? required : [required]);
-
-    const filtered = alt.options.filter((option) => {
-      const pat = this.renderPattern(option);
-      if (allowed.has(pat)) return true;
-      if (option.kind === "reference") {
-        if (allowed.has(option.name)) return true;
-        if (allowed.has(`#${option.name}#`)) return true;
-      }
-      const rn = ruleNameFromPattern(pat);
-      return rn ? allowed.has(rn) : false;
-    });
-    if (!filtered.length)
+    const allowed = c.allowed[ruleName];
+    const excluded = c.excluded[ruleName];
+    const dropped = c.dropped[ruleName];
+    if (!allowed && !excluded && !context && !dropped) return alt;
+
+    const keep = alt.options.map(
+      (option) =>
+        (!allowed || this.optionMatches(option, allowed)) &&
+        (!context || this.optionMatches(option, context)) &&
+        !(excluded && this.optionMatches(option, excluded)),
+    );
+    if (!keep.some(Boolean))
       throw new Error(`Constraint eliminates all options of rule "${ruleName}"`);
-    return Alternation(filtered);
+    const kept = keep.map((k, i) => k && !(dropped && this.optionMatches(alt.options[i]!, dropped)));
+    return Alternation(
+      alt.options.filter((_, i) => kept[i]),
+      alt.weights.filter((_, i) => kept[i]),
+    );
+  }
+
+  // Alternatives a reference expands to: the top of a pushed stack, else the (constrained) grammar rule
+  private resolveRule = (
+    ruleName: string,
+    stacks: Stacks<string[]>,
+    c: RuleConstraints,
+    parent: string,
+  ): AlternationNode => {
+    const pushed = stacks === NO_STACKS ? undefined : topOfStack(stacks, ruleName);
+    if (pushed) return Alternation(pushed.map(Literal));
+    return this.constrainedRule(ruleName, c, parent);
   };
 
-  // -------- Exact counting --------
-  countStrings(start = "origin", constraints?: Constraints, maxDepth = Infinity): number {
-    const memo = new Map<string, number>();
-    const key = (node: AstNode, depth: number) =>
-      `${depth}|${this.renderPattern(node)}`;
+  // Memoised derivation counter shared by countStrings and weighted generation.
+  private createCounter(c: RuleConstraints) {
+    const count = this.createOutcomeCounter(c);
+    return (node: AstNode, depth: number, stacks: Stacks<number> = NO_STACKS): number =>
+      totalCount(count(node, depth, stacks));
+  }
 
-    const count = (node: AstNode, depth: number): number => {
-      if (depth < 0) return 0;
-      const k = key(node, depth);
-      if (memo.has(k)) return memo.get(k)!;
+  // Actions make counts depend on the rule stacks, so results are split by the stacks left behind.
+  private createOutcomeCounter(c: RuleConstraints): OutcomeCounter {
+    const memo = new Map<string, CountOutcomes>();
+
+    const add = (out: CountOutcomes, stacks: Stacks<number>, n: number) => {
+      if (!n) return;
+      const k = stacksKey(stacks);
+      const prev = out.get(k);
+      if (prev) prev.count += n;
+      else out.set(k, { stacks, count: n });
+    };
+
+    // Run `node` after every outcome so far, multiplying counts
+    const thread = (outcomes: CountOutcomes, node: AstNode, depth: number): CountOutcomes => {
+      const next: CountOutcomes = new Map();
+      for (const o of outcomes.values()) {
+        for (const r of count(node, depth, o.stacks).values()) {
+          add(next, r.stacks, o.count * r.count);
+        }
+      }
+      return next;
+    };
+
+    const count = (node: AstNode, depth: number, stacks: Stacks<number>): CountOutcomes => {
+      if (depth < 0) return new Map();
+      const k = `${depth}|${stacksKey(stacks)}|${this.nodeId(node)}`;
+      const cached = memo.get(k);
+      if (cached) return cached;
+      const out: CountOutcomes = new Map();
 
-      let total: number;
       switch (node.kind) {
         case "literal":
-          total = 1;
+          add(out, stacks, 1);
+          break;
+        case "action":
+          if (node.action === "pop") {
+            add(out, popStack(stacks, node.target), 1);
+          } else if (node.action === "push") {
+            // Each pushed rule is expanded on its own; only the number of pushed alternatives matters later
+            const n = node.rules.reduce(
+              (prod, rule) => prod * totalCount(count(rule, depth, stacks)),
+              1,
+            );
+            add(out, pushStack(stacks, node.target, node.rules.length), n);
+          } else {
+            for (const r of count(node.template, depth, stacks).values()) {
+              add(out, r.stacks, r.count);
+            }
+          }
           break;
         case "reference": {
-          const root = this.ruleAst[node.name];
-          if (!root) {
-            total = 0;
-            break;
+          let outcomes: CountOutcomes = new Map();
+          add(outcomes, stacks, 1);
+          for (const action of node.preactions) outcomes = thread(outcomes, action, depth);
+          for (const o of outcomes.values()) {
+            const pushed = topOfStack(o.stacks, node.name);
+            const expanded: CountOutcomes = new Map();
+            if (pushed !== undefined) {
+              if (depth - 1 >= 0) add(expanded, o.stacks, pushed);
+            } else {
+              const alt = this.constrainedRule(node.name, c, node.parent);
+              for (const r of count(alt, depth - 1, o.stacks).values()) {
+                add(expanded, r.stacks, r.count);
+              }
+            }
+            for (const r of expanded.values()) {
+              add(out, this.undoPreactions(node, r.stacks), o.count * r.count);
+            }
           }
-          total = count(
-            this.applyConstraints(node.name, root, constraints),
-            depth - 1,
-          );
           break;
         }
-        case "sequence":
-          total = node.parts.reduce((prod, part) => prod * count(part, depth), 1);
+        case "sequence": {
+          let outcomes: CountOutcomes = new Map();
+          add(outcomes, stacks, 1);
+          for (const part of node.parts) outcomes = thread(outcomes, part, depth);
+          for (const o of outcomes.values()) add(out, o.stacks, o.count);
           break;
+        }
         case "alternation":
-          total = node.options.reduce((sum, opt) => sum + count(opt, depth), 0);
+          for (const option of node.options) {
+            if (!this.eligible(option, stacks)) continue;
+            const chosen = this.recordChoice(option, stacks, choiceShape);
+            for (const r of count(option, depth, chosen).values()) add(out, r.stacks, r.count);
+          }
           break;
       }
-      memo.set(k, total);
-      return total;
+      memo.set(k, out);
+      return out;
     };
 
-    const depth = isFinite(maxDepth) ? maxDepth : 1e9;
-    return count(Ref(start), depth);
+    return count;
+  }
+
+  // Run a reference's modifiers; argument stacks still hold the texts its preactions pushed
+  private applyModifiers(node: ReferenceNode, text: string, stacks: Stacks<string[]>): string {
+    const calls = node.modifierSteps.map(({ name, args }) => ({
+      name,
+      params: args.map((arg) => (typeof arg === "string" ? arg : topOfStack(stacks, arg.stack)?.[0] ?? "")),
+    }));
+    return applyModifierCalls(text, calls, this.modifiers);
+  }
+
+  // Pop what a reference's preactions pushed (Tracery undoes tag preactions after the tag)
+  private undoPreactions<T>(node: ReferenceNode, stacks: Stacks<T>): Stacks<T> {
+    let out = stacks;
+    for (const action of node.preactions) {
+      if (action.action === "push") out = popStack(out, action.target);
+    }
+    return out;
+  }
+
+  // Relative chance of each alternative: author weight, times its string count for "weighted".
+  // With `stacks`, alternatives whose guards fail get 0; without, guards are not checked.
+  private choiceWeights(
+    alt: AlternationNode,
+    strategy: GenerationStrategy,
+    countOption: (option: AstNode, index: number) => number,
+    stacks?: Stacks<number> | Stacks<string[]>,
+  ): readonly number[] {
+    if (strategy === "uniform" && !stacks) return alt.weights;
+    return alt.options.map((option, i) => {
+      if (stacks && !this.eligible(option, stacks)) return 0;
+      return strategy === "uniform" ? alt.weights[i]! : alt.weights[i]! * countOption(option, i);
+    });
+  }
+
+  // -------- Parsed rules --------
+  // The rules as the engine parsed them, for tools that translate the grammar (see grammarExport); read only
+  parsedRules(): Readonly<Record<string, AlternationNode>> {
+    return this.ruleAst;
+  }
+
+  // -------- Recursion --------
+  // Rules on a cycle that derivations of `start` can go round: reachable, and able to finish under the
+  // constraints. Any such cycle gives `start` infinitely many derivations unless maxDepth cuts it off.
+  recursiveRules(start = "origin", constraints?: ConstraintsInput): string[] {
+    return this.analyzeRecursion(start, resolveConstraints(constraints, Infinity)).recursiveRules;
+  }
+
+  // Walks the rule expansions reachable from `start` (constrained rules, so contextual variants are separate)
+  private analyzeRecursion(
+    start: string,
+    c: RuleConstraints,
+  ): { recursiveRules: string[]; expansions: number } {
+    const names = new Map<AlternationNode, string>();
+    const refs = new Map<AstNode, ReferenceNode[]>();
+    const expand = (ref: ReferenceNode) => this.constrainedRule(ref.name, c, ref.parent);
+
+    const root = this.constrainedRule(start, c, "");
+    names.set(root, start);
+    for (const queue = [root]; queue.length; ) {
+      for (const option of queue.pop()!.options) {
+        const found: ReferenceNode[] = [];
+        walkAst(option, (node) => {
+          if (node.kind === "reference") found.push(node);
+        });
+        refs.set(option, found);
+        for (const ref of found) {
+          const next = expand(ref);
+          if (names.has(next)) continue;
+          names.set(next, ref.name);
+          queue.push(next);
+        }
+      }
+    }
+
+    // An option finishes when each reference does; pushed symbols always have text to expand to
+    const productive = new Set<AlternationNode>();
+    const finishes = (option: AstNode) =>
+      refs.get(option)!.every((ref) => this.pushTargets.has(ref.name) || productive.has(expand(ref)));
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const alt of names.keys()) {
+        if (productive.has(alt) || !alt.options.some(finishes)) continue;
+        productive.add(alt);
+        changed = true;
+      }
+    }
+
+    const successors = (alt: AlternationNode) =>
+      alt.options
+        .filter(finishes)
+        .flatMap((option) => refs.get(option)!.map(expand))
+        .filter((next) => productive.has(next));
+    const roots = productive.has(root) ? [root] : [];
+    const recursive = recursiveComponents(roots, successors).flat().map((alt) => names.get(alt)!);
+    return { recursiveRules: [...new Set(recursive)], expansions: names.size };
+  }
+
+  // Counting and enumeration recurse as deep as the depth limit, so its stand-in would overflow the stack.
+  // Without recursion no derivation is deeper than the number of rule expansions, which becomes the limit;
+  // with it there is none to find, and `c` stays unbounded. Returns the recursive rules.
+  private boundDepth(start: string, c: RuleConstraints): string[] {
+    const { recursiveRules, expansions } = this.analyzeRecursion(start, c);
+    if (c.unbounded && !recursiveRules.length) {
+      c.depth = expansions;
+      c.unbounded = false;
+    }
+    return recursiveRules;
+  }
+
+  private requireBoundedDepth(start: string, c: RuleConstraints): void {
+    if (!c.unbounded) return;
+    const recursiveRules = this.boundDepth(start, c);
+    if (c.unbounded) {
+      throw new Error(
+        `"${start}" has infinitely many derivations through recursive rules (${recursiveRules.join(", ")}); pass a finite maxDepth`,
+      );
+    }
+  }
+
+  // Derivations of `start` by depth; without a depth limit, a recursive rule has infinitely many
+  languageSize(start = "origin", constraints?: ConstraintsInput, maxDepth = Infinity): LanguageSize {
+    const c = resolveConstraints(constraints, maxDepth);
+    const recursiveRules = this.boundDepth(start, c);
+    const infinite = recursiveRules.length > 0;
+    if (c.unbounded) return { count: Infinity, infinite, recursiveRules, depthCounts: [] };
+
+    const count = this.createCounter(c);
+    const root = this.constrainedRule(start, c, "");
+    const depthCounts: number[] = [];
+    let total = 0;
+    for (let depth = 0; depth <= c.depth; depth++) {
+      const n = count(root, depth);
+      depthCounts.push(n - total);
+      total = n;
+    }
+    while (depthCounts.length && depthCounts[depthCounts.length - 1] === 0) depthCounts.pop();
+    return { count: total, infinite, recursiveRules, depthCounts };
+  }
+
+  // -------- Exact counting --------
+  // Counts derivations; with `{ distinct: true }` counts distinct texts instead (see countDistinctStrings).
+  // A recursive rule without a depth limit has Infinity.
+  countStrings(
+    start = "origin",
+    constraints?: ConstraintsInput,
+    maxDepth = Infinity,
+    options?: DistinctCountOptions & { distinct?: boolean },
+  ): number {
+    if (options?.distinct) return this.countDistinctStrings(start, constraints, maxDepth, options).count;
+    const c = resolveConstraints(constraints, maxDepth);
+    if (c.unbounded && this.boundDepth(start, c).length) return Infinity;
+    // The start rule is expanded at the full depth, as generate and enumerate do
+    return this.createCounter(c)(this.constrainedRule(start, c, ""), c.depth);
+  }
+
+  // Derivations of `start` that choose `value` for `rule` at least once: all of them less those that never
+  // do. A rule with no other alternative has no derivations that avoid it, rather than being an error.
+  countChoosing(
+    rule: string,
+    value: string,
+    start = "origin",
+    constraints?: ConstraintsInput,
+    maxDepth = Infinity,
+  ): number {
+    const all = this.countStrings(start, constraints, maxDepth);
+    if (all === Infinity) return Infinity;
+    const c = resolveConstraints(constraints, maxDepth);
+    c.dropped[rule] = new Set([value]);
+    return all - this.createCounter(c)(this.constrainedRule(start, c, ""), c.depth);
+  }
+
+  // -------- Distinct strings --------
+  // Ambiguous grammars derive some texts more than once. Up to `exactLimit` derivations are enumerated;
+  // beyond that the count is estimated from uniformly sampled derivations, each weighted by one over
+  // the number of derivations of its text. Texts are compared before modifiers.
+  countDistinctStrings(
+    start = "origin",
+    constraints?: ConstraintsInput,
+    maxDepth = Infinity,
+    options: DistinctCountOptions = {},
+  ): DistinctStringCount {
+    const { exactLimit = 100_000, sampleSize = 1000, seed } = options;
+    const c = resolveConstraints(constraints, maxDepth);
+    this.requireBoundedDepth(start, c);
+    const count = this.createOutcomeCounter(c);
+    const root = this.constrainedRule(start, c, "");
+    const derivations = totalCount(count(root, c.depth, NO_STACKS));
+
+    if (derivations <= exactLimit) {
+      const texts = new Set<string>();
+      for (const g of this.enumerate(start, constraints, maxDepth)) texts.add(g.text);
+      return { count: texts.size, derivations, exact: true };
+    }
+
+    const rng = seed !== undefined ? createSeededRng(seed) : Math.random;
+    let weight = 0;
+    for (let i = 0; i < sampleSize; i++) {
+      const index = randomIndex(rng, derivations);
+      const { text } = this.derivationAt(start, c, count, index, false)!;
+      weight += 1 / this.countParses(root, text, c);
+    }
+    return { count: Math.round((derivations * weight) / sampleSize), derivations, exact: false };
+  }
+
+  // Derivations of `text` from `root` (at least 1 for a generated text). Texts pushed by actions
+  // are not grammar structure, so grammars with actions are rejected. Modifier arguments do not show in
+  // unmodified text: each of their derivations is another parse. Guards depend on choices made elsewhere
+  // in the derivation, so grammars with guards are rejected too.
+  private countParses(root: AlternationNode, text: string, c: RuleConstraints): number {
+    if (this.guards.size) {
+      throw new Error("Distinct strings can only be estimated for grammars without guards");
+    }
+    const memo = new Map<string, number>();
+    const count = this.createCounter(c);
+
+    const parses = (node: AstNode, depth: number, from: number, to: number): number => {
+      if (depth < 0) return 0;
+      switch (node.kind) {
+        case "literal":
+          return to - from === node.text.length && text.startsWith(node.text, from) ? 1 : 0;
+        case "action":
+          throw new Error("Distinct strings can only be estimated for grammars without actions");
+        case "reference": {
+          let argParses = 1;
+          for (const action of node.preactions) {
+            if (!isArgPush(action)) {
+              throw new Error("Distinct strings can only be estimated for grammars without actions");
+            }
+            argParses *= count(action.rules[0]!, depth);
+          }
+          if (!argParses) return 0;
+          return argParses * parses(this.constrainedRule(node.name, c, node.parent), depth - 1, from, to);
+        }
+        case "alternation":
+        case "sequence": {
+          const k = `${this.nodeId(node)}|${depth}|${from}|${to}`;
+          let n = memo.get(k);
+          if (n === undefined) {
+            n =
+              node.kind === "alternation"
+                ? sum(node.options.map((option) => parses(option, depth, from, to)))
+                : split(node, 0, depth, from, to);
+            memo.set(k, n);
+          }
+          return n;
+        }
+      }
+    };
+
+    // Ways parts[i..] of a sequence cover text[from, to)
+    const split = (node: SequenceNode, i: number, depth: number, from: number, to: number): number => {
+      if (i === node.parts.length) return from === to ? 1 : 0;
+      const part = node.parts[i]!;
+      if (i === node.parts.length - 1) return parses(part, depth, from, to);
+      const k = `${this.nodeId(node)}:${i}|${depth}|${from}|${to}`;
+      const cached = memo.get(k);
+      if (cached !== undefined) return cached;
+      let n = 0;
+      if (part.kind === "literal") {
+        const end = from + part.text.length;
+        if (end <= to && text.startsWith(part.text, from)) n = split(node, i + 1, depth, end, to);
+      } else {
+        for (let end = from; end <= to; end++) {
+          const head = parses(part, depth, from, end);
+          if (head) n += head * split(node, i + 1, depth, end, to);
+        }
+      }
+      memo.set(k, n);
+      return n;
+    };
+
+    return parses(root, c.depth, 0, text.length);
+  }
+
+  // Per-alternative counts of one rule with author weights and pick probabilities
+  countAlternatives(
+    ruleName: string,
+    constraints?: ConstraintsInput,
+    maxDepth = Infinity,
+    strategy: GenerationStrategy = "uniform",
+  ): AlternativeStats[] {
+    const c = resolveConstraints(constraints, maxDepth);
+    this.requireBoundedDepth(ruleName, c);
+    const alt = this.constrainedRule(ruleName, c);
+    const count = this.createCounter(c);
+    const counts = alt.options.map((o) => count(o, c.depth));
+    const weights = this.choiceWeights(alt, strategy, (_, i) => counts[i]!);
+    const total = sum(weights);
+    return alt.options.map((option, i) => ({
+      alternative: this.choiceLabel(option),
+      weight: alt.weights[i]!,
+      count: counts[i]!,
+      probability: total ? weights[i]! / total : 0,
+    }));
+  }
+
+  // -------- Exact output distribution --------
+  // Mirrors generate(): for every rule reached from `start`, the expected number of times each
+  // alternative is chosen. Choices among texts pushed by actions are not grammar alternatives and are left out.
+  probabilityDistribution(
+    start = "origin",
+    constraints?: ConstraintsInput,
+    maxDepth = Infinity,
+    strategy: GenerationStrategy = "uniform",
+  ): Record<string, RuleDistribution> {
+    const c = resolveConstraints(constraints, maxDepth);
+    this.requireBoundedDepth(start, c);
+    const count = this.createCounter(c);
+    const memo = new Map<string, ChoiceFlow>();
+
+    const single = (stacks: Stacks<number>): ChoiceFlow => ({
+      outcomes: new Map([[stacksKey(stacks), { stacks, p: 1 }]]),
+      choices: new Map(),
+    });
+
+    const addOutcome = (flow: ChoiceFlow, stacks: Stacks<number>, p: number) => {
+      if (!p) return;
+      const k = stacksKey(stacks);
+      const prev = flow.outcomes.get(k);
+      if (prev) prev.p += p;
+      else flow.outcomes.set(k, { stacks, p });
+    };
+
+    const addChoices = (flow: ChoiceFlow, choices: Map<string, number[]>, p: number) => {
+      for (const [rule, expected] of choices) {
+        const into = flow.choices.get(rule) ?? expected.map(() => 0);
+        expected.forEach((e, i) => (into[i]! += e * p));
+        flow.choices.set(rule, into);
+      }
+    };
+
+    // Run `node` after every outcome of `flow`
+    const thread = (flow: ChoiceFlow, node: AstNode, depth: number): ChoiceFlow => {
+      const next: ChoiceFlow = { outcomes: new Map(), choices: new Map() };
+      addChoices(next, flow.choices, 1);
+      for (const o of flow.outcomes.values()) {
+        const r = visit(node, depth, o.stacks);
+        addChoices(next, r.choices, o.p);
+        for (const ro of r.outcomes.values()) addOutcome(next, ro.stacks, o.p * ro.p);
+      }
+      return next;
+    };
+
+    const chooseFromRule = (
+      ruleName: string,
+      depth: number,
+      stacks: Stacks<number>,
+      parent: string,
+    ): ChoiceFlow => {
+      // Pushed texts pick no grammar alternative and leave the stacks as they are
+      if (topOfStack(stacks, ruleName) !== undefined) return single(stacks);
+      const k = `${depth}|${stacksKey(stacks)}|${parent}>${ruleName}`;
+      const cached = memo.get(k);
+      if (cached) return cached;
+
+      const alt = this.constrainedRule(ruleName, c, parent);
+      const weights = this.choiceWeights(
+        alt,
+        strategy,
+        (o) => count(o, depth, this.recordChoice(o, stacks, choiceShape)),
+        stacks,
+      );
+      const total = sum(weights);
+      if (!total) return single(stacks);
+
+      // Choices are recorded against the rule's options without contextual constraints
+      const base = this.constrainedRule(ruleName, c);
+      const flow: ChoiceFlow = {
+        outcomes: new Map(),
+        choices: new Map([
+          [
+            ruleName,
+            base.options.map((o) => {
+              const i = alt.options.indexOf(o);
+              return i < 0 ? 0 : weights[i]! / total;
+            }),
+          ],
+        ]),
+      };
+      alt.options.forEach((option, i) => {
+        const p = weights[i]! / total;
+        if (!p) return;
+        const r = visit(option, depth, this.recordChoice(option, stacks, choiceShape));
+        addChoices(flow, r.choices, p);
+        for (const o of r.outcomes.values()) addOutcome(flow, o.stacks, p * o.p);
+      });
+      memo.set(k, flow);
+      return flow;
+    };
+
+    const visit = (node: AstNode, depth: number, stacks: Stacks<number>): ChoiceFlow => {
+      if (depth < 0) return single(stacks);
+      switch (node.kind) {
+        case "literal":
+          return single(stacks);
+        case "action":
+          if (node.action === "pop") return single(popStack(stacks, node.target));
+          if (node.action === "push") {
+            const flow = single(pushStack(stacks, node.target, node.rules.length));
+            for (const rule of node.rules) addChoices(flow, visit(rule, depth, stacks).choices, 1);
+            return flow;
+          }
+          return visit(node.template, depth, stacks);
+        case "reference": {
+          let flow = single(stacks);
+          for (const action of node.preactions) flow = thread(flow, action, depth);
+          const out: ChoiceFlow = { outcomes: new Map(), choices: new Map() };
+          addChoices(out, flow.choices, 1);
+          for (const o of flow.outcomes.values()) {
+            const r = chooseFromRule(node.name, depth - 1, o.stacks, node.parent);
+            addChoices(out, r.choices, o.p);
+            for (const ro of r.outcomes.values()) {
+              addOutcome(out, this.undoPreactions(node, ro.stacks), o.p * ro.p);
+            }
+          }
+          return out;
+        }
+        case "sequence":
+          return node.parts.reduce((flow, part) => thread(flow, part, depth), single(stacks));
+        case "alternation":
+          throw new Error("Alternation nodes occur only at rule roots");
+      }
+    };
+
+    const { choices } = chooseFromRule(start, c.depth, NO_STACKS, "");
+    const out: Record<string, RuleDistribution> = {};
+    for (const [rule, expected] of choices) {
+      const alt = this.constrainedRule(rule, c);
+      const expectedVisits = sum(expected);
+      out[rule] = {
+        expectedVisits,
+        alternatives: alt.options.map((option, i) => ({
+          alternative: this.choiceLabel(option),
+          weight: alt.weights[i]!,
+          expected: expected[i]!,
+          probability: expectedVisits ? expected[i]! / expectedVisits : 0,
+        })),
+      };
+    }
+    return out;
   }
 
   // -------- Random generation with metadata --------
+  // `rngOrSeed` may be a number: it is used as a seed and recorded on the result.
   generate(
     start = "origin",
-    constraints?: Constraints,
+    constraints?: ConstraintsInput,
     maxDepth = Infinity,
-    rng: () => number = Math.random,
+    rngOrSeed: RandomSource | number = Math.random,
     strategy: GenerationStrategy = "uniform",
     processModifiers = false,
   ): Generated {
-    const memo = new Map<string, number>();
-    const key = (node: AstNode, depth: number) =>
-      `${depth}|${this.renderPattern(node)}`;
+    const seed = typeof rngOrSeed === "number" ? normalizeSeed(rngOrSeed) : undefined;
+    const rng = seed !== undefined ? createSeededRng(seed) : (rngOrSeed as RandomSource);
+    const c = resolveConstraints(constraints, maxDepth);
+    // Only the weighted strategy counts up front; uniform expansion of recursive rules ends by chance, and
+    // draws the depth limit cuts off are drawn again
+    if (strategy === "weighted") this.requireBoundedDepth(start, c);
+    const count = this.createCounter(c);
+    // Set when guards rule out every alternative of a rule, or the depth limit cuts a rule off: the
+    // derivation is dead and is drawn again
+    let dead = false;
 
-    const count = (node: AstNode, depth: number): number => {
-      if (depth < 0) return 0;
-      const k = key(node, depth);
-      if (memo.has(k)) return memo.get(k)!;
-      let v = 0;
-      if (node.kind === "literal") v = 1;
-      else if (node.kind === "reference") {
-        const root = this.ruleAst[node.name];
-        v = root
-          ? count(this.applyConstraints(node.name, root, constraints), depth - 1)
-          : 0;
-      } else if (node.kind === "sequence")
-        v = node.parts.reduce((p, c) => p * count(c, depth), 1);
-      else v = node.options.reduce((s, c) => s + count(c, depth), 0);
-      memo.set(k, v);
-      return v;
+    const choose: OptionChooser = (_rule, alt, depth, stacks) => {
+      if (depth < 0) {
+        dead = true;
+        return undefined;
+      }
+      const shapes = strategy === "weighted" ? stackShapes(stacks) : NO_STACKS;
+      const weights = this.choiceWeights(
+        alt,
+        strategy,
+        (o) => count(o, depth, this.recordChoice(o, shapes, choiceShape)),
+        stacks,
+      );
+      const total = sum(weights);
+      if (!total) {
+        dead = true;
+        return undefined;
+      }
+      let pick = rng() * total;
+      let chosen = alt.options[0]!;
+      for (let i = 0; i < alt.options.length; i++) {
+        if (!weights[i]) continue;
+        chosen = alt.options[i]!;
+        if (pick < weights[i]!) break;
+        pick -= weights[i]!;
+      }
+      return chosen;
     };
 
+    // Rejecting dead derivations keeps sampling to what counting and enumeration find
+    for (let attempt = 0; attempt < MAX_DEAD_DERIVATIONS; attempt++) {
+      dead = false;
+      const generated = this.derive(start, c, choose, processModifiers);
+      if (!dead) return { ...generated, ...(seed !== undefined ? { seed } : {}) };
+      // Counted once a draw has died, so that generation without dead ends never counts
+      if (attempt === 0 && !c.unbounded && !count(this.constrainedRule(start, c, ""), c.depth)) {
+        throw new Error(`No derivation of "${start}" within depth ${c.depth}`);
+      }
+    }
+    throw new Error(
+      `No derivation of "${start}" found in ${MAX_DEAD_DERIVATIONS} tries: guards or the depth limit ruled out every alternative of a rule`,
+    );
+  }
+
+  // Derivation tree of a result, rebuilt by replaying its trace (for results that enumeration produced);
+  // undefined when the trace is not a derivation of `start` under these constraints
+  derivationTree(
+    trace: Readonly<Record<string, readonly string[]>>,
+    start = "origin",
+    constraints?: ConstraintsInput,
+    maxDepth = Infinity,
+    processModifiers = false,
+  ): DerivationNode | undefined {
+    const c = resolveConstraints(constraints, maxDepth);
+    const remaining = Object.fromEntries(Object.entries(trace).map(([rule, labels]) => [rule, [...labels]]));
+    let lost = false;
+    const choose: OptionChooser = (rule, alt, depth, stacks) => {
+      const label = depth < 0 ? undefined : remaining[rule]?.shift();
+      const chosen = alt.options.find((o) => this.choiceLabel(o) === label && this.eligible(o, stacks));
+      if (!chosen) lost = true;
+      return chosen;
+    };
+    const { tree } = this.derive(start, c, choose, processModifiers);
+    const consumed = Object.values(remaining).every((labels) => labels.length === 0);
+    return lost || !consumed ? undefined : tree;
+  }
+
+  // One derivation with the alternatives `choose` picks, with its trace and derivation tree
+  private derive(
+    start: string,
+    c: RuleConstraints,
+    choose: OptionChooser,
+    processModifiers: boolean,
+  ): Generated {
     const trace: Trace = {};
     const modifierApplications: ModifierApplication[] = [];
     const addTrace = (rule: string, label: string) => {
       (trace[rule] ??= []).push(label);
     };
+    let stacks: Stacks<string[]> = NO_STACKS;
+    // Nodes of the expansion in progress; spans stay relative to its text until placeSpans
+    let siblings: DerivationNode[] = [];
+    // Nodes of the last binding's expansion (`#hero=name#`), for the `$hero` node that outputs its text
+    let bound: DerivationNode[] = [];
 
-    const buildFromRule = (ruleName: string, depth: number): string => {
-      const alt = this.applyConstraints(ruleName, this.ruleAst[ruleName], constraints);
-      if (alt.options.length === 0) return "";
+    const buildFromRule = (ruleName: string, depth: number, parent: string): DerivationNode | undefined => {
+      const alt = this.resolveRule(ruleName, stacks, c, parent);
+      if (alt.options.length === 0) return undefined;
+      const chosen = choose(ruleName, alt, depth, stacks);
+      if (!chosen) return undefined;
 
-      let chosen: AstNode;
-      if (strategy === "uniform") {
-        const pick = Math.floor(rng() * alt.options.length);
-        chosen = alt.options[pick]!;
-      } else {
-        const weights = alt.options.map((o) => count(o, depth));
-        const total = weights.reduce((a, b) => a + b, 0);
-        if (!total) return "";
-        let pick = Math.floor(rng() * total);
-        chosen = alt.options[0]!;
-        for (let i = 0; i < alt.options.length; i++) {
-          if (pick < weights[i]!) {
-            chosen = alt.options[i]!;
-            break;
-          }
-          pick -= weights[i]!;
+      const alternative = this.choiceLabel(chosen);
+      addTrace(ruleName, alternative);
+      stacks = this.recordChoice(chosen, stacks, choiceText);
+      const node: DerivationNode = { symbol: ruleName, alternative, start: 0, end: 0, text: "", children: [] };
+      const outer = siblings;
+      siblings = node.children;
+      node.text = buildNode(chosen, depth, 0);
+      siblings = outer;
+      node.end = node.text.length;
+      return node;
+    };
+
+    const runAction = (node: ActionNode, depth: number, at: number) => {
+      const outer = siblings;
+      siblings = [];
+      switch (node.action) {
+        case "push": {
+          const before = stacks;
+          const texts = node.rules.map((rule) => {
+            stacks = before;
+            return buildNode(rule, depth, 0);
+          });
+          stacks = pushStack(before, node.target, texts);
+          break;
         }
+        case "pop":
+          stacks = popStack(stacks, node.target);
+          break;
+        case "run":
+          buildNode(node.template, depth, 0);
+          break;
       }
-
-      addTrace(ruleName, this.choiceLabel(chosen));
-      return buildNode(chosen, depth);
+      if (isBindingPush(node)) bound = siblings;
+      else for (const child of siblings) outer.push({ ...child, start: at, end: at, silent: true });
+      siblings = outer;
     };
 
-    const buildNode = (node: AstNode, depth: number): string => {
+    // `at`: where the node's output starts in the text of the expansion in progress
+    const buildNode = (node: AstNode, depth: number, at: number): string => {
       if (depth < 0) return "";
       switch (node.kind) {
         case "literal":
           return node.text;
+        case "action":
+          runAction(node, depth, at);
+          return "";
         case "reference": {
-          const expanded = buildFromRule(node.name, depth - 1);
+          const boundChildren = node.bound ? bound : undefined;
+          for (const action of node.preactions) runAction(action, depth, at);
+          const child = buildFromRule(node.name, depth - 1, node.parent);
+          const expanded = child?.text ?? "";
           let t = expanded;
           if (processModifiers && node.modifiers.length > 0) {
-            t = applyModifierPipeline(
-              expanded,
-              node.modifiers,
-              DEFAULT_ENGLISH_MODIFIERS,
-            );
+            t = this.applyModifiers(node, expanded, stacks);
             modifierApplications.push({
               rule: node.name,
               expandedText: expanded,
               modifiers: [...node.modifiers],
               resultText: t,
             });
+            if (child) Object.assign(child, { modifiers: [...node.modifiers], expandedText: expanded });
+          }
+          if (child) {
+            Object.assign(child, { start: at, end: at + t.length, text: t });
+            if (boundChildren) child.children = boundChildren;
+            siblings.push(child);
           }
+          stacks = this.undoPreactions(node, stacks);
           return t;
         }
-        case "sequence":
-          return node.parts.map((p) => buildNode(p, depth)).join("");
+        case "sequence": {
+          let text = "";
+          for (const part of node.parts) text += buildNode(part, depth, at + text.length);
+          return text;
+        }
         case "alternation":
           throw new Error("Alternation nodes occur only at rule roots");
       }
     };
 
-    const depth = isFinite(maxDepth) ? maxDepth : 1e9;
-    const text = buildFromRule(start, depth);
+    const tree = buildFromRule(start, c.depth, "");
+    if (tree) placeSpans([tree], 0);
+    const bindings = bindingsOf(stacks);
     return {
-      text,
+      text: tree?.text ?? "",
       trace,
       ...(modifierApplications.length > 0 ? { modifierApplications } : {}),
+      ...(bindings ? { bindings } : {}),
+      ...(tree ? { tree } : {}),
     };
   }
 
-  // Generate n results - optionally unique by text
+  // Generate n results - optionally unique by text.
+  // With a seed, each result gets its own seed drawn from a stream seeded by `seed`,
+  // so the whole batch and every single result can be replayed.
+  // Unique results that rejection cannot find quickly are drawn like sampleDistinct(…, "text") and carry
+  // an index instead of a seed.
   generateMany(
     n: number,
     start = "origin",
-    constraints?: Constraints,
+    constraints?: ConstraintsInput,
     unique = false,
     maxDepth = Infinity,
     strategy: GenerationStrategy = "uniform",
     processModifiers = false,
+    seed?: number,
   ): Generated[] {
-    if (!unique)
-      return Array.from({ length: n }, () =>
-        this.generate(start, constraints, maxDepth, Math.random, strategy, processModifiers),
-      );
-    const seen = new Set<string>();
-    const results: Generated[] = [];
-    const limit = this.countStrings(start, constraints, maxDepth);
-    while (results.length < Math.min(n, limit)) {
-      const g = this.generate(
+    const seedSource = seed !== undefined ? createSeededRng(seed) : Math.random;
+    const draw = () =>
+      this.generate(
         start,
         constraints,
         maxDepth,
-        Math.random,
+        nextSeed(seedSource),
         strategy,
         processModifiers,
       );
-      if (!seen.has(g.text)) {
-        seen.add(g.text);
-        results.push(g);
+    if (!unique) return Array.from({ length: n }, draw);
+
+    // Rejection keeps the strategy's distribution while new texts come easily; once they stop
+    // coming, the rest is drawn exactly without replacement so the loop always ends
+    const seen = new Set<string>();
+    const results: Generated[] = [];
+    for (let misses = 0; results.length < n && misses < UNIQUE_REJECTION_LIMIT; ) {
+      const g = draw();
+      if (seen.has(g.text)) {
+        misses++;
+        continue;
       }
+      seen.add(g.text);
+      results.push(g);
+      misses = 0;
+    }
+    if (results.length < n) {
+      const c = resolveConstraints(constraints, maxDepth);
+      const rest = this.drawDistinct(
+        n - results.length,
+        start,
+        c,
+        "text",
+        processModifiers,
+        createSeededRng(nextSeed(seedSource)),
+        Infinity,
+        seen,
+      );
+      results.push(...rest.results);
     }
     return results;
   }
 
-  // -------- Full expansion with metadata --------
-  expandAll(
+  // Exact sampling without replacement: distinct derivation indices are drawn uniformly and unranked,
+  // so it ends after at most countStrings() draws. Author weights and strategies do not apply.
+  // `by: "text"` keeps only the first derivation of each text and reports how many collapsed into it;
+  // `maxDraws` bounds the work when many derivations share few texts.
+  sampleDistinct(
+    n: number,
     start = "origin",
-    constraints?: Constraints,
+    constraints?: ConstraintsInput,
     maxDepth = Infinity,
-    cap = Infinity,
+    by: DistinctBy = "derivation",
     processModifiers = false,
-  ): Generated[] {
-    const depth = isFinite(maxDepth) ? maxDepth : 1e9;
+    seed?: number,
+    maxDraws = Infinity,
+  ): DistinctSample {
+    const c = resolveConstraints(constraints, maxDepth);
+    const rng = seed !== undefined ? createSeededRng(seed) : Math.random;
+    return this.drawDistinct(n, start, c, by, processModifiers, rng, maxDraws, new Set());
+  }
 
-    const mergeTraces = (left: Trace, right: Trace): Trace => {
-      const out: Trace = {};
-      for (const [k, v] of Object.entries(left)) out[k] = [...v];
-      for (const [k, v] of Object.entries(right)) (out[k] ??= []).push(...v);
-      return out;
+  // Texts already in `seen` count as collapsed in text mode
+  private drawDistinct(
+    n: number,
+    start: string,
+    c: RuleConstraints,
+    by: DistinctBy,
+    processModifiers: boolean,
+    rng: RandomSource,
+    maxDraws: number,
+    seen: Set<string>,
+  ): DistinctSample {
+    this.requireBoundedDepth(start, c);
+    const count = this.createOutcomeCounter(c);
+    const total = totalCount(count(this.constrainedRule(start, c, ""), c.depth, NO_STACKS));
+    const sample: DistinctSample = {
+      results: [],
+      drawn: 0,
+      collapsed: 0,
+      collapsedByText: {},
+      exhausted: false,
     };
+    for (const index of sampleIndices(total, rng)) {
+      if (sample.results.length >= n || sample.drawn >= maxDraws) break;
+      sample.drawn++;
+      const g = this.derivationAt(start, c, count, index, processModifiers)!;
+      if (by === "text") {
+        if (seen.has(g.text)) {
+          sample.collapsed++;
+          sample.collapsedByText[g.text] = (sample.collapsedByText[g.text] ?? 0) + 1;
+          continue;
+        }
+        seen.add(g.text);
+      }
+      sample.results.push({ ...g, index });
+    }
+    sample.exhausted = sample.drawn === total;
+    return sample;
+  }
+
+  // -------- Lazy enumeration --------
+  // Yields every derivation one at a time in a stable order (alternatives in grammar order, left to right).
+  // `offset` skips that many derivations without building them: whole alternatives are skipped by their counts.
+  *enumerate(
+    start = "origin",
+    constraints?: ConstraintsInput,
+    maxDepth = Infinity,
+    offset = 0,
+    processModifiers = false,
+  ): Generator<Generated> {
+    if (!Number.isInteger(offset) || offset < 0) throw new Error(`Invalid offset: ${offset}`);
+    const c = resolveConstraints(constraints, maxDepth);
+    this.requireBoundedDepth(start, c);
+    const count = this.createOutcomeCounter(c);
+    // Derivations are built in chunks; each chunk resumes by skipping to its offset
+    for (let from = offset; ; ) {
+      const chunk: Generated[] = [];
+      this.walkDerivations(start, c, count, from, processModifiers, (g) => {
+        chunk.push(g);
+        return chunk.length < ENUMERATION_CHUNK;
+      });
+      yield* chunk;
+      if (chunk.length < ENUMERATION_CHUNK) return;
+      from += chunk.length;
+    }
+  }
 
-    const mergeModifierApplications = (
-      left: ModifierApplication[] | undefined,
-      right: ModifierApplication[] | undefined,
-    ): ModifierApplication[] | undefined => {
-      const a = left ?? [];
-      const b = right ?? [];
-      if (a.length === 0 && b.length === 0) return undefined;
-      return [...a, ...b];
+  // -------- Random access --------
+  // The derivation at `index` of enumerate() order, found by skipping whole alternatives by their counts
+  nthString(
+    index: number,
+    start = "origin",
+    constraints?: ConstraintsInput,
+    maxDepth = Infinity,
+    processModifiers = false,
+  ): Generated {
+    if (!Number.isInteger(index) || index < 0) throw new Error(`Invalid index: ${index}`);
+    const c = resolveConstraints(constraints, maxDepth);
+    this.requireBoundedDepth(start, c);
+    const result = this.derivationAt(start, c, this.createOutcomeCounter(c), index, processModifiers);
+    if (!result) {
+      const total = this.countStrings(start, constraints, maxDepth);
+      throw new Error(`Index ${index} is out of range (${total} derivations)`);
+    }
+    return result;
+  }
+
+  // Position of a derivation in enumerate() order, identified by its trace; -1 when it is not a derivation
+  // of `start` under these constraints. Inverse of nthString: indexOf(nthString(i).trace) === i, except that
+  // identical alternatives of one rule leave identical traces and rank as the first of them.
+  indexOf(
+    trace: Readonly<Record<string, readonly string[]>>,
+    start = "origin",
+    constraints?: ConstraintsInput,
+    maxDepth = Infinity,
+  ): number {
+    const c = resolveConstraints(constraints, maxDepth);
+    this.requireBoundedDepth(start, c);
+    const guide: DerivationGuide = {
+      remaining: Object.fromEntries(Object.entries(trace).map(([rule, labels]) => [rule, [...labels]])),
+      rank: 0,
     };
+    let found = false;
+    this.walkDerivations(start, c, this.createOutcomeCounter(c), 0, false, () => {
+      found = true;
+      return false;
+    }, guide);
+    const consumed = Object.values(guide.remaining).every((labels) => labels.length === 0);
+    return found && consumed ? guide.rank : -1;
+  }
 
-    const expandFromRule = (ruleName: string, d: number): Generated[] => {
-      const alt = this.applyConstraints(
-        ruleName,
-        this.ruleAst[ruleName],
-        constraints,
-      );
-      const results: Generated[] = [];
-      for (const option of alt.options) {
-        const tail = expandNode(option, d);
-        const label = this.choiceLabel(option);
-        for (const t of tail) {
-          results.push({
-            text: t.text,
-            trace: mergeTraces({ [ruleName]: [label] }, t.trace),
-            modifierApplications: t.modifierApplications,
-          });
-          if (results.length >= cap) return results;
+  private derivationAt(
+    start: string,
+    c: RuleConstraints,
+    count: OutcomeCounter,
+    index: number,
+    processModifiers: boolean,
+  ): Generated | undefined {
+    let result: Generated | undefined;
+    this.walkDerivations(start, c, count, index, processModifiers, (g) => {
+      result = g;
+      return false;
+    });
+    return result;
+  }
+
+  // Walks derivations in enumerate() order from `offset`, handing each to `emit` until it returns false.
+  // With a guide, only the traced derivation is walked and the derivations before it are added up in guide.rank.
+  private walkDerivations(
+    start: string,
+    c: RuleConstraints,
+    count: OutcomeCounter,
+    offset: number,
+    processModifiers: boolean,
+    emit: (derivation: Generated) => boolean,
+    guide?: DerivationGuide,
+  ): void {
+    const { resolveRule, constrainedRule, choiceLabel, eligible } = this;
+    const undoPreactions = <T,>(node: ReferenceNode, stacks: Stacks<T>) =>
+      this.undoPreactions(node, stacks);
+
+    // Derivations after `outcomes`, each multiplied by what `next` makes of its stacks
+    const weigh = (outcomes: CountOutcomes, next: Continuation): number => {
+      let n = 0;
+      for (const o of outcomes.values()) n += o.count * next.count(o.stacks);
+      return n;
+    };
+
+    const ruleOutcomes = (node: ReferenceNode, depth: number, stacks: Stacks<number>): CountOutcomes => {
+      if (depth < 0) return new Map();
+      const pushed = topOfStack(stacks, node.name);
+      if (pushed !== undefined) return new Map([[stacksKey(stacks), { stacks, count: pushed }]]);
+      return count(constrainedRule(node.name, c, node.parent), depth, stacks);
+    };
+
+    // Run parts[i..] and then `next`
+    const partsContinuation = (
+      parts: readonly AstNode[],
+      i: number,
+      depth: number,
+      next: Continuation,
+    ): Continuation => {
+      if (i === parts.length) return next;
+      const after = partsContinuation(parts, i + 1, depth, next);
+      return {
+        count: memoByStacks((stacks) => weigh(count(parts[i]!, depth, stacks), after)),
+        run: (state, skip) => walk(parts[i]!, depth, state, skip, after),
+      };
+    };
+
+    const walkRule = (
+      node: ReferenceNode,
+      depth: number,
+      state: WalkState,
+      skip: number,
+      next: Continuation,
+    ): boolean => {
+      if (depth < 0) return true;
+      const alt = resolveRule(node.name, state.stacks, c, node.parent);
+      const shapes = stackShapes(state.stacks);
+      const options = alt.options.filter((option) => eligible(option, state.stacks));
+      const optionCount = (option: AstNode) =>
+        weigh(count(option, depth, this.recordChoice(option, shapes, choiceShape)), next);
+      const chose = (option: AstNode, label: string): WalkState => ({
+        ...state,
+        choices: { head: [node.name, label] as const, tail: state.choices },
+        stacks: this.recordChoice(option, state.stacks, choiceText),
+      });
+      if (guide) {
+        const label = guide.remaining[node.name]?.shift();
+        const chosen = options.findIndex((option) => choiceLabel(option) === label);
+        if (chosen < 0) return true;
+        for (let i = 0; i < chosen; i++) guide.rank += optionCount(options[i]!);
+        return walk(options[chosen]!, depth, chose(options[chosen]!, label!), 0, next);
+      }
+      for (const option of options) {
+        if (skip) {
+          const n = optionCount(option);
+          if (skip >= n) {
+            skip -= n;
+            continue;
+          }
         }
+        if (!walk(option, depth, chose(option, choiceLabel(option)), skip, next)) return false;
+        skip = 0;
       }
-      return results;
+      return true;
     };
 
-    const expandNode = (node: AstNode, d: number): Generated[] => {
-      if (d < 0) return [];
-      switch (node.kind) {
-        case "literal":
-          return [{ text: node.text, trace: {}, modifierApplications: [] }];
-        case "reference": {
-          const inner = expandFromRule(node.name, d - 1);
-          return inner.map((t) => {
-            let text = t.text;
-            let modApps = t.modifierApplications ?? [];
-            if (processModifiers && node.modifiers.length > 0) {
-              const expanded = text;
-              text = applyModifierPipeline(
-                expanded,
-                node.modifiers,
-                DEFAULT_ENGLISH_MODIFIERS,
-              );
-              modApps = [
-                ...modApps,
-                {
-                  rule: node.name,
-                  expandedText: expanded,
-                  modifiers: [...node.modifiers],
-                  resultText: text,
-                },
-              ];
-            }
-            return {
-              text,
-              trace: t.trace,
-              modifierApplications: modApps,
+    const walkReference = (
+      node: ReferenceNode,
+      depth: number,
+      state: WalkState,
+      skip: number,
+      next: Continuation,
+    ): boolean => {
+      const modify = processModifiers && node.modifiers.length > 0;
+      // The rule expands on its own text so modifiers see only that; preactions are popped after it
+      const after: Continuation = {
+        count: (stacks) => next.count(undoPreactions(node, stacks)),
+        run: (sub, s) => {
+          let text = sub.text;
+          let modifierApplications = sub.modifierApplications;
+          if (modify) {
+            text = this.applyModifiers(node, sub.text, sub.stacks);
+            modifierApplications = {
+              head: {
+                rule: node.name,
+                expandedText: sub.text,
+                modifiers: [...node.modifiers],
+                resultText: text,
+              },
+              tail: modifierApplications,
             };
+          }
+          return next.run(
+            {
+              ...sub,
+              text: state.text + text,
+              modifierApplications,
+              stacks: undoPreactions(node, sub.stacks),
+            },
+            s,
+          );
+        },
+      };
+      const expand: Continuation = {
+        count: memoByStacks((stacks) => weigh(ruleOutcomes(node, depth - 1, stacks), after)),
+        run: (pre, s) => walkRule(node, depth - 1, { ...pre, text: "" }, s, after),
+      };
+      return partsContinuation(node.preactions, 0, depth, expand).run(state, skip);
+    };
+
+    const walkAction = (
+      node: ActionNode,
+      depth: number,
+      state: WalkState,
+      skip: number,
+      next: Continuation,
+    ): boolean => {
+      switch (node.action) {
+        case "pop":
+          return next.run({ ...state, stacks: popStack(state.stacks, node.target) }, skip);
+        case "run":
+          return walk(node.template, depth, state, skip, {
+            count: next.count,
+            run: (sub, s) => next.run({ ...sub, text: state.text }, s),
           });
-        }
-        case "sequence": {
-          return node.parts.reduce<Generated[]>((acc, part) => {
-            const right = expandNode(part, d);
-            const merged: Generated[] = [];
-            for (const left of acc) {
-              for (const r of right) {
-                merged.push({
-                  text: left.text + r.text,
-                  trace: mergeTraces(left.trace, r.trace),
-                  modifierApplications: mergeModifierApplications(
-                    left.modifierApplications,
-                    r.modifierApplications,
-                  ),
-                });
-                if (merged.length >= cap) return merged;
-              }
+        case "push": {
+          // Each pushed rule expands from the stacks before the push; only its text and choices carry on
+          const { rules, target } = node;
+          const before = state.stacks;
+          const remaining = (i: number): number => {
+            const shapes = stackShapes(before);
+            let n = next.count(pushStack(shapes, target, rules.length));
+            for (let j = i; j < rules.length; j++) n *= totalCount(count(rules[j]!, depth, shapes));
+            return n;
+          };
+          const pushFrom = (i: number, texts: string[], current: WalkState, s: number): boolean => {
+            if (i === rules.length) {
+              return next.run(
+                { ...current, text: state.text, stacks: pushStack(before, target, texts) },
+                s,
+              );
             }
-            return merged;
-          }, [{ text: "", trace: {}, modifierApplications: [] }]);
+            return walk(rules[i]!, depth, { ...current, text: "", stacks: before }, s, {
+              count: () => remaining(i + 1),
+              run: (sub, s2) => pushFrom(i + 1, [...texts, sub.text], sub, s2),
+            });
+          };
+          return pushFrom(0, [], state, skip);
         }
+      }
+    };
+
+    // Returns false once `emit` asks to stop
+    const walk = (
+      node: AstNode,
+      depth: number,
+      state: WalkState,
+      skip: number,
+      next: Continuation,
+    ): boolean => {
+      if (depth < 0) return true;
+      switch (node.kind) {
+        case "literal":
+          return next.run({ ...state, text: state.text + node.text }, skip);
+        case "action":
+          return walkAction(node, depth, state, skip, next);
+        case "reference":
+          return walkReference(node, depth, state, skip, next);
+        case "sequence":
+          return partsContinuation(node.parts, 0, depth, next).run(state, skip);
         case "alternation":
           throw new Error("Alternation nodes occur only at rule roots");
       }
     };
 
-    const results = expandFromRule(start, depth);
+    const done: Continuation = {
+      count: () => 1,
+      run: (state, skip) => {
+        if (skip) return true;
+        const trace: Trace = {};
+        for (const [rule, label] of chainToArray(state.choices)) (trace[rule] ??= []).push(label);
+        const modifierApplications = chainToArray(state.modifierApplications);
+        const bindings = bindingsOf(state.stacks);
+        return emit({
+          text: state.text,
+          trace,
+          ...(modifierApplications.length > 0 ? { modifierApplications } : {}),
+          ...(bindings ? { bindings } : {}),
+        });
+      },
+    };
+
+    const initial: WalkState = { text: "", choices: null, modifierApplications: null, stacks: NO_STACKS };
+    walkRule(Ref(start), c.depth, initial, offset, done);
+  }
+
+  // -------- Full expansion with metadata --------
+  // The first `cap` results of enumerate()
+  expandAll(
+    start = "origin",
+    constraints?: ConstraintsInput,
+    maxDepth = Infinity,
+    cap = Infinity,
+    processModifiers = false,
+  ): Generated[] {
+    const results: Generated[] = [];
+    if (cap <= 0) return results;
+    for (const g of this.enumerate(start, constraints, maxDepth, 0, processModifiers)) {
+      results.push(g);
+      if (results.length >= cap) break;
+    }
     return results;
   }
 }
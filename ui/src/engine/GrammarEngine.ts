@@ -1,12 +1,62 @@
 import type { 
   GenerationResult, 
   EngineConfig,
-  GenerationStatistics
+  GenerationStatistics,
+  CombinationPage,
+  DistinctGenerationSample,
+  FilteredCombinationCount,
+  FactorialDesignOptions,
+  FactorialTrial,
+  DerivationNode
 } from './types';
 import { ParameterExtractor } from './ParameterExtractor';
 import type { ExtractedParameters } from './ParameterExtractor';
-import { GrammarEngine, type Grammar, type GenerationStrategy } from './Engine';
+import {
+  GrammarEngine,
+  type ConstraintsInput,
+  type DistinctBy,
+  type DistinctCountOptions,
+  type Generated,
+  type Grammar,
+  type GenerationStrategy,
+  type LanguageSize,
+  type RuleDistribution,
+} from './Engine';
 import { rawToGenerationResult } from './helpers';
+import { createSeededRng, nextSeed, randomIndex, shuffle, type RandomSource } from './random';
+import { planFactorialCells } from './factorialDesign';
+import { findAmbiguities, type AmbiguityReport } from './ambiguity';
+import { grammarModifierRegistry, grammarRules } from './grammarModifiers';
+import { compileOutputFilter } from './outputFilters';
+
+// generateMany gives up on output filters after this many rejected draws per requested result
+const MAX_REJECTIONS_PER_RESULT = 100;
+
+// 32-bit FNV-1a, base 36
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// A cursor is `<offset>.<scope>`, both base 36
+function encodeCursor(offset: number, scope: string): string {
+  return `${offset.toString(36)}.${scope}`;
+}
+
+function decodeCursor(cursor: string, scope: string): number {
+  const match = /^([0-9a-z]+)\.([0-9a-z]+)$/.exec(cursor);
+  if (!match) throw new Error(`Invalid cursor: ${cursor}`);
+  if (match[2] !== scope) {
+    throw new Error('Cursor belongs to a different grammar, rule or constraints');
+  }
+  return parseInt(match[1], 36);
+}
+
+/** Depth limit for grammars that recurse when config.maxDepth is not set */
+export const DEFAULT_RECURSION_DEPTH = 10;
 
 /**
  * Scientific grammar generation engine
@@ -18,11 +68,11 @@ export class GrammarProcessor {
   public parameterExtractor: ParameterExtractor;
   public engine: GrammarEngine;
   private config: EngineConfig;
+  private seedSource: RandomSource;
   
   constructor(grammar: Grammar, config: Partial<EngineConfig> = {}) {
     this.grammar = grammar;
     this.config = {
-      maxDepth: 10,
       enableTracking: true,
       enableStatistics: true,
       processModifiers: false,
@@ -30,34 +80,74 @@ export class GrammarProcessor {
     };
     
     this.parameterExtractor = new ParameterExtractor();
-    this.parameters = this.parameterExtractor.extractParameters(grammar);
-    this.engine = new GrammarEngine(grammar);
+    this.parameters = this.parameterExtractor.extractParameters(grammarRules(grammar));
+    this.engine = this.createEngine();
+    this.seedSource = this.createSeedSource();
   }
 
   /** Updates engine options without rebuilding the grammar (e.g. processModifiers toggle). */
   setConfig(partial: Partial<EngineConfig>): void {
     this.config = { ...this.config, ...partial };
+    if ('randomSeed' in partial) {
+      this.seedSource = this.createSeedSource();
+    }
+    if ('modifierPacks' in partial || 'modifiers' in partial) {
+      this.engine = this.createEngine();
+    }
   }
 
   getConfig(): EngineConfig {
     return { ...this.config };
   }
 
+  /**
+   * The depth limit for `rule`: config.maxDepth when set; otherwise DEFAULT_RECURSION_DEPTH when derivations
+   * of `rule` can recurse, and no limit when they cannot
+   */
+  getDepthLimit(rule: string, constraints?: ConstraintsInput): number {
+    if (this.config.maxDepth !== undefined) return this.config.maxDepth;
+    return this.engine.recursiveRules(rule, constraints).length ? DEFAULT_RECURSION_DEPTH : Infinity;
+  }
+
+  /**
+   * Engine over the grammar's rules, with the English modifiers, the configured and requested packs,
+   * the grammar's `$modifiers` and config.modifiers, in that order of precedence (last wins)
+   */
+  private createEngine(): GrammarEngine {
+    const modifiers = {
+      ...grammarModifierRegistry(this.grammar, this.config.modifierPacks),
+      ...this.config.modifiers,
+    };
+    return new GrammarEngine(grammarRules(this.grammar), modifiers);
+  }
+
+  /**
+   * Per-result seeds come from a stream seeded by config.randomSeed, or from Math.random when unset
+   */
+  private createSeedSource(): RandomSource {
+    return this.config.randomSeed !== undefined
+      ? createSeededRng(this.config.randomSeed)
+      : Math.random;
+  }
+
   /**
    * Generates text with specific parameters
+   * @param parameterValues Pinned values per parameter, or full GenerationConstraints (exclusions, fixed words)
+   * @param seed Replays a result: pass metadata.seed of an earlier result with the same parameters
    */
   generateWithParameters(
     rule: string, 
-    parameterValues: Record<string, string>,
-    strategy: GenerationStrategy = 'uniform'
+    parameterValues: ConstraintsInput,
+    strategy: GenerationStrategy = 'uniform',
+    seed?: number
   ): GenerationResult {
     const startTime = Date.now();
     
     const generated = this.engine.generate(
       rule,
       parameterValues,
-      undefined,
-      Math.random,
+      this.getDepthLimit(rule, parameterValues),
+      seed ?? nextSeed(this.seedSource),
       strategy,
       this.config.processModifiers ?? false,
     );
@@ -72,36 +162,279 @@ export class GrammarProcessor {
   }
   
   /**
-   * Generates all possible combinations
+   * Generates several independent samples
+   * With config.outputFilter, texts that fail it are rejected and drawn again; when the filter accepts too
+   * little (MAX_REJECTIONS_PER_RESULT misses per result), fewer than `count` results come back.
+   * @param seed Batch seed: the same seed, parameters and count give the same batch
    */
-  generateAllCombinations(rule: string, constraints?: Record<string, string>): GenerationResult[] {
+  generateMany(
+    rule: string,
+    parameterValues: ConstraintsInput,
+    count: number,
+    strategy: GenerationStrategy = 'uniform',
+    seed?: number
+  ): GenerationResult[] {
+    const startTime = Date.now();
+    const batchSeed = seed ?? nextSeed(this.seedSource);
+    const accepts = compileOutputFilter(this.config.outputFilter);
+
+    let generated: Generated[];
+    if (!accepts) {
+      generated = this.engine.generateMany(
+        count,
+        rule,
+        parameterValues,
+        false,
+        this.getDepthLimit(rule, parameterValues),
+        strategy,
+        this.config.processModifiers ?? false,
+        batchSeed,
+      );
+    } else {
+      // Per-result seeds come from the batch stream as in engine.generateMany, so every result replays
+      const seeds = createSeededRng(batchSeed);
+      generated = [];
+      for (let draws = 0; generated.length < count && draws < count * MAX_REJECTIONS_PER_RESULT; draws++) {
+        const g = this.engine.generate(
+          rule,
+          parameterValues,
+          this.getDepthLimit(rule, parameterValues),
+          nextSeed(seeds),
+          strategy,
+          this.config.processModifiers ?? false,
+        );
+        if (accepts(g.text)) generated.push(g);
+      }
+    }
+
+    const results = rawToGenerationResult(generated);
+
+    if (this.config.enableStatistics) {
+      const perResult = (Date.now() - startTime) / Math.max(1, results.length);
+      for (const result of results) {
+        result.metadata.generationTime = perResult;
+      }
+    }
+
+    return results;
+  }
+  
+  /**
+   * Samples distinct combinations without replacement (uniform over combinations, ignoring weights)
+   * @param by 'text' also drops combinations whose text was already drawn and reports how many collapsed
+   * @param seed Sample seed: the same seed, parameters and count give the same sample
+   */
+  generateDistinct(
+    rule: string,
+    parameterValues: ConstraintsInput,
+    count: number,
+    by: DistinctBy = 'derivation',
+    seed?: number
+  ): DistinctGenerationSample {
+    const sample = this.engine.sampleDistinct(
+      count,
+      rule,
+      parameterValues,
+      this.getDepthLimit(rule, parameterValues),
+      by,
+      this.config.processModifiers ?? false,
+      seed ?? nextSeed(this.seedSource),
+    );
+    return { ...sample, results: rawToGenerationResult(sample.results) };
+  }
+
+  /**
+   * Generates all possible combinations, without those config.outputFilter rejects
+   */
+  generateAllCombinations(rule: string, constraints?: ConstraintsInput): GenerationResult[] {
     // Get all generation paths from GrammarAnalyzer with constraints
     const generated = this.engine.expandAll(
       rule,
       constraints,
-      Infinity,
+      this.getDepthLimit(rule, constraints),
       Infinity,
       this.config.processModifiers ?? false,
     );
+    const accepts = compileOutputFilter(this.config.outputFilter);
     
     // Convert GenerationPath to GenerationResult
-    const results = rawToGenerationResult(generated);
+    const results = rawToGenerationResult(accepts ? generated.filter((g) => accepts(g.text)) : generated);
     
     return results;
   }
 
   /**
-   * Gets the total number of possible combinations using GrammarAnalyzer
+   * Lazily yields all combinations in a stable order, starting at `offset`
+   */
+  *iterateCombinations(
+    rule: string,
+    constraints?: ConstraintsInput,
+    offset = 0
+  ): Generator<GenerationResult> {
+    const generated = this.engine.enumerate(
+      rule,
+      constraints,
+      this.getDepthLimit(rule, constraints),
+      offset,
+      this.config.processModifiers ?? false,
+    );
+    for (const g of generated) {
+      yield rawToGenerationResult([g])[0];
+    }
+  }
+
+  /**
+   * The combination at `index` in generateAllCombinations order, without enumerating the ones before it
+   */
+  getCombinationAt(rule: string, index: number, constraints?: ConstraintsInput): GenerationResult {
+    const generated = this.engine.nthString(
+      index,
+      rule,
+      constraints,
+      this.getDepthLimit(rule, constraints),
+      this.config.processModifiers ?? false,
+    );
+    return rawToGenerationResult([generated])[0];
+  }
+
+  /**
+   * Stable index of a result among all combinations (from its applied rules); -1 if it is not one of them
+   */
+  getCombinationIndex(rule: string, result: GenerationResult, constraints?: ConstraintsInput): number {
+    return this.engine.indexOf(result.metadata.appliedRules, rule, constraints, this.getDepthLimit(rule, constraints));
+  }
+
+  /**
+   * Which rule produced which part of a result: its own tree when it was generated randomly, otherwise
+   * rebuilt from its applied rules; undefined if they do not derive from `rule`
+   */
+  getDerivationTree(rule: string, result: GenerationResult, constraints?: ConstraintsInput): DerivationNode | undefined {
+    return (
+      result.metadata.derivation ??
+      this.engine.derivationTree(
+        result.metadata.appliedRules,
+        rule,
+        constraints,
+        this.getDepthLimit(rule, constraints),
+        this.config.processModifiers ?? false,
+      )
+    );
+  }
+
+  /**
+   * One page of all combinations
+   * @param cursor nextCursor/previousCursor of an earlier page with the same rule, constraints and grammar
+   */
+  getCombinationPage(
+    rule: string,
+    constraints: ConstraintsInput | undefined,
+    pageSize: number,
+    cursor?: string
+  ): CombinationPage {
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error(`Invalid page size: ${pageSize}`);
+    }
+    const scope = this.cursorScope(rule, constraints);
+    const offset = cursor === undefined ? 0 : decodeCursor(cursor, scope);
+    const total = this.getTotalCombinations(rule, constraints);
+
+    const results: GenerationResult[] = [];
+    for (const result of this.iterateCombinations(rule, constraints, offset)) {
+      results.push(result);
+      if (results.length >= pageSize) break;
+    }
+
+    const end = offset + results.length;
+    return {
+      results,
+      offset,
+      total,
+      nextCursor: end < total ? encodeCursor(end, scope) : null,
+      previousCursor: offset > 0 ? encodeCursor(Math.max(0, offset - pageSize), scope) : null,
+    };
+  }
+
+  // Cursors are only valid for the enumeration they came from
+  private cursorScope(rule: string, constraints: ConstraintsInput | undefined): string {
+    return hashString(
+      JSON.stringify([
+        rule,
+        constraints ?? {},
+        this.grammar,
+        this.config.processModifiers ?? false,
+        this.getDepthLimit(rule, constraints),
+      ])
+    );
+  }
+
+  /**
+   * Gets the total number of possible combinations within the depth limit (see getDepthLimit)
    * @param constraints Optional parameter constraints to limit combinations
    */
-  public getTotalCombinations(root: string, constraints?: Record<string, string>): number {
-    return this.engine.countStrings(root, constraints);
+  public getTotalCombinations(root: string, constraints?: ConstraintsInput): number {
+    return this.engine.countStrings(root, constraints, this.getDepthLimit(root, constraints));
+  }
+
+  /**
+   * How many combinations pass config.outputFilter. Up to options.exactLimit combinations (default 100000)
+   * are all checked; beyond that the acceptance rate is estimated from options.sampleSize (default 1000)
+   * combinations drawn uniformly, and scales the total.
+   */
+  getFilteredCombinations(
+    root: string,
+    constraints?: ConstraintsInput,
+    options: DistinctCountOptions = {}
+  ): FilteredCombinationCount {
+    const { exactLimit = 100_000, sampleSize = 1000, seed } = options;
+    const total = this.getTotalCombinations(root, constraints);
+    const accepts = compileOutputFilter(this.config.outputFilter);
+    if (!accepts || total === 0) {
+      return { total, accepted: total, acceptanceRate: total ? 1 : 0, exact: true };
+    }
+    if (!isFinite(total)) {
+      throw new Error(`"${root}" has infinitely many combinations; set a finite maxDepth to filter them`);
+    }
+    const processModifiers = this.config.processModifiers ?? false;
+
+    if (total <= exactLimit) {
+      let accepted = 0;
+      for (const g of this.engine.enumerate(root, constraints, this.getDepthLimit(root, constraints), 0, processModifiers)) {
+        if (accepts(g.text)) accepted++;
+      }
+      return { total, accepted, acceptanceRate: accepted / total, exact: true };
+    }
+
+    const rng = seed !== undefined ? createSeededRng(seed) : Math.random;
+    let hits = 0;
+    for (let i = 0; i < sampleSize; i++) {
+      const index = randomIndex(rng, total);
+      const { text } = this.engine.nthString(index, root, constraints, this.getDepthLimit(root, constraints), processModifiers);
+      if (accepts(text)) hits++;
+    }
+    const acceptanceRate = hits / sampleSize;
+    return { total, accepted: Math.round(total * acceptanceRate), acceptanceRate, exact: false };
+  }
+
+  /**
+   * Whether recursion makes the combinations infinite, with their counts per depth up to the depth limit
+   */
+  getLanguageSize(rule: string, constraints?: ConstraintsInput): LanguageSize {
+    return this.engine.languageSize(rule, constraints, this.getDepthLimit(rule, constraints));
   }
 
 
   
+  /**
+   * Texts produced by more than one combination, with the conflicting rule choices
+   */
+  analyzeAmbiguity(rule: string, constraints?: ConstraintsInput, maxDerivations?: number): AmbiguityReport {
+    const maxDepth = this.getDepthLimit(rule, constraints);
+    return findAmbiguities(this.engine, rule, { constraints, maxDepth, maxDerivations });
+  }
+
   /**
    * Generates parameter matrix
+   * Only the first two parameters are crossed; use generateFactorialDesign for more
    */
   generateParameterMatrix(
     rule: string,
@@ -139,6 +472,50 @@ export class GrammarProcessor {
   }
   
   
+  /**
+   * Generates a factorial design over any number of parameters
+   * Each cell pins one level per factor and is generated `replicates` times.
+   * With options.seed the level permutations, cell choice, texts and trial order are all reproducible;
+   * every trial also records its own seed for generateWithParameters.
+   */
+  generateFactorialDesign(
+    rule: string,
+    options: FactorialDesignOptions,
+    strategy: GenerationStrategy = 'uniform'
+  ): FactorialTrial[] {
+    const replicates = options.replicates ?? 1;
+    if (!Number.isInteger(replicates) || replicates < 1) {
+      throw new Error(`Invalid replicate count: ${replicates}`);
+    }
+
+    const rng = createSeededRng(options.seed ?? nextSeed(this.seedSource));
+    const cells = planFactorialCells(options, rng);
+
+    const trials: FactorialTrial[] = [];
+    cells.forEach((levels, cellIndex) => {
+      for (let replicate = 1; replicate <= replicates; replicate++) {
+        const seed = nextSeed(rng);
+        const result = this.generateWithParameters(
+          rule,
+          { requiredParameters: levels },
+          strategy,
+          seed
+        );
+        trials.push({
+          trial: 0,
+          cell: cellIndex + 1,
+          replicate,
+          levels,
+          content: result.content,
+          seed,
+        });
+      }
+    });
+
+    const ordered = options.randomizeOrder ? shuffle(trials, rng) : trials;
+    return ordered.map((trial, index) => ({ ...trial, trial: index + 1 }));
+  }
+
   /**
    * Clears all parameter current values
    */
@@ -149,31 +526,57 @@ export class GrammarProcessor {
   }
   
   /**
-   * Gets parameter statistics
+   * Exact per-rule probabilities of each alternative being chosen when generating from `rule`
+   */
+  getProbabilityDistribution(
+    rule: string,
+    parameterValues: ConstraintsInput = {},
+    strategy: GenerationStrategy = 'uniform'
+  ): Record<string, RuleDistribution> {
+    return this.engine.probabilityDistribution(rule, parameterValues, this.getDepthLimit(rule, parameterValues), strategy);
+  }
+
+  /**
+   * Gets parameter statistics: strings per parameter value and each parameter's marginal distribution
    */
-  getParameterStatistics(): GenerationStatistics {
+  getParameterStatistics(strategy: GenerationStrategy = 'uniform'): GenerationStatistics {
     const stats: GenerationStatistics = {
       totalVariants: 0,
       parameterCounts: {},
+      parameterProbabilities: {},
       averageDepth: 0,
       maxDepth: 0,
       generationTime: 0
     };
     
-    // Use the correct method for counting combinations
-    stats.totalVariants = this.getTotalCombinations('origin');
+    const size = this.getLanguageSize('origin');
+    stats.totalVariants = size.count;
+    stats.maxDepth = Math.max(0, size.depthCounts.length - 1);
+    stats.averageDepth = size.count
+      ? size.depthCounts.reduce((sum, n, depth) => sum + n * depth, 0) / size.count
+      : 0;
+    const distribution = this.getProbabilityDistribution('origin', {}, strategy);
     
-    // Count variants by parameters
     for (const [paramName, param] of Object.entries(this.parameters)) {
       stats.parameterCounts[paramName] = {};
-      for (const value of param.values) {
-        stats.parameterCounts[paramName][value] = 1;
-      }
+      stats.parameterProbabilities[paramName] = {};
+      // Alternatives are unconstrained here, so they line up with param.values
+      const alternatives = distribution[paramName]?.alternatives;
+      param.values.forEach((value, i) => {
+        stats.parameterCounts[paramName][value] = this.engine.countChoosing(
+          paramName,
+          value,
+          'origin',
+          undefined,
+          this.getDepthLimit('origin'),
+        );
+        stats.parameterProbabilities[paramName][value] = alternatives?.[i]?.probability ?? 0;
+      });
     }
     
     return stats;
   }
-  
+
   /**
    * Gets parameter information
    */
@@ -185,6 +588,6 @@ export class GrammarProcessor {
    * Gets contextual parameters (for symbols used in multiple contexts)
    */
   getContextualParameters(): Record<string, string[]> {
-    return this.parameterExtractor.extractContextualParameters(this.grammar);
+    return this.parameterExtractor.extractContextualParameters(grammarRules(this.grammar));
   }
 }
@@ -1,7 +1,8 @@
 import type { GrammarRule, ExtractedParameters, ExtractedParameter } from './types';
 import {
-  decodePlaceholderInner,
-  parsePlaceholderInner,
+  parsePlaceholder,
+  splitAlternativeGuards,
+  splitAlternativeWeight,
   splitTemplateSegments,
 } from './placeholderParse';
 
@@ -42,12 +43,19 @@ export class ParameterExtractor {
     
     const isParameter = this.isParameterSymbol(symbol, rules, grammar);
     
-    // Normalize parameter values by stripping # symbols from simple references
-    const normalizedValues = rules.map(rule => this.normalizeValue(rule));
+    // Normalize parameter values by stripping weights, guards and # symbols from simple references
+    const alternatives = rules.map(rule => splitAlternativeWeight(rule));
+    const guarded = alternatives.map(alt => splitAlternativeGuards(alt.template));
+    const normalizedValues = guarded.map(alt => this.normalizeValue(alt.template));
+    const weights = alternatives.map(alt => alt.weight);
+    const guards = guarded.map(alt => alt.guards);
+    const dependsOn = [...new Set(guards.flat().map(guard => guard.rule))];
     
     return {
       symbol,
       values: normalizedValues,
+      ...(weights.some(w => w !== 1) ? { weights } : {}),
+      ...(dependsOn.length ? { guards, dependsOn } : {}),
       currentValue: undefined,
       isParameter
     };
@@ -62,10 +70,8 @@ export class ParameterExtractor {
     try {
       const segs = splitTemplateSegments(value);
       if (segs.length !== 1 || segs[0]!.kind !== 'placeholder') return value;
-      const { ruleName, modifierSegments } = parsePlaceholderInner(
-        decodePlaceholderInner(segs[0].innerRaw),
-      );
-      if (modifierSegments.length > 0) return value;
+      const { ruleName, modifierSegments, actions, binding } = parsePlaceholder(segs[0].innerRaw);
+      if (modifierSegments.length > 0 || actions.length > 0 || binding) return value;
       return ruleName;
     } catch {
       return value;
@@ -117,7 +123,7 @@ export class ParameterExtractor {
     for (const seg of splitTemplateSegments(rule)) {
       if (seg.kind !== 'placeholder') continue;
       try {
-        references.push(parsePlaceholderInner(decodePlaceholderInner(seg.innerRaw)).ruleName);
+        references.push(parsePlaceholder(seg.innerRaw).ruleName);
       } catch {
         // invalid placeholder — ignore
       }
@@ -178,7 +184,8 @@ export class ParameterExtractor {
       for (const [paramName, value] of Object.entries(constraints.required)) {
         if (filtered[paramName]) {
           filtered[paramName] = {
-            ...filtered[paramName],
+            symbol: filtered[paramName].symbol,
+            isParameter: filtered[paramName].isParameter,
             values: [value],
             currentValue: value
           };
@@ -190,9 +197,12 @@ export class ParameterExtractor {
     if (constraints.excluded) {
       for (const [paramName, excludedValues] of Object.entries(constraints.excluded)) {
         if (filtered[paramName]) {
+          const parameter = filtered[paramName];
+          const keep = parameter.values.map(value => !excludedValues.includes(value));
           filtered[paramName] = {
-            ...filtered[paramName],
-            values: filtered[paramName].values.filter(value => !excludedValues.includes(value))
+            ...parameter,
+            values: parameter.values.filter((_, i) => keep[i]),
+            ...(parameter.weights ? { weights: parameter.weights.filter((_, i) => keep[i]) } : {})
           };
         }
       }
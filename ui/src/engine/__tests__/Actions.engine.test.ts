@@ -0,0 +1,83 @@
+import { GrammarEngine } from '../Engine';
+
+describe('GrammarEngine Tracery actions', () => {
+  const story = {
+    origin: ['#[hero:#name#]story#'],
+    story: ['#hero# met a dragon. #hero# won.'],
+    name: ['Ada', 'Bo', 'Cy'],
+  };
+
+  test('preaction push keeps a name consistent through the story', () => {
+    const engine = new GrammarEngine(story);
+    for (let seed = 0; seed < 10; seed++) {
+      const { text } = engine.generate('origin', {}, Infinity, seed);
+      const [first, second] = [...text.matchAll(/(\w+) (?:met|won)/g)].map((m) => m[1]);
+      expect(first).toBe(second);
+    }
+  });
+
+  test('countStrings counts the pushed choice once', () => {
+    const engine = new GrammarEngine(story);
+    expect(engine.countStrings('origin')).toBe(3);
+  });
+
+  test('expandAll lists each consistent story', () => {
+    const engine = new GrammarEngine(story);
+    const texts = engine.expandAll('origin').map((g) => g.text).sort();
+    expect(texts).toEqual([
+      'Ada met a dragon. Ada won.',
+      'Bo met a dragon. Bo won.',
+      'Cy met a dragon. Cy won.',
+    ]);
+  });
+
+  test('bare push persists and POP restores the previous value', () => {
+    const engine = new GrammarEngine({
+      origin: ['[x:a]#x#[x:b]#x#[x:POP]#x#'],
+    });
+    expect(engine.expandAll('origin').map((g) => g.text)).toEqual(['aba']);
+    expect(engine.generate('origin', {}, Infinity, 1).text).toBe('aba');
+    expect(engine.countStrings('origin')).toBe(1);
+  });
+
+  test('tag preaction pushes are undone after the tag', () => {
+    const engine = new GrammarEngine({
+      origin: ['#[x:inner]y#/#x#'],
+      y: ['#x#'],
+      x: ['outer'],
+    });
+    expect(engine.expandAll('origin').map((g) => g.text)).toEqual(['inner/outer']);
+  });
+
+  test('pushing several rules offers them as alternatives', () => {
+    const engine = new GrammarEngine({
+      origin: ['[pet:cat,dog]#pet# #pet#'],
+    });
+    expect(engine.countStrings('origin')).toBe(4);
+    expect(engine.expandAll('origin').map((g) => g.text).sort()).toEqual([
+      'cat cat',
+      'cat dog',
+      'dog cat',
+      'dog dog',
+    ]);
+  });
+
+  test('run actions apply the pushes of another rule', () => {
+    const engine = new GrammarEngine({
+      origin: ['[#setPronouns#]#they# said #them#'],
+      setPronouns: ['[they:she][them:her]', '[they:he][them:him]'],
+    });
+    expect(engine.expandAll('origin').map((g) => g.text).sort()).toEqual([
+      'he said him',
+      'she said her',
+    ]);
+    expect(engine.countStrings('origin')).toBe(2);
+  });
+
+  test('weighted strategy sees pushed alternatives', () => {
+    const engine = new GrammarEngine(story);
+    const g = engine.generate('origin', {}, Infinity, 3, 'weighted');
+    expect(g.text).toMatch(/^(Ada|Bo|Cy) met a dragon\. \1 won\.$/);
+    expect(g.trace.name).toHaveLength(1);
+  });
+});
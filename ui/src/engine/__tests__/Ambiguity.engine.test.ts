@@ -0,0 +1,79 @@
+import { GrammarEngine } from '../Engine';
+import { differingRules, findAmbiguities } from '../ambiguity';
+import { GrammarProcessor } from '../GrammarEngine';
+
+describe('findAmbiguities', () => {
+  // An empty alternative next to a separator: "big cat" comes from two derivations
+  const grammar = {
+    origin: ['#adj##noun#'],
+    adj: ['', 'big '],
+    noun: ['cat', 'big cat', 'dog'],
+  };
+
+  test('reports texts with several derivations and where they split', () => {
+    const report = findAmbiguities(new GrammarEngine(grammar));
+    expect(report.derivations).toBe(6);
+    expect(report.distinctTexts).toBe(5);
+    expect(report.complete).toBe(true);
+    expect(report.ambiguous).toHaveLength(1);
+    const [output] = report.ambiguous;
+    expect(output!.text).toBe('big cat');
+    expect(output!.traces).toEqual([
+      { origin: ['#adj##noun#'], adj: [''], noun: ['big cat'] },
+      { origin: ['#adj##noun#'], adj: ['big '], noun: ['cat'] },
+    ]);
+    expect(output!.differingRules).toEqual(['adj', 'noun']);
+  });
+
+  test('respects constraints and the derivation limit', () => {
+    const engine = new GrammarEngine(grammar);
+    expect(findAmbiguities(engine, 'origin', { constraints: { adj: '' } }).ambiguous).toEqual([]);
+    const partial = findAmbiguities(engine, 'origin', { maxDerivations: 3 });
+    expect(partial.derivations).toBe(3);
+    expect(partial.complete).toBe(false);
+  });
+
+  test('differingRules ignores rules chosen identically', () => {
+    expect(differingRules([{ a: ['x'], b: ['y'] }, { a: ['x'], b: ['z'] }])).toEqual(['b']);
+  });
+
+  test('GrammarProcessor.analyzeAmbiguity', () => {
+    const report = new GrammarProcessor(grammar).analyzeAmbiguity('origin');
+    expect(report.ambiguous.map((a) => a.text)).toEqual(['big cat']);
+  });
+});
+
+describe('distinct string counts', () => {
+  test('small spaces are counted exactly', () => {
+    const engine = new GrammarEngine({ origin: ['#adj##noun#'], adj: ['', 'big '], noun: ['cat', 'big cat', 'dog'] });
+    expect(engine.countStrings('origin')).toBe(6);
+    expect(engine.countStrings('origin', {}, Infinity, { distinct: true })).toBe(5);
+    expect(engine.countDistinctStrings('origin')).toEqual({ count: 5, derivations: 6, exact: true });
+  });
+
+  test('large spaces are estimated from sampled derivations', () => {
+    // Any number of a's from 0 to 12, split over a sequence of optional parts: 2^12 derivations, 13 texts
+    const engine = new GrammarEngine({
+      origin: ['#o##o##o##o##o##o##o##o##o##o##o##o#'],
+      o: ['', 'a'],
+    });
+    const estimate = engine.countDistinctStrings('origin', {}, Infinity, { exactLimit: 100, seed: 4 });
+    expect(estimate.exact).toBe(false);
+    expect(estimate.derivations).toBe(4096);
+    expect(estimate.count).toBeGreaterThan(9);
+    expect(estimate.count).toBeLessThan(17);
+  });
+
+  test('unambiguous grammars estimate exactly', () => {
+    const digits = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+    const engine = new GrammarEngine({ origin: ['#d##d##d##d##d##d#'], d: digits });
+    const estimate = engine.countDistinctStrings('origin', {}, Infinity, { exactLimit: 10, sampleSize: 50 });
+    expect(estimate).toEqual({ count: 1_000_000, derivations: 1_000_000, exact: false });
+  });
+
+  test('grammars with actions can only be counted exactly', () => {
+    const engine = new GrammarEngine({ origin: ['#[x:#d#]y#'], y: ['#x##x#'], d: ['a', 'b'] });
+    expect(engine.countDistinctStrings('origin').count).toBe(2);
+    expect(() => engine.countDistinctStrings('origin', {}, Infinity, { exactLimit: 1 })).toThrow(/actions/);
+  });
+});
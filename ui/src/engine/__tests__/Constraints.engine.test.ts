@@ -0,0 +1,75 @@
+import { GrammarEngine } from '../Engine';
+
+describe('GrammarEngine GenerationConstraints', () => {
+  const grammar = {
+    origin: ['#pet# #verb#'],
+    pet: ['cat', 'dog', 'owl'],
+    verb: ['runs', 'sleeps'],
+  };
+
+  test('flat allowed values still work', () => {
+    const engine = new GrammarEngine(grammar);
+    expect(engine.countStrings('origin', { pet: ['cat', 'dog'] })).toBe(4);
+  });
+
+  test('requiredParameters pins a value', () => {
+    const engine = new GrammarEngine(grammar);
+    const constraints = { requiredParameters: { pet: 'owl' } };
+    expect(engine.countStrings('origin', constraints)).toBe(2);
+    expect(engine.expandAll('origin', constraints).map((g) => g.text)).toEqual([
+      'owl runs',
+      'owl sleeps',
+    ]);
+  });
+
+  test('excludedParameters drops values from counting, sampling and enumeration', () => {
+    const engine = new GrammarEngine(grammar);
+    const constraints = { excludedParameters: { pet: ['owl'], verb: ['sleeps'] } };
+    expect(engine.countStrings('origin', constraints)).toBe(2);
+    expect(engine.expandAll('origin', constraints).map((g) => g.text)).toEqual(['cat runs', 'dog runs']);
+    for (let seed = 0; seed < 20; seed++) {
+      expect(engine.generate('origin', constraints, Infinity, seed).text).not.toMatch(/owl|sleeps/);
+    }
+  });
+
+  test('excluding every value is an error', () => {
+    const engine = new GrammarEngine(grammar);
+    expect(() =>
+      engine.countStrings('origin', { excludedParameters: { verb: ['runs', 'sleeps'] } }),
+    ).toThrow(/eliminates all options of rule "verb"/);
+  });
+
+  test('fixedWords replace a rule with literal text', () => {
+    const engine = new GrammarEngine(grammar);
+    const constraints = { fixedWords: { verb: 'naps', missing: 'x' } };
+    expect(engine.countStrings('origin', constraints)).toBe(3);
+    const { text, trace } = engine.generate('origin', constraints, Infinity, 3);
+    expect(text).toMatch(/ naps$/);
+    expect(trace.verb).toEqual(['naps']);
+    expect(
+      new GrammarEngine({ origin: ['#missing#!'] }).expandAll('origin', constraints)[0]!.text,
+    ).toBe('x!');
+  });
+
+  test('maxDepth limits expansion like the maxDepth argument', () => {
+    const engine = new GrammarEngine({ origin: ['#a#'], a: ['#b#'], b: ['deep'] });
+    for (const depth of [1, 2, 3]) {
+      expect(engine.countStrings('origin', { maxDepth: depth })).toBe(engine.countStrings('origin', {}, depth));
+      expect(engine.countStrings('origin', { maxDepth: depth }, 1)).toBe(engine.countStrings('origin', {}, 1));
+    }
+  });
+
+  test('maxDepth counts references below the start rule, in counting as in generation', () => {
+    const engine = new GrammarEngine({ origin: ['#a#'], a: ['#b#'], b: ['deep'] });
+    expect(engine.countStrings('origin', { maxDepth: 1 })).toBe(0);
+    expect(() => engine.generate('origin', { maxDepth: 1 })).toThrow('No derivation of "origin" within depth 1');
+    expect(engine.countStrings('origin', { maxDepth: 2 })).toBe(1);
+    expect(engine.generate('origin', { maxDepth: 2 }).text).toBe('deep');
+    expect(engine.expandAll('origin', { maxDepth: 2 })).toHaveLength(1);
+  });
+
+  test('a rule named like a constraint key is still a flat constraint', () => {
+    const engine = new GrammarEngine({ origin: ['#maxDepth#'], maxDepth: ['a', 'b'] });
+    expect(engine.countStrings('origin', { maxDepth: 'a' })).toBe(1);
+  });
+});
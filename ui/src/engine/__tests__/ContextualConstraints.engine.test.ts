@@ -0,0 +1,50 @@
+import { GrammarEngine } from '../Engine';
+
+describe('GrammarEngine contextual constraints', () => {
+  const grammar = {
+    origin: ['#SP# #VP# #OP#'],
+    SP: ['#NP#'],
+    OP: ['#NP#'],
+    NP: ['girl', 'cat'],
+    VP: ['loves', 'sees', 'pets'],
+  };
+  const subjectIsCat = { contextualParameters: { NP: { SP: 'cat' } } };
+
+  test('constrains a symbol only under the given parent', () => {
+    const engine = new GrammarEngine(grammar);
+    expect(engine.countStrings('origin')).toBe(12);
+    expect(engine.countStrings('origin', subjectIsCat)).toBe(6);
+    const texts = engine.expandAll('origin', subjectIsCat).map((g) => g.text);
+    expect(texts).toHaveLength(6);
+    expect(texts.every((t) => t.startsWith('cat '))).toBe(true);
+    expect(texts.some((t) => t.endsWith(' girl'))).toBe(true);
+  });
+
+  test('subject and object can be pinned independently', () => {
+    const engine = new GrammarEngine(grammar);
+    const constraints = { contextualParameters: { NP: { SP: 'girl', OP: 'cat' } } };
+    expect(engine.countStrings('origin', constraints)).toBe(3);
+    for (let seed = 0; seed < 10; seed++) {
+      const { text, trace } = engine.generate('origin', constraints, Infinity, seed);
+      expect(text).toMatch(/^girl \w+ cat$/);
+      expect(trace.NP).toEqual(['girl', 'cat']);
+    }
+  });
+
+  test('combines with global constraints', () => {
+    const engine = new GrammarEngine(grammar);
+    expect(
+      engine.countStrings('origin', { ...subjectIsCat, excludedParameters: { VP: ['pets'] } }),
+    ).toBe(4);
+    expect(() =>
+      engine.countStrings('origin', { ...subjectIsCat, requiredParameters: { NP: 'girl' } }),
+    ).toThrow(/NP/);
+  });
+
+  test('distribution reports the mixed marginal of the symbol', () => {
+    const engine = new GrammarEngine(grammar);
+    const dist = engine.probabilityDistribution('origin', subjectIsCat);
+    expect(dist.NP!.expectedVisits).toBe(2);
+    expect(dist.NP!.alternatives.map((a) => a.expected)).toEqual([0.5, 1.5]);
+  });
+});
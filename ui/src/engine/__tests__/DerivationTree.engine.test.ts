@@ -0,0 +1,90 @@
+import { GrammarEngine } from '../Engine';
+import { GrammarProcessor } from '../GrammarEngine';
+import type { DerivationNode } from '../types';
+
+// symbol@start-end for each node, depth first
+const spans = (node: DerivationNode): string[] => [
+  `${node.symbol}@${node.start}-${node.end}${node.silent ? ' silent' : ''}`,
+  ...node.children.flatMap(spans),
+];
+
+describe('GrammarEngine derivation trees', () => {
+  const grammar = {
+    origin: ['#np# saw #np#.'],
+    np: ['the #noun#', '#noun.a#'],
+    noun: ['owl', 'cat'],
+  };
+
+  test('repeated symbols keep their own position, parent and text', () => {
+    const engine = new GrammarEngine(grammar);
+    const g = engine.generate('origin', { np: 'the #noun#' }, Infinity, () => 0);
+    expect(g.text).toBe('the owl saw the owl.');
+    expect(spans(g.tree!)).toEqual(['origin@0-20', 'np@0-7', 'noun@4-7', 'np@12-19', 'noun@16-19']);
+    const second = g.tree!.children[1]!;
+    expect(second).toMatchObject({ symbol: 'np', alternative: 'the #noun#', text: 'the owl' });
+    expect(g.text.slice(second.children[0]!.start, second.children[0]!.end)).toBe('owl');
+  });
+
+  test('spans follow text that modifiers rewrote', () => {
+    const engine = new GrammarEngine({
+      origin: ['#thing.a#; #thing.capitalize#; #beast.pluralize#'],
+      thing: ['#adj# owl'],
+      adj: ['old'],
+      beast: ['#kind#'],
+      kind: ['mouse'],
+    });
+    const g = engine.generate('origin', {}, Infinity, () => 0, 'uniform', true);
+    expect(g.text).toBe('an old owl; Old owl; mice');
+    // `.a` keeps "old owl" intact and `.capitalize` only its case, so the adjective is found inside it;
+    // `.pluralize` rewrote "mouse", so the kind gets the whole span
+    expect(spans(g.tree!)).toEqual([
+      'origin@0-25',
+      'thing@0-10',
+      'adj@3-6',
+      'thing@12-19',
+      'adj@12-15',
+      'beast@21-25',
+      'kind@21-25',
+    ]);
+    expect(g.tree!.children[1]).toMatchObject({ modifiers: ['capitalize'], expandedText: 'old owl', text: 'Old owl' });
+  });
+
+  test('expansions run by actions are silent down to the leaves', () => {
+    const engine = new GrammarEngine({ origin: ['[x:#np#]Hi #x#!'], np: ['the #noun#'], noun: ['owl'] });
+    const g = engine.generate('origin', {}, Infinity, 0);
+    expect(g.text).toBe('Hi the owl!');
+    expect(spans(g.tree!)).toEqual(['origin@0-11', 'np@0-0 silent', 'noun@0-0 silent', 'x@3-10']);
+  });
+
+  test('a binding expands under its variable; later uses span their output', () => {
+    const engine = new GrammarEngine({ origin: ['Hi #x=np.capitalize#, #$x#!'], np: ['the #noun#'], noun: ['owl'] });
+    const g = engine.generate('origin', {}, Infinity, 0, 'uniform', true);
+    expect(g.text).toBe('Hi The owl, the owl!');
+    expect(spans(g.tree!)).toEqual(['origin@0-20', '$x@3-10', 'np@3-10', 'noun@7-10', '$x@12-19']);
+    expect(g.text.slice(7, 10)).toBe('owl');
+  });
+
+  test('derivationTree replays a trace into the same tree', () => {
+    const engine = new GrammarEngine({ ...grammar, origin: ['#np.capitalize# saw #np#.'] });
+    for (let seed = 0; seed < 8; seed++) {
+      const g = engine.generate('origin', {}, Infinity, seed, 'uniform', true);
+      expect(engine.derivationTree(g.trace, 'origin', {}, Infinity, true)).toEqual(g.tree);
+    }
+    const [first] = engine.expandAll('origin', {}, Infinity, 1, true);
+    expect(engine.derivationTree(first!.trace, 'origin', {}, Infinity, true)?.text).toBe(first!.text);
+    // A label the rule lacks, or labels left over, is no derivation
+    expect(engine.derivationTree({ origin: ['#np.capitalize# saw #np#.'], np: ['nope'] })).toBeUndefined();
+    expect(
+      engine.derivationTree({ origin: ['#np.capitalize# saw #np#.'], np: ['#noun.a#', '#noun.a#'], noun: ['owl', 'owl', 'owl'] }),
+    ).toBeUndefined();
+  });
+
+  test('GrammarProcessor results carry or rebuild the tree', () => {
+    const proc = new GrammarProcessor(grammar, { randomSeed: 3 });
+    const generated = proc.generateWithParameters('origin', {});
+    expect(generated.metadata.derivation?.text).toBe(generated.content);
+    const [combination] = proc.generateAllCombinations('origin');
+    expect(combination!.metadata.derivation).toBeUndefined();
+    expect(proc.getDerivationTree('origin', combination!)?.children.map((c) => c.text)).toEqual(['the owl', 'the owl']);
+  });
+});
@@ -0,0 +1,64 @@
+import { GrammarEngine } from '../Engine';
+
+describe('GrammarEngine probability distribution', () => {
+  const grammar = {
+    origin: ['#A#', '#B#'],
+    A: ['x', 'y'],
+    B: ['z'],
+  };
+
+  test('uniform strategy splits each choice point evenly', () => {
+    const dist = new GrammarEngine(grammar).probabilityDistribution('origin');
+    expect(dist.origin!.alternatives.map((a) => a.probability)).toEqual([0.5, 0.5]);
+    expect(dist.A!.expectedVisits).toBe(0.5);
+    expect(dist.A!.alternatives.map((a) => a.expected)).toEqual([0.25, 0.25]);
+    expect(dist.A!.alternatives.map((a) => a.probability)).toEqual([0.5, 0.5]);
+    expect(dist.B!.alternatives[0]).toEqual({ alternative: 'z', weight: 1, expected: 0.5, probability: 1 });
+  });
+
+  test('weighted strategy follows string counts', () => {
+    const dist = new GrammarEngine(grammar).probabilityDistribution('origin', {}, Infinity, 'weighted');
+    const [a, b] = dist.origin!.alternatives;
+    expect(a!.probability).toBeCloseTo(2 / 3);
+    expect(b!.probability).toBeCloseTo(1 / 3);
+    expect(dist.A!.expectedVisits).toBeCloseTo(2 / 3);
+  });
+
+  test('author weights and constraints are honoured', () => {
+    const engine = new GrammarEngine({ origin: ['#child# #child#'], child: ['girl ^3', 'boy', 'kid'] });
+    const dist = engine.probabilityDistribution('origin');
+    expect(dist.child!.expectedVisits).toBe(2);
+    expect(dist.child!.alternatives.map((a) => a.probability)).toEqual([0.6, 0.2, 0.2]);
+    expect(dist.child!.alternatives.map((a) => a.expected)).toEqual([1.2, 0.4, 0.4]);
+
+    const constrained = engine.probabilityDistribution('origin', { child: ['boy', 'kid'] });
+    expect(constrained.child!.alternatives.map((a) => a.alternative)).toEqual(['boy', 'kid']);
+    expect(constrained.child!.alternatives.map((a) => a.probability)).toEqual([0.5, 0.5]);
+  });
+
+  test('agrees with sampled frequencies', () => {
+    const engine = new GrammarEngine({
+      origin: ['#short#', '#long# ^2'],
+      short: ['#v#'],
+      long: ['#c##v#', '#c##v##c#'],
+      c: ['p', 't', 'k'],
+      v: ['a', 'i'],
+    });
+    const dist = engine.probabilityDistribution('origin', {}, Infinity, 'weighted');
+    const results = engine.generateMany(2000, 'origin', {}, false, Infinity, 'weighted', false, 11);
+    const longShare = results.filter((r) => r.trace.origin?.[0] === 'long').length / results.length;
+    expect(longShare).toBeCloseTo(dist.origin!.alternatives[1]!.probability, 1);
+  });
+
+  test('choices among pushed texts are left out', () => {
+    const engine = new GrammarEngine({
+      origin: ['#[hero:#name#]story#'],
+      story: ['#hero# and #hero#'],
+      name: ['Ada', 'Bo'],
+    });
+    const dist = engine.probabilityDistribution('origin');
+    expect(dist.hero).toBeUndefined();
+    expect(dist.name!.expectedVisits).toBe(1);
+    expect(dist.story!.expectedVisits).toBe(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { GrammarEngine } from '../Engine';
+
+describe('GrammarEngine.enumerate', () => {
+  const grammar = {
+    origin: ['#word_order#'],
+    word_order: ['#SP# #VP# #OP#', '#VP# #SP# #OP#'],
+    SP: ['#NP#'],
+    OP: ['#NP#'],
+    NP: ['girl', 'cat'],
+    VP: ['loves', 'eats', 'pets'],
+  };
+
+  test('yields the same results in the same order as expandAll', () => {
+    const engine = new GrammarEngine(grammar);
+    expect([...engine.enumerate('origin')]).toEqual(engine.expandAll('origin'));
+  });
+
+  test('is lazy: taking a few results does not expand the rest', () => {
+    const digits = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+    const engine = new GrammarEngine({ origin: ['#d##d##d##d##d##d##d##d##d#'], d: digits });
+    const it = engine.enumerate('origin');
+    expect(it.next().value!.text).toBe('000000000');
+    expect(it.next().value!.text).toBe('000000001');
+  });
+
+  test('offset skips straight to any position', () => {
+    const engine = new GrammarEngine(grammar);
+    const all = engine.expandAll('origin');
+    for (const offset of [0, 1, 5, 12, 23, 24, 30]) {
+      expect([...engine.enumerate('origin', {}, Infinity, offset)]).toEqual(all.slice(offset));
+    }
+
+    const digits = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+    const big = new GrammarEngine({ origin: ['#d##d##d##d##d##d##d##d##d#'], d: digits });
+    expect(big.enumerate('origin', {}, Infinity, 123456789).next().value!.text).toBe('123456789');
+    expect(() => big.enumerate('origin', {}, Infinity, -1).next()).toThrow(/offset/);
+  });
+
+  test('offset respects actions, constraints and the depth limit', () => {
+    const engine = new GrammarEngine({
+      origin: ['#[hero:#name#]story#', 'a #r#'],
+      story: ['#hero# wins', '#hero# and #hero#'],
+      name: ['Ada', 'Bo'],
+      r: ['#r##r#', 'b'],
+    });
+    const all = [...engine.enumerate('origin', { name: 'Bo' }, 4)];
+    expect(all).toHaveLength(engine.countStrings('origin', { name: 'Bo' }, 4));
+    for (let offset = 0; offset <= all.length; offset++) {
+      expect([...engine.enumerate('origin', { name: 'Bo' }, 4, offset)]).toEqual(all.slice(offset));
+    }
+  });
+
+  test('countStrings matches the number of enumerated derivations for recursive rules', () => {
+    const engine = new GrammarEngine({ origin: ['#r#'], r: ['a#r#', 'b'] });
+    for (const depth of [1, 2, 3, 6]) {
+      expect(engine.countStrings('origin', {}, depth)).toBe(engine.expandAll('origin', {}, depth).length);
+    }
+  });
+});
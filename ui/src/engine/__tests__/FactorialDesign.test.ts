@@ -0,0 +1,113 @@
+import { GrammarProcessor } from '../GrammarEngine';
+import {
+  balancedCells,
+  factorialTrialsToCsv,
+  fullFactorialCells,
+  latinSquareCells,
+} from '../factorialDesign';
+import { createSeededRng, shuffle } from '../random';
+
+describe('factorial cell planning', () => {
+  const factors = { A: ['a1', 'a2'], B: ['b1', 'b2', 'b3'], C: ['c1', 'c2'] };
+
+  test('full design crosses every factor', () => {
+    const cells = fullFactorialCells(factors);
+    expect(cells).toHaveLength(12);
+    expect(new Set(cells.map((c) => JSON.stringify(c))).size).toBe(12);
+    expect(cells[0]).toEqual({ A: 'a1', B: 'b1', C: 'c1' });
+    expect(cells[1]).toEqual({ A: 'a1', B: 'b1', C: 'c2' });
+  });
+
+  test('Latin square uses each level once per row and column', () => {
+    const square = { row: ['r1', 'r2', 'r3'], col: ['k1', 'k2', 'k3'], treat: ['x', 'y', 'z'] };
+    const cells = latinSquareCells(square, createSeededRng(5));
+    expect(cells).toHaveLength(9);
+    for (const r of square.row) {
+      expect(new Set(cells.filter((c) => c.row === r).map((c) => c.treat)).size).toBe(3);
+    }
+    for (const k of square.col) {
+      expect(new Set(cells.filter((c) => c.col === k).map((c) => c.treat)).size).toBe(3);
+    }
+  });
+
+  test('Latin square rejects unequal level counts', () => {
+    expect(() => latinSquareCells(factors)).toThrow(/same number of levels/);
+    expect(() => latinSquareCells({ A: ['a'] })).toThrow(/two factors/);
+  });
+
+  test('balanced subset spreads levels evenly', () => {
+    const cells = balancedCells(factors, 6, createSeededRng(1));
+    expect(cells).toHaveLength(6);
+    const uses = (name: 'A' | 'B' | 'C', level: string) =>
+      cells.filter((c) => c[name] === level).length;
+    expect(factors.A.map((l) => uses('A', l))).toEqual([3, 3]);
+    expect(factors.B.map((l) => uses('B', l))).toEqual([2, 2, 2]);
+    expect(factors.C.map((l) => uses('C', l))).toEqual([3, 3]);
+    expect(() => balancedCells(factors, 13)).toThrow(/between 1 and 12/);
+  });
+
+  test('shuffle is a seeded permutation', () => {
+    const items = [1, 2, 3, 4, 5, 6];
+    expect(shuffle(items, createSeededRng(9))).toEqual(shuffle(items, createSeededRng(9)));
+    expect([...shuffle(items, createSeededRng(9))].sort()).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
+
+describe('GrammarProcessor.generateFactorialDesign', () => {
+  const grammar = {
+    origin: ['the #size# #color# #animal#'],
+    size: ['big', 'small'],
+    color: ['red', 'blue', 'green'],
+    animal: ['cat', 'dog'],
+  };
+  const factors = { size: ['big', 'small'], color: ['red', 'blue', 'green'], animal: ['cat', 'dog'] };
+
+  test('crosses three factors with replicates', () => {
+    const engine = new GrammarProcessor(grammar);
+    const trials = engine.generateFactorialDesign('origin', { factors, replicates: 2, seed: 3 });
+    expect(trials).toHaveLength(24);
+    expect(trials.map((t) => t.trial)).toEqual(Array.from({ length: 24 }, (_, i) => i + 1));
+    for (const t of trials) {
+      expect(t.content).toBe(`the ${t.levels.size} ${t.levels.color} ${t.levels.animal}`);
+    }
+    expect(trials.filter((t) => t.cell === 5).map((t) => t.replicate)).toEqual([1, 2]);
+  });
+
+  test('seeded runs are reproducible and randomized order keeps every trial', () => {
+    const engine = new GrammarProcessor(grammar);
+    const options = { factors, replicates: 2, seed: 11, randomizeOrder: true };
+    const a = engine.generateFactorialDesign('origin', options);
+    const b = engine.generateFactorialDesign('origin', options);
+    expect(a).toEqual(b);
+    const key = (t: { cell: number; replicate: number }) => `${t.cell}/${t.replicate}`;
+    expect(new Set(a.map(key)).size).toBe(24);
+    expect(a.map(key)).not.toEqual(
+      engine.generateFactorialDesign('origin', { ...options, randomizeOrder: false }).map(key),
+    );
+  });
+
+  test('trial seeds replay through generateWithParameters', () => {
+    const engine = new GrammarProcessor({ origin: ['#name# #mood#'], name: ['Ada', 'Bo'], mood: ['calm', 'glad', 'sad'] });
+    const [trial] = engine.generateFactorialDesign('origin', { factors: { name: ['Bo'] }, seed: 2 });
+    const replay = engine.generateWithParameters('origin', { requiredParameters: trial!.levels }, 'uniform', trial!.seed);
+    expect(replay.content).toBe(trial!.content);
+  });
+
+  test('exports a flat CSV table', () => {
+    const engine = new GrammarProcessor(grammar);
+    const trials = engine.generateFactorialDesign('origin', {
+      factors: { size: ['big'], color: ['red', 'blue'] },
+      seed: 1,
+    });
+    const lines = factorialTrialsToCsv(trials).split('\n');
+    expect(lines[0]).toBe('trial,cell,replicate,size,color,generated_text,seed');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toMatch(/^1,1,1,"big","red","the big red (cat|dog)",\d+$/);
+  });
+
+  test('rejects invalid replicate counts', () => {
+    const engine = new GrammarProcessor(grammar);
+    expect(() => engine.generateFactorialDesign('origin', { factors, replicates: 0 })).toThrow(/replicate/);
+  });
+});
@@ -217,6 +217,61 @@ describe('GrammarEngine', () => {
     });
   });
 
+  describe('Paged combinations', () => {
+    test('pages follow generateAllCombinations order', () => {
+      const all = engine.generateAllCombinations('origin').map(r => r.content);
+      const first = engine.getCombinationPage('origin', {}, 10);
+      expect(first.total).toBe(24);
+      expect(first.offset).toBe(0);
+      expect(first.previousCursor).toBeNull();
+      expect(first.results.map(r => r.content)).toEqual(all.slice(0, 10));
+
+      const second = engine.getCombinationPage('origin', {}, 10, first.nextCursor!);
+      expect(second.offset).toBe(10);
+      expect(second.results.map(r => r.content)).toEqual(all.slice(10, 20));
+
+      const last = engine.getCombinationPage('origin', {}, 10, second.nextCursor!);
+      expect(last.results.map(r => r.content)).toEqual(all.slice(20));
+      expect(last.nextCursor).toBeNull();
+
+      const back = engine.getCombinationPage('origin', {}, 10, last.previousCursor!);
+      expect(back.offset).toBe(10);
+    });
+
+    test('cursors resume on a new processor but not with other constraints', () => {
+      const { nextCursor } = engine.getCombinationPage('origin', { VP: 'eats' }, 3);
+      const resumed = new GrammarProcessor(testGrammar).getCombinationPage('origin', { VP: 'eats' }, 3, nextCursor!);
+      expect(resumed.offset).toBe(3);
+      expect(resumed.results.every(r => r.content.includes('eats'))).toBe(true);
+
+      expect(() => engine.getCombinationPage('origin', { VP: 'loves' }, 3, nextCursor!)).toThrow(/Cursor/);
+      expect(() => engine.getCombinationPage('origin', {}, 3, 'garbage')).toThrow(/Invalid cursor/);
+    });
+
+    test('combinations have stable indices', () => {
+      const all = engine.generateAllCombinations('origin', { VP: 'pets' });
+      const fifth = engine.getCombinationAt('origin', 5, { VP: 'pets' });
+      expect(fifth.content).toBe(all[5].content);
+      expect(engine.getCombinationIndex('origin', fifth, { VP: 'pets' })).toBe(5);
+      expect(engine.getCombinationIndex('origin', fifth, { VP: 'eats' })).toBe(-1);
+    });
+
+    test('generateDistinct samples without replacement with indices', () => {
+      const sample = engine.generateDistinct('origin', { VP: 'eats' }, 20, 'derivation', 4);
+      expect(sample.results).toHaveLength(8);
+      expect(sample.exhausted).toBe(true);
+      for (const result of sample.results) {
+        expect(engine.getCombinationAt('origin', result.metadata.index!, { VP: 'eats' }).content).toBe(result.content);
+      }
+    });
+
+    test('iterateCombinations starts at an offset', () => {
+      const it = engine.iterateCombinations('origin', {}, 23);
+      expect(it.next().value?.content).toBe(engine.generateAllCombinations('origin')[23].content);
+      expect(it.next().done).toBe(true);
+    });
+  });
+
   describe('Statistics', () => {
     test('should calculate correct statistics', () => {
       const stats = engine.getParameterStatistics();
@@ -229,6 +284,60 @@ describe('GrammarEngine', () => {
       expect(stats.parameterCounts.VP).toBeDefined();
       expect(stats.parameterCounts.word_order).toBeDefined();
     });
+
+    test('should count derivations per parameter value', () => {
+      const stats = engine.getParameterStatistics();
+
+      // NP is used twice per sentence: 18 of the 24 derivations have a girl somewhere
+      expect(stats.parameterCounts.NP).toEqual({ girl: 18, cat: 18 });
+      expect(stats.parameterCounts.VP).toEqual({ loves: 8, eats: 8, pets: 8 });
+      expect(stats.parameterCounts.word_order).toEqual({ SVO: 12, VSO: 12 });
+    });
+
+    test('should count only the derivations that use a value', () => {
+      const stats = new GrammarProcessor({
+        origin: ['I ate #noun#', 'nothing', 'something'],
+        noun: ['apple', '#berry#'],
+        berry: ['straw', 'rasp', 'blue'],
+      }).getParameterStatistics();
+
+      expect(stats.totalVariants).toBe(6);
+      expect(stats.parameterCounts.noun).toEqual({ apple: 1, berry: 3 });
+      expect(stats.parameterCounts.berry).toEqual({ straw: 1, rasp: 1, blue: 1 });
+    });
+
+    test('should count every derivation for a rule with a single alternative', () => {
+      const stats = new GrammarProcessor({
+        origin: ['#s# #o#'],
+        s: ['the #n#'],
+        n: ['cat', 'dog'],
+        o: ['a', 'b'],
+      }).getParameterStatistics();
+
+      // s has one alternative, so excluding it leaves no derivation: all four use it
+      expect(stats.totalVariants).toBe(4);
+      expect(stats.parameterCounts.s).toEqual({ 'the #n#': 4 });
+      expect(stats.parameterProbabilities.s).toEqual({ 'the #n#': 1 });
+      expect(stats.parameterCounts.o).toEqual({ a: 2, b: 2 });
+    });
+
+    test('should report marginal parameter distributions', () => {
+      const stats = engine.getParameterStatistics();
+
+      expect(stats.parameterProbabilities.NP).toEqual({ girl: 0.5, cat: 0.5 });
+      expect(stats.parameterProbabilities.word_order).toEqual({ SVO: 0.5, VSO: 0.5 });
+      expect(stats.parameterProbabilities.VP.loves).toBeCloseTo(1 / 3);
+    });
+
+    test('should expose the exact distribution for selected parameters', () => {
+      const distribution = engine.getProbabilityDistribution('origin', { word_order: 'SVO' });
+
+      expect(distribution.word_order.alternatives).toEqual([
+        { alternative: 'SVO', weight: 1, expected: 1, probability: 1 },
+      ]);
+      expect(distribution.VSO).toBeUndefined();
+      expect(distribution.NP.expectedVisits).toBe(2);
+    });
   });
 
   describe('Contextual Parameters', () => {
@@ -398,6 +507,33 @@ describe('GrammarEngine', () => {
     });
   });
 
+  describe('Seeded Generation', () => {
+    test('records a seed that replays the result', () => {
+      const result = engine.generateWithParameters('origin', {});
+      expect(result.metadata.seed).toBeDefined();
+
+      const replay = engine.generateWithParameters('origin', {}, 'uniform', result.metadata.seed);
+      expect(replay.content).toBe(result.content);
+      expect(replay.metadata.relevantParameters).toEqual(result.metadata.relevantParameters);
+    });
+
+    test('config.randomSeed makes successive runs reproducible', () => {
+      const a = new GrammarProcessor(testGrammar, { randomSeed: 1234 });
+      const b = new GrammarProcessor(testGrammar, { randomSeed: 1234 });
+      const runA = [1, 2, 3].map(() => a.generateWithParameters('origin', {}).content);
+      const runB = [1, 2, 3].map(() => b.generateWithParameters('origin', {}).content);
+      expect(runA).toEqual(runB);
+    });
+
+    test('generateMany with a batch seed returns the same batch', () => {
+      const first = engine.generateMany('origin', { VP: 'eats' }, 5, 'uniform', 77);
+      const second = engine.generateMany('origin', { VP: 'eats' }, 5, 'uniform', 77);
+      expect(first).toHaveLength(5);
+      expect(second.map((r) => r.content)).toEqual(first.map((r) => r.content));
+      first.forEach((r) => expect(r.content).toContain('eats'));
+    });
+  });
+
   describe('Simple Grammar Generation', () => {
     test('should generate all combinations for simple S grammar', () => {
       const simpleGrammar: GrammarRule = {
@@ -537,6 +673,58 @@ describe('GrammarEngine', () => {
     });
   });
 
+  describe('Output filters', () => {
+    const outputFilter = { mustContain: ['girl'], mustNotContain: ['eats'] };
+
+    test('generateAllCombinations drops texts the filter rejects', () => {
+      engine.setConfig({ outputFilter });
+      const texts = engine.generateAllCombinations('origin').map((r) => r.content);
+      expect(texts).toHaveLength(12);
+      expect(texts.every((t) => t.includes('girl') && !t.includes('eats'))).toBe(true);
+      expect(engine.getTotalCombinations('origin')).toBe(24);
+    });
+
+    test('getFilteredCombinations reports the acceptance rate, exactly or estimated', () => {
+      expect(engine.getFilteredCombinations('origin')).toEqual({
+        total: 24,
+        accepted: 24,
+        acceptanceRate: 1,
+        exact: true,
+      });
+      engine.setConfig({ outputFilter });
+      expect(engine.getFilteredCombinations('origin')).toEqual({
+        total: 24,
+        accepted: 12,
+        acceptanceRate: 0.5,
+        exact: true,
+      });
+      const estimate = engine.getFilteredCombinations('origin', {}, { exactLimit: 10, sampleSize: 400, seed: 3 });
+      expect(estimate.exact).toBe(false);
+      expect(estimate.acceptanceRate).toBeGreaterThan(0.4);
+      expect(estimate.acceptanceRate).toBeLessThan(0.6);
+      expect(estimate.accepted).toBe(Math.round(24 * estimate.acceptanceRate));
+    });
+
+    test('generateMany rejects until enough texts pass; results replay from their seeds', () => {
+      engine.setConfig({ outputFilter: { ...outputFilter, predicates: [(t) => t.startsWith('girl')] } });
+      const batch = engine.generateMany('origin', {}, 8, 'uniform', 42);
+      expect(batch).toHaveLength(8);
+      expect(batch.every((r) => /^girl /.test(r.content) && !r.content.includes('eats'))).toBe(true);
+      expect(engine.generateMany('origin', {}, 8, 'uniform', 42).map((r) => r.content)).toEqual(
+        batch.map((r) => r.content),
+      );
+      for (const r of batch) {
+        expect(engine.generateWithParameters('origin', {}, 'uniform', r.metadata.seed).content).toBe(r.content);
+      }
+    });
+
+    test('generateMany gives up on a filter nothing passes', () => {
+      engine.setConfig({ outputFilter: { minLength: 100 } });
+      expect(engine.generateMany('origin', {}, 3, 'uniform', 1)).toEqual([]);
+      expect(engine.getFilteredCombinations('origin').accepted).toBe(0);
+    });
+  });
+
   describe('Error Handling', () => {
     test('does not throw when a #ref# has no rule entry (counts 0)', () => {
       const broken: GrammarRule = {
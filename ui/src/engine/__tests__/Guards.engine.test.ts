@@ -0,0 +1,80 @@
+import { GrammarEngine } from '../Engine';
+
+describe('GrammarEngine guarded alternatives', () => {
+  const grammar = {
+    origin: ['#language#: #clause#'],
+    language: ['Welsh', 'English', 'Irish'],
+    clause: ['[?language=Welsh|Irish] #verb# #subject# #object#', '[?language!=Welsh|Irish] #subject# #verb# #object#'],
+    subject: ['the dog'],
+    verb: ['sees', 'likes ^3'],
+    object: ['a cat'],
+  };
+
+  test('generate only picks alternatives whose guards hold', () => {
+    const engine = new GrammarEngine(grammar);
+    for (let seed = 0; seed < 20; seed++) {
+      const { text, trace } = engine.generate('origin', {}, Infinity, seed);
+      const vso = trace.language![0] !== 'English';
+      expect(text).toMatch(vso ? /^\w+: (sees|likes) the dog/ : /^English: the dog (sees|likes)/);
+      expect(trace.clause![0]).toBe(vso ? '#verb# #subject# #object#' : '#subject# #verb# #object#');
+    }
+  });
+
+  test('countStrings, expandAll and random access agree', () => {
+    const engine = new GrammarEngine(grammar);
+    expect(engine.countStrings('origin')).toBe(6);
+    const all = engine.expandAll('origin');
+    expect(all.map((g) => g.text)).toEqual([
+      'Welsh: sees the dog a cat',
+      'Welsh: likes the dog a cat',
+      'English: the dog sees a cat',
+      'English: the dog likes a cat',
+      'Irish: sees the dog a cat',
+      'Irish: likes the dog a cat',
+    ]);
+    expect(all.map((g) => engine.indexOf(g.trace))).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(engine.nthString(3).text).toBe('English: the dog likes a cat');
+    expect(engine.languageSize('origin').count).toBe(6);
+  });
+
+  test('weighted generation and the distribution follow the guards', () => {
+    const engine = new GrammarEngine(grammar);
+    const { text } = engine.generate('origin', { language: 'English' }, Infinity, 1, 'weighted');
+    expect(text).toMatch(/^English: the dog/);
+    const clause = engine.probabilityDistribution('origin').clause!;
+    expect(clause.alternatives.map((a) => a.expected)).toEqual([2 / 3, 1 / 3]);
+  });
+
+  test('a guard on a rule not chosen yet: = fails, != holds', () => {
+    const engine = new GrammarEngine({
+      origin: ['#early# #mood#', '#mood# #early#'],
+      early: ['a'],
+      mood: ['[?early=a] seen', '[?early!=a] unseen'],
+    });
+    expect(engine.expandAll('origin').map((g) => g.text)).toEqual(['a seen', 'unseen a']);
+    expect(engine.countStrings('origin')).toBe(2);
+  });
+
+  test('generate rejects derivations where guards leave no alternative', () => {
+    const engine = new GrammarEngine({
+      origin: ['#language# #order#'],
+      language: ['English', 'Welsh'],
+      order: ['[?language=Welsh] VSO'],
+    });
+    const texts = engine.expandAll('origin').map((g) => g.text);
+    expect(texts).toEqual(['Welsh VSO']);
+    expect(engine.countStrings('origin')).toBe(1);
+    for (const strategy of ['uniform', 'weighted'] as const) {
+      for (let seed = 0; seed < 20; seed++) {
+        expect(texts).toContain(engine.generate('origin', {}, Infinity, seed, strategy).text);
+      }
+    }
+    expect(() => engine.generate('origin', { language: 'English' }, Infinity, 1)).toThrow(/guards/);
+  });
+
+  test('distinct-string estimates reject guarded grammars', () => {
+    const engine = new GrammarEngine(grammar);
+    expect(engine.countDistinctStrings('origin').count).toBe(6);
+    expect(() => engine.countDistinctStrings('origin', {}, Infinity, { exactLimit: 1 })).toThrow(/guards/);
+  });
+});
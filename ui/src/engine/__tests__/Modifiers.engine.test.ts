@@ -63,3 +63,80 @@ describe('GrammarProcessor processModifiers', () => {
     expect(r.metadata.modifierApplications![0].resultText).toBe('Hi');
   });
 });
+
+describe('modifier registries', () => {
+  test('GrammarEngine uses the registry it is given', () => {
+    const engine = new GrammarEngine(
+      { origin: ['#w.shout#'], w: ['hi'] },
+      { shout: (s) => `${s.toUpperCase()}!` },
+    );
+    expect(engine.generate('origin', {}, Infinity, () => 0, 'uniform', true).text).toBe('HI!');
+    expect(engine.expandAll('origin', {}, Infinity, Infinity, true)[0].text).toBe('HI!');
+  });
+
+  test('GrammarProcessor applies $modifiers and keeps it out of rules and parameters', () => {
+    const proc = new GrammarProcessor(
+      {
+        origin: ['#city.el# / #town.gen#'],
+        city: ['ciudad', 'pueblo'],
+        town: ['Москва'],
+        $modifiers: ['@pack es', 'gen: а -> ы'],
+      },
+      { processModifiers: true },
+    );
+    expect(proc.generateAllCombinations('origin').map((r) => r.content)).toEqual([
+      'la ciudad / Москвы',
+      'el pueblo / Москвы',
+    ]);
+    expect(Object.keys(proc.getParameters())).not.toContain('$modifiers');
+    expect(proc.getLanguageSize('origin').count).toBe(2);
+  });
+
+  test('config packs and custom modifiers; custom ones win', () => {
+    const grammar = { origin: ['#n.der# #n.s#'], n: ['Hund'], $modifiers: ['s: -> e'] };
+    const proc = new GrammarProcessor(grammar, { processModifiers: true, modifierPacks: ['de'] });
+    expect(proc.generateWithParameters('origin', {}).content).toBe('der Hund Hunde');
+
+    proc.setConfig({ modifiers: { s: (s) => `${s}s` } });
+    expect(proc.generateWithParameters('origin', {}).content).toBe('der Hund Hunds');
+  });
+});
+
+describe('modifier arguments', () => {
+  const grammar = {
+    origin: ['#text.replace(#old#, #new#)#'],
+    text: ['one cat, one dog'],
+    old: ['one', 'cat'],
+    new: ['two', 'a'],
+  };
+
+  test('placeholder arguments are expanded before the modifier runs', () => {
+    const engine = new GrammarEngine(grammar);
+    const g = engine.generate('origin', {}, Infinity, () => 0, 'uniform', true);
+    expect(g.text).toBe('two cat, two dog');
+    expect(g.modifierApplications).toEqual([
+      {
+        rule: 'text',
+        expandedText: 'one cat, one dog',
+        modifiers: ['replace(#old#, #new#)'],
+        resultText: 'two cat, two dog',
+      },
+    ]);
+  });
+
+  test('expandAll and counting take every argument choice into account', () => {
+    const engine = new GrammarEngine(grammar);
+    expect(engine.expandAll('origin', {}, Infinity, Infinity, true).map((r) => r.text)).toEqual([
+      'two cat, two dog',
+      'a cat, a dog',
+      'one two, one dog',
+      'one a, one dog',
+    ]);
+    expect(engine.countStrings('origin')).toBe(4);
+  });
+
+  test('quoted arguments keep commas, dots and parentheses', () => {
+    const engine = new GrammarEngine({ origin: ['#list.replace(", ", " and ").replace(".", "(!)")#'], list: ['a, b.'] });
+    expect(engine.generate('origin', {}, Infinity, () => 0, 'uniform', true).text).toBe('a and b(!)');
+  });
+});
@@ -57,6 +57,25 @@ describe('ParameterExtractor', () => {
       expect(parameters.animal).toBeUndefined(); // Single alternative
       expect(parameters.sentence).toBeUndefined(); // References non-parameter
     });
+
+    test('should strip guards from values and list the parameters they depend on', () => {
+      const grammar: GrammarRule = {
+        "language": ["Welsh", "English"],
+        "order": ["[?language=Welsh] #VSO# ^2", "[?language!=Welsh] SVO"],
+        "VSO": ["verb subject object"]
+      };
+
+      const parameters = extractor.extractParameters(grammar);
+
+      expect(parameters.order.values).toEqual(['VSO', 'SVO']);
+      expect(parameters.order.weights).toEqual([2, 1]);
+      expect(parameters.order.dependsOn).toEqual(['language']);
+      expect(parameters.order.guards).toEqual([
+        [{ rule: 'language', values: ['Welsh'], negate: false }],
+        [{ rule: 'language', values: ['Welsh'], negate: true }],
+      ]);
+      expect(parameters.language.dependsOn).toBeUndefined();
+    });
   });
 
   describe('Combination Generation', () => {
@@ -152,6 +171,35 @@ describe('ParameterExtractor', () => {
     });
   });
 
+  describe('Weights', () => {
+    test('should strip weights from values and report them', () => {
+      const grammar: GrammarRule = {
+        "child": ["girl ^3", "boy", "#pet# ^2"],
+        "pet": ["cat", "dog"]
+      };
+
+      const parameters = extractor.extractParameters(grammar);
+
+      expect(parameters.child.values).toEqual(['girl', 'boy', 'pet']);
+      expect(parameters.child.weights).toEqual([3, 1, 2]);
+      expect(parameters.pet.weights).toBeUndefined();
+    });
+
+    test('should keep weights aligned when excluding values', () => {
+      const grammar: GrammarRule = {
+        "child": ["girl ^3", "boy", "kid ^2"]
+      };
+
+      const parameters = extractor.extractParameters(grammar);
+      const filtered = extractor.filterParameters(parameters, {
+        excluded: { child: ['boy'] }
+      });
+
+      expect(filtered.child.values).toEqual(['girl', 'kid']);
+      expect(filtered.child.weights).toEqual([3, 2]);
+    });
+  });
+
   describe('Contextual Parameters', () => {
     test('should extract contextual parameters', () => {
       const grammar: GrammarRule = {
@@ -0,0 +1,63 @@
+import { GrammarEngine } from '../Engine';
+
+describe('GrammarEngine.nthString / indexOf', () => {
+  const grammar = {
+    origin: ['#word_order#'],
+    word_order: ['#SP# #VP# #OP#', '#VP# #SP# #OP#'],
+    SP: ['#NP#'],
+    OP: ['#NP#'],
+    NP: ['girl', 'cat'],
+    VP: ['loves', 'eats', 'pets'],
+  };
+
+  test('nthString is the nth result of expandAll and indexOf inverts it', () => {
+    const engine = new GrammarEngine(grammar);
+    const all = engine.expandAll('origin');
+    all.forEach((g, i) => {
+      expect(engine.nthString(i)).toEqual(g);
+      expect(engine.indexOf(g.trace)).toBe(i);
+    });
+  });
+
+  test('indices are relative to the constrained language', () => {
+    const engine = new GrammarEngine(grammar);
+    const constraints = { excludedParameters: { VP: ['loves'] }, requiredParameters: { NP: 'cat' } };
+    const all = engine.expandAll('origin', constraints);
+    expect(all).toHaveLength(4);
+    all.forEach((g, i) => {
+      expect(engine.nthString(i, 'origin', constraints)).toEqual(g);
+      expect(engine.indexOf(g.trace, 'origin', constraints)).toBe(i);
+    });
+    expect(engine.indexOf(engine.nthString(0).trace, 'origin', constraints)).toBe(-1);
+  });
+
+  test('works with actions and large spaces', () => {
+    const stories = new GrammarEngine({
+      origin: ['#[hero:#name#,#pet#]story#'],
+      story: ['#hero# meets #hero#', '#hero# alone'],
+      name: ['Ada', 'Bo', 'Cy'],
+      pet: ['owl', 'cat'],
+    });
+    stories.expandAll('origin').forEach((g, i) => expect(stories.indexOf(g.trace)).toBe(i));
+
+    const digits = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+    const big = new GrammarEngine({ origin: ['#d##d##d##d##d##d##d##d##d##d##d##d#'], d: digits });
+    const g = big.nthString(271828182845);
+    expect(g.text).toBe('271828182845');
+    expect(big.indexOf(g.trace)).toBe(271828182845);
+  });
+
+  test('identical alternatives share a label, so their traces rank as the first one', () => {
+    const engine = new GrammarEngine({ origin: ['#x#'], x: ['same', 'same'] });
+    expect(engine.indexOf(engine.nthString(1).trace)).toBe(0);
+  });
+
+  test('rejects out-of-range indices and foreign traces', () => {
+    const engine = new GrammarEngine(grammar);
+    expect(() => engine.nthString(24)).toThrow(/out of range \(24/);
+    expect(() => engine.nthString(-1)).toThrow(/Invalid index/);
+    expect(engine.indexOf({ origin: ['word_order'], word_order: ['nonsense'] })).toBe(-1);
+    const trace = engine.nthString(3).trace;
+    expect(engine.indexOf({ ...trace, VP: [...trace.VP!, 'eats'] })).toBe(-1);
+  });
+});
@@ -0,0 +1,137 @@
+import { GrammarEngine } from '../Engine';
+import { GrammarProcessor } from '../GrammarEngine';
+
+describe('Recursion', () => {
+  // list → "x", "x, x", "x, x, x", …: one more item per level
+  const list = { origin: ['#list#'], list: ['x', '#list#, x'] };
+
+  test('finds rules on reachable recursive cycles', () => {
+    expect(new GrammarEngine(list).recursiveRules()).toEqual(['list']);
+    const mutual = new GrammarEngine({ origin: ['#a#'], a: ['#b#', 'x'], b: ['(#a#)'], other: ['#other#', 'y'] });
+    expect(mutual.recursiveRules()).toEqual(['a', 'b']);
+    expect(mutual.recursiveRules('other')).toEqual(['other']);
+  });
+
+  test('cycles that cannot finish or are cut by constraints are not recursion', () => {
+    const loop = new GrammarEngine({ origin: ['#loop#', 'x'], loop: ['#loop#'] });
+    expect(loop.recursiveRules()).toEqual([]);
+    expect(new GrammarEngine(list).recursiveRules('origin', { list: 'x' })).toEqual([]);
+  });
+
+  test('without a depth limit, recursive grammars count as Infinity instead of overflowing', () => {
+    const engine = new GrammarEngine(list);
+    expect(engine.countStrings()).toBe(Infinity);
+    expect(engine.countStrings('origin', undefined, 3)).toBe(3);
+    expect(engine.countStrings('origin', { list: 'x' })).toBe(1);
+  });
+
+  test('cycles that never finish count 0 without a depth limit', () => {
+    const engine = new GrammarEngine({ origin: ['#loop#', 'x'], loop: ['#loop#'] });
+    expect(engine.countStrings()).toBe(1);
+    expect(engine.expandAll().map((g) => g.text)).toEqual(['x']);
+  });
+
+  test('enumeration and sampling ask for a depth limit', () => {
+    const engine = new GrammarEngine(list);
+    expect(() => engine.expandAll()).toThrow('pass a finite maxDepth');
+    expect(() => engine.nthString(0)).toThrow('infinitely many derivations through recursive rules (list)');
+    expect(() => engine.sampleDistinct(2)).toThrow('pass a finite maxDepth');
+    expect(() => engine.generate('origin', undefined, Infinity, 1, 'weighted')).toThrow('pass a finite maxDepth');
+    expect(engine.expandAll('origin', undefined, 2).map((g) => g.text)).toEqual(['x', 'x, x']);
+  });
+
+  test('uniform generation redraws derivations the depth limit cuts off', () => {
+    const engine = new GrammarEngine({ origin: ['#np#'], np: ['the cat', 'the cat that saw #np#'] });
+    const texts = engine.expandAll('origin', undefined, 3).map((g) => g.text);
+    expect(texts).toEqual(['the cat', 'the cat that saw the cat', 'the cat that saw the cat that saw the cat']);
+    for (let seed = 0; seed < 50; seed++) {
+      const { text, trace } = engine.generate('origin', undefined, 3, seed);
+      expect(texts).toContain(text);
+      expect(engine.indexOf(trace, 'origin', undefined, 3)).toBe(texts.indexOf(text));
+    }
+  });
+
+  test('languageSize reports infinite grammars with counts per depth', () => {
+    const engine = new GrammarEngine(list);
+    expect(engine.languageSize('origin', undefined, 4)).toEqual({
+      count: 4,
+      infinite: true,
+      recursiveRules: ['list'],
+      depthCounts: [0, 1, 1, 1, 1],
+    });
+    expect(engine.languageSize()).toEqual({
+      count: Infinity,
+      infinite: true,
+      recursiveRules: ['list'],
+      depthCounts: [],
+    });
+  });
+
+  test('languageSize measures finite grammars to their full depth', () => {
+    const engine = new GrammarEngine({ origin: ['#a# #b#', 'z'], a: ['#b#', 'q'], b: ['1', '2'] });
+    expect(engine.languageSize()).toEqual({
+      count: 7,
+      infinite: false,
+      recursiveRules: [],
+      depthCounts: [1, 2, 4],
+    });
+    expect(engine.languageSize('origin', undefined, 1).depthCounts).toEqual([1, 2]);
+  });
+
+  test('depth counts add up to countStrings', () => {
+    const engine = new GrammarEngine({ origin: ['#e#'], e: ['#e# + #e#', 'n'] });
+    const { count, depthCounts } = engine.languageSize('origin', undefined, 4);
+    expect(depthCounts.reduce((a, b) => a + b, 0)).toBe(count);
+    expect(count).toBe(engine.countStrings('origin', undefined, 4));
+    expect(depthCounts).toEqual([0, 1, 1, 3, 21]);
+  });
+});
+
+describe('GrammarProcessor depth limit', () => {
+  const list = { origin: ['#list#'], list: ['x', '#list#, x'] };
+
+  test('config.maxDepth bounds counting, enumeration and paging', () => {
+    const processor = new GrammarProcessor(list, { maxDepth: 3 });
+    expect(processor.getTotalCombinations('origin')).toBe(3);
+    expect(processor.generateAllCombinations('origin').map((r) => r.content)).toEqual(['x', 'x, x', 'x, x, x']);
+    expect(processor.getCombinationPage('origin', undefined, 2).nextCursor).not.toBeNull();
+    expect(processor.getCombinationAt('origin', 2).content).toBe('x, x, x');
+  });
+
+  test('the default depth of 10 applies', () => {
+    const processor = new GrammarProcessor(list);
+    expect(processor.getTotalCombinations('origin')).toBe(10);
+    expect(processor.generateWithParameters('origin', {}, 'weighted').content).toMatch(/^x(, x)*$/);
+  });
+
+  test('the default depth applies only to grammars that recurse', () => {
+    // r0 → r1 → … → r13 → "end", each level with a way out: 14 levels, no recursion
+    const chain: Record<string, string[]> = { origin: ['#r0#'], r13: ['end'] };
+    for (let i = 0; i < 13; i++) chain[`r${i}`] = [`#r${i + 1}#`, `stop ${i}`];
+    const processor = new GrammarProcessor(chain);
+    expect(processor.getDepthLimit('origin')).toBe(Infinity);
+    expect(processor.getTotalCombinations('origin')).toBe(14);
+    expect(processor.generateAllCombinations('origin').map((r) => r.content)).toContain('end');
+    const deepest = Object.fromEntries(Array.from({ length: 13 }, (_, i) => [`r${i}`, `#r${i + 1}#`]));
+    expect(processor.generateWithParameters('origin', deepest).content).toBe('end');
+    expect(processor.getTotalCombinations('origin', deepest)).toBe(1);
+
+    expect(new GrammarProcessor(list).getDepthLimit('origin')).toBe(10);
+    expect(new GrammarProcessor(chain, { maxDepth: 10 }).getTotalCombinations('origin')).toBe(10);
+  });
+
+  test('getLanguageSize and statistics describe derivation depth', () => {
+    const processor = new GrammarProcessor(list, { maxDepth: 4 });
+    expect(processor.getLanguageSize('origin')).toMatchObject({ count: 4, infinite: true, depthCounts: [0, 1, 1, 1, 1] });
+    const stats = processor.getParameterStatistics();
+    expect(stats.totalVariants).toBe(4);
+    expect(stats.maxDepth).toBe(4);
+    expect(stats.averageDepth).toBe(2.5);
+  });
+
+  test('cursors do not carry over to another depth limit', () => {
+    const page = new GrammarProcessor(list, { maxDepth: 4 }).getCombinationPage('origin', undefined, 2);
+    const other = new GrammarProcessor(list, { maxDepth: 5 });
+    expect(() => other.getCombinationPage('origin', undefined, 2, page.nextCursor!)).toThrow('different grammar');
+  });
+});
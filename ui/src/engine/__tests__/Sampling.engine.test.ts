@@ -0,0 +1,64 @@
+import { GrammarEngine } from '../Engine';
+
+describe('GrammarEngine.sampleDistinct', () => {
+  const grammar = {
+    origin: ['#NP# #VP# #NP#'],
+    NP: ['girl', 'cat'],
+    VP: ['loves', 'eats', 'pets'],
+  };
+
+  test('draws distinct derivations that replay by index', () => {
+    const engine = new GrammarEngine(grammar);
+    const sample = engine.sampleDistinct(8, 'origin', {}, Infinity, 'derivation', false, 3);
+    expect(sample.results).toHaveLength(8);
+    expect(new Set(sample.results.map((g) => g.index)).size).toBe(8);
+    for (const g of sample.results) {
+      expect(engine.nthString(g.index!).text).toBe(g.text);
+    }
+    expect(sample.drawn).toBe(8);
+    expect(sample.exhausted).toBe(false);
+    expect(engine.sampleDistinct(8, 'origin', {}, Infinity, 'derivation', false, 3)).toEqual(sample);
+  });
+
+  test('asking for more than exists returns every derivation once', () => {
+    const engine = new GrammarEngine(grammar);
+    const sample = engine.sampleDistinct(100, 'origin', { VP: 'eats' }, Infinity, 'derivation', false, 1);
+    expect(sample.results.map((g) => g.text).sort()).toEqual(
+      engine.expandAll('origin', { VP: 'eats' }).map((g) => g.text).sort(),
+    );
+    expect(sample.exhausted).toBe(true);
+  });
+
+  test('text mode reports derivations that collapse to the same string', () => {
+    const engine = new GrammarEngine({ origin: ['#a##b#'], a: ['x', 'xy'], b: ['yz', 'z'] });
+    const sample = engine.sampleDistinct(10, 'origin', {}, Infinity, 'text', false, 5);
+    expect(sample.results.map((g) => g.text).sort()).toEqual(['xyyz', 'xyz', 'xz']);
+    expect(sample.drawn).toBe(4);
+    expect(sample.collapsed).toBe(1);
+    expect(sample.collapsedByText).toEqual({ xyz: 1 });
+    expect(sample.exhausted).toBe(true);
+  });
+
+  test('maxDraws bounds the work in text mode', () => {
+    const engine = new GrammarEngine({ origin: ['#a##a##a#'], a: ['x', 'x', 'x', 'x'] });
+    const sample = engine.sampleDistinct(2, 'origin', {}, Infinity, 'text', false, 1, 10);
+    expect(sample.results).toHaveLength(1);
+    expect(sample.drawn).toBe(10);
+    expect(sample.collapsed).toBe(9);
+    expect(sample.exhausted).toBe(false);
+  });
+
+  test('samples from spaces far too large to enumerate', () => {
+    const digits = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+    const engine = new GrammarEngine({ origin: ['#d##d##d##d##d##d##d##d##d##d##d##d##d##d#'], d: digits });
+    const sample = engine.sampleDistinct(50, 'origin', {}, Infinity, 'derivation', false, 9);
+    expect(new Set(sample.results.map((g) => g.text)).size).toBe(50);
+    expect(sample.results.every((g) => g.text === String(g.index).padStart(14, '0'))).toBe(true);
+  });
+
+  test('generateMany with unique ends even when derivations share texts', () => {
+    const engine = new GrammarEngine({ origin: ['#a#', '#b#'], a: ['same', 'other'], b: ['same'] });
+    const results = engine.generateMany(5, 'origin', {}, true, Infinity, 'uniform', false, 2);
+    expect(results.map((g) => g.text).sort()).toEqual(['other', 'same']);
+  });
+});
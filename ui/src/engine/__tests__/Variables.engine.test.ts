@@ -0,0 +1,59 @@
+import { GrammarEngine } from '../Engine';
+import { GrammarProcessor } from '../GrammarEngine';
+
+describe('GrammarEngine variables', () => {
+  const grammar = {
+    origin: ['#subject#, and #verb#.'],
+    subject: ['#hero=name# met #friend=name#'],
+    verb: ['#$hero# thanked #$friend.capitalize#'],
+    name: ['ada', 'bo'],
+  };
+
+  test('a bound value repeats verbatim in a later rule and goes through modifiers', () => {
+    const engine = new GrammarEngine(grammar);
+    const g = engine.generate('origin', {}, Infinity, () => 0, 'uniform', true);
+    expect(g.text).toBe('ada met ada, and ada thanked Ada.');
+    expect(g.bindings).toEqual({ hero: 'ada', friend: 'ada' });
+    expect(g.trace).toEqual({
+      origin: ['#subject#, and #verb#.'],
+      subject: ['#hero=name# met #friend=name#'],
+      name: ['ada', 'ada'],
+      $hero: ['ada', 'ada'],
+      $friend: ['ada', 'ada'],
+      verb: ['#$hero# thanked #$friend.capitalize#'],
+    });
+  });
+
+  test('counting and enumeration choose each bound value once', () => {
+    const engine = new GrammarEngine(grammar);
+    expect(engine.countStrings('origin')).toBe(4);
+    const all = engine.expandAll('origin', {}, Infinity, Infinity, true);
+    expect(all.map((g) => g.text)).toEqual([
+      'ada met ada, and ada thanked Ada.',
+      'ada met bo, and ada thanked Bo.',
+      'bo met ada, and bo thanked Ada.',
+      'bo met bo, and bo thanked Bo.',
+    ]);
+    expect(all[1]!.bindings).toEqual({ hero: 'ada', friend: 'bo' });
+    expect(all.map((g) => engine.indexOf(g.trace))).toEqual([0, 1, 2, 3]);
+  });
+
+  test('the binding stores the text before modifiers; rebinding replaces it', () => {
+    const engine = new GrammarEngine({ origin: ['#x=a.capitalize# #$x# #x=b# #$x#'], a: ['cat'], b: ['dog'] });
+    const g = engine.generate('origin', {}, Infinity, 0, 'uniform', true);
+    expect(g.text).toBe('Cat cat dog dog');
+    expect(g.bindings).toEqual({ x: 'dog' });
+  });
+
+  test('an action binds without output; unbound variables expand to nothing', () => {
+    const engine = new GrammarEngine({ origin: ['[#x=a#]<#$x#><#$y#>'], a: ['cat'] });
+    expect(engine.generate('origin', {}, Infinity, 0).text).toBe('<cat><>');
+  });
+
+  test('results of GrammarProcessor carry bindings in metadata', () => {
+    const proc = new GrammarProcessor(grammar);
+    const [result] = proc.generateAllCombinations('origin');
+    expect(result!.metadata.bindings).toEqual({ hero: 'ada', friend: 'ada' });
+    expect(result!.metadata.appliedRules.$hero).toEqual(['ada', 'ada']);
+  });
+});
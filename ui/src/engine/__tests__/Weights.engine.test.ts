@@ -0,0 +1,55 @@
+import { GrammarEngine } from '../Engine';
+
+describe('GrammarEngine alternative weights', () => {
+  const kids = {
+    origin: ['#child#'],
+    child: ['girl ^3', 'boy'],
+  };
+
+  test('weights do not change counting or enumeration', () => {
+    const engine = new GrammarEngine(kids);
+    expect(engine.countStrings('origin')).toBe(2);
+    expect(engine.expandAll('origin').map((g) => g.text).sort()).toEqual(['boy', 'girl']);
+  });
+
+  test('uniform strategy samples in proportion to weights', () => {
+    const engine = new GrammarEngine(kids);
+    const results = engine.generateMany(2000, 'origin', {}, false, Infinity, 'uniform', false, 7);
+    const girls = results.filter((r) => r.text === 'girl').length;
+    expect(girls / results.length).toBeGreaterThan(0.7);
+    expect(girls / results.length).toBeLessThan(0.8);
+  });
+
+  test('weight 0 is never sampled', () => {
+    const engine = new GrammarEngine({ origin: ['a ^0', 'b'] });
+    for (let seed = 0; seed < 50; seed++) {
+      expect(engine.generate('origin', {}, Infinity, seed).text).toBe('b');
+    }
+  });
+
+  test('constraints match alternatives without their weight', () => {
+    const engine = new GrammarEngine(kids);
+    const { text, trace } = engine.generate('origin', { child: 'girl' }, Infinity, 1);
+    expect(text).toBe('girl');
+    expect(trace.child).toEqual(['girl']);
+  });
+
+  test('countAlternatives reports weights, counts and probabilities', () => {
+    const engine = new GrammarEngine({
+      origin: ['#pet# ^2', 'nobody'],
+      pet: ['cat', 'dog', 'owl'],
+    });
+    expect(engine.countAlternatives('origin')).toEqual([
+      { alternative: 'pet', weight: 2, count: 3, probability: 2 / 3 },
+      { alternative: 'nobody', weight: 1, count: 1, probability: 1 / 3 },
+    ]);
+    const weighted = engine.countAlternatives('origin', {}, Infinity, 'weighted');
+    expect(weighted.map((a) => a.probability)).toEqual([6 / 7, 1 / 7]);
+  });
+
+  test('rules sharing a first alternative are counted separately', () => {
+    const engine = new GrammarEngine({ origin: ['#A# #B#'], A: ['x', 'y'], B: ['x'] });
+    expect(engine.countStrings('origin')).toBe(2);
+    expect(engine.expandAll('origin')).toHaveLength(2);
+  });
+});
@@ -15,6 +15,13 @@ describe("parseModifierSegment", () => {
       params: ["hello", "world"],
     });
   });
+
+  test("quoted params keep commas and parentheses", () => {
+    expect(parseModifierSegment('replace(", ", " (and) ")')).toEqual({
+      name: "replace",
+      params: [", ", " (and) "],
+    });
+  });
 });
 
 describe("DEFAULT_ENGLISH_MODIFIERS", () => {
@@ -57,6 +64,120 @@ describe("DEFAULT_ENGLISH_MODIFIERS", () => {
   });
 });
 
+describe("extra English modifiers", () => {
+  const m = DEFAULT_ENGLISH_MODIFIERS;
+
+  test("a: silent h takes an, yoo/w sounds take a", () => {
+    expect(m.a("hour", [])).toBe("an hour");
+    expect(m.a("honest man", [])).toBe("an honest man");
+    expect(m.a("university", [])).toBe("a university");
+    expect(m.a("European", [])).toBe("a European");
+    expect(m.a("one-off", [])).toBe("a one-off");
+    expect(m.a("one", [])).toBe("a one");
+    expect(m.a("once-famous band", [])).toBe("a once-famous band");
+    expect(m.a("onerous task", [])).toBe("an onerous task");
+    expect(m.a("Onion", [])).toBe("an Onion");
+    expect(m.a("user", [])).toBe("a user");
+    expect(m.a("uncle", [])).toBe("an uncle");
+    expect(m.a("house", [])).toBe("a house");
+  });
+
+  test("ing: drops silent e, ie → y, doubles short CVC words", () => {
+    expect(m.ing("walk", [])).toBe("walking");
+    expect(m.ing("make", [])).toBe("making");
+    expect(m.ing("see", [])).toBe("seeing");
+    expect(m.ing("be", [])).toBe("being");
+    expect(m.ing("lie", [])).toBe("lying");
+    expect(m.ing("run", [])).toBe("running");
+    expect(m.ing("stop", [])).toBe("stopping");
+    expect(m.ing("fix", [])).toBe("fixing");
+    expect(m.ing("play", [])).toBe("playing");
+    expect(m.ing("open", [])).toBe("opening");
+    expect(m.ing("quit", [])).toBe("quitting");
+    expect(m.ing("squat", [])).toBe("squatting");
+    expect(m.ing("quiz", [])).toBe("quizzing");
+  });
+
+  test("possessive", () => {
+    expect(m.possessive("cat", [])).toBe("cat's");
+    expect(m.possessive("cats", [])).toBe("cats'");
+    expect(m.possessive("James", [])).toBe("James'");
+  });
+
+  test("upper, lower", () => {
+    expect(m.upper("Hello world", [])).toBe("HELLO WORLD");
+    expect(m.lower("Hello World", [])).toBe("hello world");
+  });
+
+  test("titleCase keeps minor words lower in the middle only", () => {
+    expect(m.titleCase("the lord of the rings", [])).toBe("The Lord of the Rings");
+    expect(m.titleCase("what it is for", [])).toBe("What It Is For");
+    expect(m.titleCase("a NASA mission", [])).toBe("A NASA Mission");
+  });
+
+  test("trim collapses whitespace", () => {
+    expect(m.trim("  a   big \t cat ", [])).toBe("a big cat");
+  });
+
+  test("spell: integers, negatives and decimals; other text unchanged", () => {
+    expect(m.spell("0", [])).toBe("zero");
+    expect(m.spell("7", [])).toBe("seven");
+    expect(m.spell("42", [])).toBe("forty-two");
+    expect(m.spell("100", [])).toBe("one hundred");
+    expect(m.spell("1204", [])).toBe("one thousand two hundred four");
+    expect(m.spell("3000015", [])).toBe("three million fifteen");
+    expect(m.spell("-3.05", [])).toBe("minus three point zero five");
+    expect(m.spell("many", [])).toBe("many");
+  });
+
+  test("ordinal: digits get a suffix, spelled numbers change their last word", () => {
+    expect(["1", "2", "3", "4", "11", "12", "13", "21", "102", "111"].map((n) => m.ordinal(n, []))).toEqual([
+      "1st", "2nd", "3rd", "4th", "11th", "12th", "13th", "21st", "102nd", "111th",
+    ]);
+    expect(m.ordinal("twenty-one", [])).toBe("twenty-first");
+    expect(m.ordinal("twelve", [])).toBe("twelfth");
+    expect(m.ordinal("forty", [])).toBe("fortieth");
+    expect(m.ordinal("one hundred", [])).toBe("one hundredth");
+    expect(m.ordinal("cat", [])).toBe("cat");
+    expect(applyModifierPipeline("21", ["spell", "ordinal"], m)).toBe("twenty-first");
+  });
+
+  test("pluralize: irregular, uncountable, -is, sibilants, then s", () => {
+    expect(m.pluralize("child", [])).toBe("children");
+    expect(m.pluralize("old Man", [])).toBe("old Men");
+    expect(m.pluralize("wolf", [])).toBe("wolves");
+    expect(m.pluralize("potato", [])).toBe("potatoes");
+    expect(m.pluralize("sheep", [])).toBe("sheep");
+    expect(m.pluralize("crisis", [])).toBe("crises");
+    expect(m.pluralize("church", [])).toBe("churches");
+    expect(m.pluralize("city", [])).toBe("cities");
+    expect(m.pluralize("roof", [])).toBe("roofs");
+  });
+
+  test("slug", () => {
+    expect(m.slug("  Héllo, Wörld! 2024 ", [])).toBe("hello-world-2024");
+  });
+
+  test("escapeXml", () => {
+    expect(m.escapeXml(`<a href="x">Tom & Jerry's</a>`, [])).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;",
+    );
+  });
+
+  test("escapeJson", () => {
+    expect(m.escapeJson('say "hi"\n\\', [])).toBe('say \\"hi\\"\\n\\\\');
+  });
+
+  test("truncate(n) and truncate(n,suffix)", () => {
+    expect(m.truncate("hello world", ["5"])).toBe("hello…");
+    expect(m.truncate("hello world", ["6"])).toBe("hello…");
+    expect(m.truncate("hello", ["5"])).toBe("hello");
+    expect(m.truncate("hello world", ["3", "..."])).toBe("hel...");
+    expect(m.truncate("hello", [])).toBe("hello");
+    expect(applyModifierPipeline("hello world", ["truncate(5)"], m)).toBe("hello…");
+  });
+});
+
 describe("applyModifierPipeline", () => {
   test("applies chain in order", () => {
     const r = applyModifierPipeline("hello", ["capitalize"], DEFAULT_ENGLISH_MODIFIERS);
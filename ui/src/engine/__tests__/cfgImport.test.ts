@@ -0,0 +1,127 @@
+import { importContextFreeGrammar } from '../cfgImport';
+import { GrammarEngine } from '../Engine';
+import { exportGrammar } from '../grammarExport';
+
+describe('importContextFreeGrammar', () => {
+  test('NLTK productions become rules of words; origin is added for the first rule', () => {
+    const { grammar, report } = importContextFreeGrammar(`
+      # a toy grammar
+      S -> NP VP
+      NP -> Det N | NP PP
+      VP -> V NP | V
+      Det -> 'the' | 'a'
+      N -> 'dog' | "cat's toy"
+      V -> 'saw'
+      V -> ε
+      PP -> P NP
+      P -> in
+    `);
+    expect(grammar).toEqual({
+      origin: ['#S#'],
+      S: ['#NP# #VP#'],
+      NP: ['#Det# #N#', '#NP# #PP#'],
+      VP: ['#V# #NP#', '#V#'],
+      Det: ['the', 'a'],
+      N: ['dog', "cat's toy"],
+      V: ['saw', ''],
+      PP: ['#P# #NP#'],
+      P: ['in'],
+    });
+    expect(report).toEqual([
+      { code: 'added-rule', rule: 'origin', line: 3, message: '"origin" is added as the start rule; it expands S' },
+      { code: 'undefined-symbol', rule: 'P', line: 11, message: '"in" has no rule; it is imported as text' },
+    ]);
+  });
+
+  test('BNF angle-bracket names are renamed; optional and repeated parts carry their spaces', () => {
+    const { grammar, report } = importContextFreeGrammar(`
+      <sentence> ::= [ "sadly" ] <noun phrase> runs { <adverb> } ;
+      <noun phrase> ::= the dog | a cat
+      <adverb> ::= "fast" | "#1"
+    `);
+    expect(grammar).toEqual({
+      origin: ['#sentence#'],
+      sentence: ['#sentence_opt##noun_phrase# runs#sentence_rep#'],
+      noun_phrase: ['the dog', 'a cat'],
+      adverb: ['fast', '\\#1'],
+      sentence_opt: ['', 'sadly '],
+      sentence_rep: ['', ' #adverb##sentence_rep#'],
+    });
+    expect(report.map((note) => `${note.code} ${note.rule}`)).toEqual([
+      'renamed-rule noun_phrase',
+      'added-rule origin',
+      'added-rule sentence_opt',
+      'added-rule sentence_rep',
+    ]);
+    const engine = new GrammarEngine(grammar);
+    const texts = new Set(Array.from({ length: 60 }, (_, seed) => engine.generate('origin', {}, 20, seed).text));
+    expect(texts).toContain('the dog runs');
+    expect([...texts].every((text) => /^(sadly )?(the dog|a cat) runs( fast| #1)*$/.test(text))).toBe(true);
+  });
+
+  test('joining words trims the whitespace quoted text has at its ends', () => {
+    const { grammar } = importContextFreeGrammar(`
+      <s> ::= "the " <noun> " sat" | <noun> " " ε "ran" | [ "so " ] "far"
+      <noun> ::= " big  cat "
+    `);
+    expect(grammar).toEqual({
+      origin: ['#s#'],
+      s: ['the #noun# sat', '#noun# ran', '#s_opt#far'],
+      noun: ['big  cat'],
+      s_opt: ['', 'so '],
+    });
+    expect(new GrammarEngine(grammar).generate('origin', { s: 'the #noun# sat' }).text).toBe('the big  cat sat');
+  });
+
+  test('EBNF joins text as written and desugars groups and postfix operators', () => {
+    const { grammar } = importContextFreeGrammar(`
+      (* ISO 14977 *)
+      list = "(", ( item | "-" ), { ", ", item }, ")" ;
+      item = digit+, "."?, [ digit ] ;
+      digit = "0" | "1" ;
+    `);
+    expect(grammar).toEqual({
+      origin: ['#list#'],
+      list: ['(#list_group##list_rep#)'],
+      item: ['#digit##item_rep##item_opt##item_opt_1#'],
+      digit: ['0', '1'],
+      list_group: ['#item#', '-'],
+      list_rep: ['', ', #item##list_rep#'],
+      item_rep: ['', '#digit##item_rep#'],
+      item_opt: ['', '.'],
+      item_opt_1: ['', '#digit#'],
+    });
+    expect(importContextFreeGrammar('a = "x" "y" ;', { join: 'words' }).grammar.a).toEqual(['x y']);
+  });
+
+  test('exported grammars read back', () => {
+    const grammar = {
+      origin: ['#greeting#, #name#! ^2', '[?name=Bo] #name#'],
+      greeting: ['hi', 'hello "there"'],
+      name: ['Ada', 'Bo', ''],
+      'lib::x': ['#name#'],
+    };
+    expect(importContextFreeGrammar(exportGrammar(grammar, 'ebnf')).grammar).toEqual({
+      origin: ['#greeting#, #name#!', '#name#'],
+      greeting: ['hi', 'hello "there"'],
+      name: ['Ada', 'Bo', ''],
+      lib__x: ['#name#'],
+    });
+    expect(importContextFreeGrammar(exportGrammar(grammar, 'nltk')).grammar).toEqual({
+      origin: ['#greeting# , #name# !', '#name#'],
+      greeting: ['hi', 'hello "there"'],
+      name: ['Ada', 'Bo', ''],
+      lib__x: ['#name#'],
+    });
+  });
+
+  test('errors name the line', () => {
+    expect(() => importContextFreeGrammar('a -> b |\n c )')).toThrow('Line 2: unexpected ")"');
+    expect(() => importContextFreeGrammar('a = [ "x" ;')).toThrow('Line 1: "[" is not closed by "]"');
+    expect(() => importContextFreeGrammar('a = letter - "x" ;')).toThrow(
+      'Line 1: exceptions ("a - b") are not supported',
+    );
+    expect(() => importContextFreeGrammar("a -> 'x")).toThrow('Line 1: unclosed quote');
+    expect(() => importContextFreeGrammar('(* nothing *)')).toThrow('No rules found');
+  });
+});
@@ -0,0 +1,99 @@
+import { parseCliArgs, runCli, type CliOptions } from '../cli';
+
+const grammar = {
+  origin: ['#lang#: #np#'],
+  lang: ['Welsh', 'English'],
+  np: ['the #noun#', '#noun.a#'],
+  noun: ['owl', 'cat, "big"'],
+};
+
+// Output lines and exit code of a command line
+const run = (argv: string[], rules: Record<string, string[]> = grammar): { lines: string[]; exitCode: number } => {
+  const lines: string[] = [];
+  const output = runCli(parseCliArgs(argv), rules);
+  let next = output.next();
+  while (!next.done) {
+    lines.push(next.value);
+    next = output.next();
+  }
+  return { lines, exitCode: next.value };
+};
+
+describe('parseCliArgs', () => {
+  test('command, files and options in any order', () => {
+    const options = parseCliArgs([
+      'many', 'a.json', '-p', 'lang=Welsh', '--param=lang=Irish', 'b.json', '-n', '5', '--seed=42', '-f', 'csv', '--pack', 'de',
+    ]);
+    expect(options).toMatchObject<Partial<CliOptions>>({
+      command: 'many',
+      files: ['a.json', 'b.json'],
+      params: { lang: ['Welsh', 'Irish'] },
+      count: 5,
+      seed: 42,
+      format: 'csv',
+      packs: ['de'],
+      modifiers: true,
+    });
+    expect(parseCliArgs(['count', '-'])).toMatchObject({ files: ['-'], rule: 'origin', format: 'text' });
+    expect(parseCliArgs(['--help']).help).toBe(true);
+  });
+
+  test('rejects what it cannot run', () => {
+    expect(() => parseCliArgs([])).toThrow('Missing command');
+    expect(() => parseCliArgs(['make', 'g.json'])).toThrow('Unknown command "make"');
+    expect(() => parseCliArgs(['all'])).toThrow('Missing grammar file');
+    expect(() => parseCliArgs(['all', 'g.json', '--limit', '0'])).toThrow('--limit needs a positive integer');
+    expect(() => parseCliArgs(['all', 'g.json', '-p', 'lang'])).toThrow('--param needs rule=value');
+    expect(() => parseCliArgs(['all', 'g.json', '-f', 'xml'])).toThrow('--format must be one of text, jsonl, csv');
+    expect(() => parseCliArgs(['all', 'g.json', '--pack', 'fr'])).toThrow('Unknown modifier pack "fr"');
+    expect(() => parseCliArgs(['all', 'g.json', '--verbose'])).toThrow('Unknown option --verbose');
+    expect(() => parseCliArgs(['all', 'g.json', '-s'])).toThrow('-s needs a value');
+    expect(() => parseCliArgs(['many', 'g.json', '--unique', '--strategy', 'weighted'])).toThrow(
+      '--unique draws distinct texts uniformly; it cannot be combined with --strategy weighted',
+    );
+  });
+});
+
+describe('runCli', () => {
+  test('all honours -p and --limit, in text, JSONL and CSV', () => {
+    expect(run(['all', 'g.json', '-p', 'lang=Welsh', '--limit', '2']).lines).toEqual([
+      'Welsh: the owl',
+      'Welsh: the cat, "big"',
+    ]);
+    const [first] = run(['all', 'g.json', '-f', 'jsonl', '--limit', '1']).lines;
+    expect(JSON.parse(first!)).toEqual({
+      text: 'Welsh: the owl',
+      parameters: { origin: '#lang#: #np#', lang: 'Welsh', np: 'the #noun#', noun: 'owl' },
+      index: 0,
+    });
+    expect(run(['all', 'g.json', '-p', 'np=the #noun#', '-f', 'csv', '--limit', '2']).lines).toEqual([
+      'text,origin,lang,np,noun,index',
+      '"Welsh: the owl","#lang#: #np#","Welsh","the #noun#","owl",0',
+      '"Welsh: the cat, ""big""","#lang#: #np#","Welsh","the #noun#","cat, ""big""",1',
+    ]);
+  });
+
+  test('generate and many replay with a seed; modifiers are opt-in', () => {
+    const once = run(['many', 'g.json', '-n', '4', '-s', '7', '-f', 'jsonl']).lines;
+    expect(once).toHaveLength(4);
+    expect(run(['many', 'g.json', '-n', '4', '-s', '7', '-f', 'jsonl']).lines).toEqual(once);
+    const { seed, text } = JSON.parse(once[2]!);
+    expect(run(['generate', 'g.json', '-s', String(seed)]).lines).toEqual([text]);
+    expect(run(['all', 'g.json', '-p', 'np=#noun.a#', '--limit', '1', '-m']).lines).toEqual(['Welsh: an owl']);
+    expect(run(['many', 'g.json', '-n', '8', '--unique']).lines.sort()).toEqual(run(['all', 'g.json']).lines.sort());
+  });
+
+  test('count and lint', () => {
+    expect(run(['count', 'g.json']).lines).toEqual(['8']);
+    expect(run(['count', 'g.json', '-p', 'lang=Welsh', '-f', 'jsonl']).lines).toEqual(['{"rule":"origin","count":4}']);
+    expect(run(['lint', 'g.json'])).toEqual({ lines: [], exitCode: 0 });
+    expect(() => run(['count', 'g.json', '-r', 'nope'])).toThrow('No rule "nope"');
+  });
+
+  test('lint exits with 1 on errors and numbers alternatives from 1', () => {
+    expect(run(['lint', 'g.json', '-f', 'csv'], { origin: ['ok', '#x#'] })).toEqual({
+      lines: ['severity,code,rule,alternative,message', 'error,missing-rule,"origin",2,"#x# has no rule"'],
+      exitCode: 1,
+    });
+  });
+});
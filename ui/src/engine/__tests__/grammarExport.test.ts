@@ -0,0 +1,64 @@
+import { exportGrammar } from '../grammarExport';
+
+const grammar = {
+  origin: ['#[hero:#name#]story#', '#greeting.capitalize#, "it\'s" \\#1 ^3'],
+  story: ['#hero# met #who=name# and #$who#', '[?greeting=hi] bye', ''],
+  name: ['Ada', 'Bo'],
+  greeting: ['hi', 'hello'],
+  'lib::x': ['#name#'],
+  $modifiers: ['shout: -> !'],
+};
+
+describe('exportGrammar', () => {
+  test('EBNF keeps the context-free part and notes the rest above each rule', () => {
+    const lines = exportGrammar(grammar, 'ebnf').split('\n');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        '(* origin 1 "#[hero:#name#]story#": actions left out *)',
+        '(* origin 2 "#greeting.capitalize#, \\"it\'s\\" \\\\#1 ^3": weight 3; .capitalize not applied *)',
+        'origin = story',
+        '       | greeting, ", ", \'"\', "it\'s", \'"\', " #1" ;',
+        '(* story 2 "[?greeting=hi] bye": only when greeting is hi *)',
+        'story = hero, " met ", name, " and ", name',
+        '      | "bye"',
+        '      | ;',
+        'lib__x = name ;',
+        '(* hero: filled by actions at run time; exported with every text pushed onto it *)',
+        'hero = name ;',
+      ]),
+    );
+    expect(lines.find((line) => line.startsWith('(* story 1'))).toContain(
+      '#$who# repeats the text bound to it; exported as #name#',
+    );
+  });
+
+  test('NLTK has one production per alternative with word terminals, origin first', () => {
+    const productions = exportGrammar(grammar, 'nltk')
+      .split('\n')
+      .filter((line) => line && !line.startsWith('#'));
+    expect(productions).toEqual([
+      'origin -> story',
+      `origin -> greeting ',' '"' "it's" '"' '#1'`,
+      "story -> hero 'met' name 'and' name",
+      "story -> 'bye'",
+      'story ->',
+      "name -> 'Ada'",
+      "name -> 'Bo'",
+      "greeting -> 'hi'",
+      "greeting -> 'hello'",
+      'lib__x -> name',
+      'hero -> name',
+    ]);
+  });
+
+  test('Lark names are lowercase and unique, with a start rule', () => {
+    const lark = exportGrammar({ Origin: ['#origin# #_2nd#'], origin: ['a'], _2nd: ['b'], start: ['c'] }, 'lark');
+    expect(lark.split('\n').filter((line) => line && !line.startsWith('//'))).toEqual([
+      'start: origin',
+      'origin: "a"',
+      'origin_1: origin " " r_2nd',
+      'r_2nd: "b"',
+      'start_1: "c"',
+    ]);
+  });
+});
@@ -8,6 +8,9 @@ import {
   renameRule,
   isValidSymbolName,
   grammarLayoutFingerprint,
+  normalizeGrammarJson,
+  extractActionTargetsFromTemplate,
+  recursiveComponents,
 } from '../grammarGraphModel';
 
 describe('grammarGraphModel', () => {
@@ -120,3 +123,59 @@ describe('grammarGraphModel', () => {
     expect(grammarLayoutFingerprint(oneAlt)).not.toBe(grammarLayoutFingerprint(twoAlts));
   });
 });
+
+describe('grammarGraphModel Tracery actions', () => {
+  const grammar = {
+    origin: ['#[hero:#name#]story#'],
+    story: ['#hero# wins'],
+    name: ['Ada'],
+  };
+
+  test('refs inside actions are extracted', () => {
+    expect(extractRefNamesFromTemplate('#[hero:#name#]story#')).toEqual(['name', 'story']);
+    expect(extractActionTargetsFromTemplate('[hero:#name#]#story#[hero:POP]')).toEqual([
+      'hero',
+      'hero',
+    ]);
+  });
+
+  test('pushed symbols are neither missing nor auto-created', () => {
+    expect(findMissingRefs(grammar)).toEqual([]);
+    expect(ensureRulesForReferences(grammar)).not.toHaveProperty('hero');
+  });
+});
+
+describe('normalizeGrammarJson', () => {
+  test('turns weight objects into suffix strings', () => {
+    expect(
+      normalizeGrammarJson({ child: [{ text: 'girl', weight: 3 }, 'boy', { text: 'kid' }] }),
+    ).toEqual({ child: ['girl ^3', 'boy', 'kid'] });
+  });
+
+  test('rejects malformed rules', () => {
+    expect(() => normalizeGrammarJson({ child: [{ weight: 3 }] })).toThrow(/child/);
+    expect(() => normalizeGrammarJson({ child: 'girl' })).toThrow(/child/);
+    expect(() => normalizeGrammarJson(['girl'])).toThrow();
+  });
+
+  test('turns $modifiers tables into definition lines', () => {
+    expect(
+      normalizeGrammarJson({ origin: ['#a.gen#'], $modifiers: { '@pack': 'ru', gen: { а: 'ы' } } }),
+    ).toEqual({ origin: ['#a.gen#'], $modifiers: ['@pack ru', 'gen: а -> ы'] });
+    expect(() => normalizeGrammarJson({ $modifiers: 'ru' })).toThrow(/\$modifiers/);
+  });
+});
+
+describe('recursiveComponents', () => {
+  const successors = (edges: Record<string, string[]>) => (node: string) => edges[node] ?? [];
+
+  test('finds cycles and self-loops reachable from the roots', () => {
+    const edges = { origin: ['a', 'd'], a: ['b'], b: ['a', 'c'], c: [], d: ['d'], lone: ['lone'] };
+    expect(recursiveComponents(['origin'], successors(edges))).toEqual([['a', 'b'], ['d']]);
+    expect(recursiveComponents(['origin', 'lone'], successors(edges))).toHaveLength(3);
+  });
+
+  test('acyclic graphs have none', () => {
+    expect(recursiveComponents(['x'], successors({ x: ['y', 'z'], y: ['z'] }))).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { GrammarEngine } from '../Engine';
+import { loadGrammar, resolveImportPath } from '../grammarImports';
+import { loadGrammarFromFile } from '../index';
+import { parsePlaceholder, renameReferences } from '../placeholderParse';
+
+// In-memory files for the loader
+const reader = (files: Record<string, unknown>) => (path: string) => {
+  if (!Object.hasOwn(files, path)) throw new Error('not found');
+  return JSON.stringify(files[path]);
+};
+
+describe('renameReferences', () => {
+  const upper = (name: string) => name.toUpperCase();
+
+  test('renames tags, actions and template arguments; keeps literals, escapes and variables', () => {
+    expect(renameReferences('a #b# \\#c\\# [d:#e#,f]#g.s##$h#', upper)).toBe('a #B# \\#c\\# [D:#E#,f]#G.s##$h#');
+    expect(renameReferences('#[x:#y#]z.replace(#w#, "#v#")#', upper)).toBe('#[X:#Y#]Z.replace(#W#, "#v#")#');
+    expect(renameReferences('#hero=name.capitalize# [hero:POP] [link](url)', upper)).toBe(
+      '#hero=NAME.capitalize# [HERO:POP] [link](url)',
+    );
+  });
+});
+
+describe('qualified rule names', () => {
+  test('parse in tags and action targets', () => {
+    expect(parsePlaceholder('colors::bright.a').ruleName).toBe('colors::bright');
+    expect(parsePlaceholder('[lib::hero:#lib::name#]story').actions).toEqual(['lib::hero:#lib::name#']);
+    const engine = new GrammarEngine({ origin: ['#a::b# #a::b::c.capitalize#'], 'a::b': ['x'], 'a::b::c': ['y'] });
+    expect(engine.generate('origin', {}, Infinity, 0, 'uniform', true).text).toBe('x Y');
+    expect(engine.expandAll('origin')[0]!.trace.origin).toEqual(['#a::b# #a::b::c.capitalize#']);
+  });
+});
+
+describe('loadGrammar', () => {
+  const files = {
+    'npc/main.json': {
+      $imports: ['../lib/colors.json', 'people = ../lib/names.json'],
+      origin: ['#people::full# in #colors::bright#'],
+    },
+    'lib/colors.json': {
+      bright: ['red', '#shade# blue ^2'],
+      shade: ['[?mood=dark] deep', 'pale'],
+      mood: ['dark', 'light'],
+    },
+    'lib/names.json': {
+      $imports: ['colors.json'],
+      $modifiers: ['shout: -> !'],
+      full: ['#given# the #colors::bright.capitalize#'],
+      given: ['Ada', 'Bo'],
+    },
+  };
+
+  test('qualifies imported rules, their references, guards and nested imports', async () => {
+    const grammar = await loadGrammar(['npc/main.json'], reader(files));
+    expect(grammar).toEqual({
+      origin: ['#people::full# in #colors::bright#'],
+      'colors::bright': ['red', '#colors::shade# blue ^2'],
+      'colors::shade': ['[?colors::mood=dark] deep', 'pale'],
+      'colors::mood': ['dark', 'light'],
+      'people::full': ['#people::given# the #people::colors::bright.capitalize#'],
+      'people::given': ['Ada', 'Bo'],
+      'people::colors::bright': ['red', '#people::colors::shade# blue ^2'],
+      'people::colors::shade': ['[?people::colors::mood=dark] deep', 'pale'],
+      'people::colors::mood': ['dark', 'light'],
+      $modifiers: ['shout: -> !'],
+    });
+    const engine = new GrammarEngine(grammar);
+    expect(engine.generate('origin', {}, Infinity, () => 0, 'uniform', true).text).toBe('Ada the Red in red');
+  });
+
+  test('reports every collision at once', async () => {
+    const clashing = {
+      'a.json': { $imports: ['b.json', 'b = c.json'], $modifiers: ['shout: -> !'], x: ['1'] },
+      'b.json': { $modifiers: ['shout: -> !!'], y: ['2'] },
+      'c.json': { y: ['3'] },
+      'd.json': { x: ['4'] },
+    };
+    await expect(loadGrammar(['a.json', 'd.json'], reader(clashing))).rejects.toThrow(
+      [
+        'a.json imports namespace "b" twice',
+        'Modifier "shout" is defined in both a.json and b.json',
+        'Rule "b::y" is defined in both b.json and c.json',
+        'Rule "x" is defined in both a.json and d.json',
+      ].join('\n'),
+    );
+  });
+
+  test('cycles, unreadable files and bad imports are errors', async () => {
+    await expect(
+      loadGrammar(['a.json'], reader({ 'a.json': { $imports: ['b.json'] }, 'b.json': { $imports: ['a.json'] } })),
+    ).rejects.toThrow('Import cycle: a.json → b.json → a.json');
+    await expect(loadGrammar(['a.json'], reader({ 'a.json': { $imports: ['gone.json'] } }))).rejects.toThrow(
+      'Cannot read gone.json (imported by a.json): not found',
+    );
+    await expect(loadGrammar(['a.json'], reader({ 'a.json': { $imports: ['my-lib.json'] } }))).rejects.toThrow(
+      'import "my-lib.json" needs a namespace',
+    );
+    await expect(loadGrammar(['a.json'], reader({ 'a.json': { $imports: 'b.json' } }))).rejects.toThrow(
+      'a.json: "$imports" must be a list of file paths',
+    );
+  });
+
+  test('names an imported file leaves undefined stay in its namespace and are reported', async () => {
+    const unresolved: unknown[] = [];
+    const grammar = await loadGrammar(
+      ['main.json'],
+      reader({
+        'main.json': { $imports: ['lib.json'], origin: ['#lib::greet#'], name: ['Root'] },
+        'lib.json': { greet: ['[who:Ada]Hi #name#, #who#'] },
+      }),
+      { onUnresolved: (reference) => unresolved.push(reference) },
+    );
+    expect(grammar['lib::greet']).toEqual(['[lib::who:Ada]Hi #lib::name#, #lib::who#']);
+    expect(unresolved).toEqual([{ file: 'lib.json', name: 'name', qualified: 'lib::name' }]);
+  });
+
+  test('loadGrammarFromFile fetches files when given no reader', async () => {
+    const read = reader(files);
+    const fetch = jest.fn(async (path: string) => ({ ok: true, status: 200, text: async () => read(path) }));
+    const saved = globalThis.fetch;
+    globalThis.fetch = fetch as unknown as typeof globalThis.fetch;
+    try {
+      const grammar = await loadGrammarFromFile('lib/colors.json');
+      expect(Object.keys(grammar)).toEqual(['bright', 'shade', 'mood']);
+      expect(fetch).toHaveBeenCalledWith('lib/colors.json');
+    } finally {
+      globalThis.fetch = saved;
+    }
+  });
+
+  test('loadGrammarFromFile takes an async reader', async () => {
+    const read = reader(files);
+    const grammar = await loadGrammarFromFile('lib/names.json', async (path) => read(path));
+    expect(Object.keys(grammar)).toEqual([
+      'full',
+      'given',
+      '$modifiers',
+      'colors::bright',
+      'colors::shade',
+      'colors::mood',
+    ]);
+  });
+});
+
+describe('resolveImportPath', () => {
+  test('relative to the importing file or URL', () => {
+    expect(resolveImportPath('npc/main.json', '../lib/./colors.json')).toBe('lib/colors.json');
+    expect(resolveImportPath('main.json', '../colors.json')).toBe('../colors.json');
+    expect(resolveImportPath('/srv/g/main.json', '/lib/colors.json')).toBe('/lib/colors.json');
+    expect(resolveImportPath('https://x.dev/g/main.json', 'lib/colors.json')).toBe('https://x.dev/g/lib/colors.json');
+  });
+});
@@ -0,0 +1,165 @@
+import { lintGrammar, type LintDiagnostic } from '../grammarLint';
+
+const codes = (diagnostics: LintDiagnostic[]) =>
+  diagnostics.map((d) => [d.code, d.rule, d.alternative]);
+
+describe('lintGrammar', () => {
+  test('a clean grammar has no diagnostics', () => {
+    expect(lintGrammar({ origin: ['#a# #b.capitalize#'], a: ['x', 'y'], b: ['z'] })).toEqual([]);
+  });
+
+  test('invalid placeholders and unclosed hashes are errors on their alternative', () => {
+    const diagnostics = lintGrammar({ origin: ['ok', '#1bad#', 'open #tag', '#[hero]story#'] });
+    expect(diagnostics.map((d) => [d.code, d.severity, d.alternative])).toEqual([
+      ['invalid-placeholder', 'error', 1],
+      ['invalid-placeholder', 'error', 2],
+      ['invalid-placeholder', 'error', 3],
+    ]);
+    expect(diagnostics[0]!.message).toContain('#1bad#');
+    expect(diagnostics[1]!.message).toBe('Unclosed "#" at position 6');
+    expect(diagnostics[2]!.message).toContain('[hero]');
+  });
+
+  test('escaped hashes are not unclosed', () => {
+    expect(lintGrammar({ origin: [String.raw`price \# 1`] })).toEqual([]);
+  });
+
+  test('missing rules are errors; symbols pushed by actions are not missing', () => {
+    const diagnostics = lintGrammar({ origin: ['#ghost#', '[hero:Ann]#hero#'] });
+    expect(codes(diagnostics)).toEqual([['missing-rule', 'origin', 0]]);
+    expect(diagnostics[0]!.message).toBe('#ghost# has no rule');
+  });
+
+  test('unreachable rules are warnings', () => {
+    const diagnostics = lintGrammar({ origin: ['#a#'], a: ['x'], orphan: ['#a#'] });
+    expect(codes(diagnostics)).toEqual([['unreachable', 'orphan', undefined]]);
+    expect(diagnostics[0]!.severity).toBe('warning');
+  });
+
+  test('reachability follows references inside actions and honours the start rule', () => {
+    expect(lintGrammar({ origin: ['[hero:#name#]#hero#'], name: ['Ann'] })).toEqual([]);
+    expect(codes(lintGrammar({ main: ['x'], other: ['y'] }, { start: 'main' }))).toEqual([
+      ['unreachable', 'other', undefined],
+    ]);
+  });
+
+  test('grammars without the start rule skip reachability', () => {
+    expect(lintGrammar({ main: ['x'], other: ['y'] })).toEqual([]);
+  });
+
+  test('rules without a finishing derivation are unproductive', () => {
+    const diagnostics = lintGrammar({ origin: ['#loop#', 'x'], loop: ['#loop# again'], none: [] }, { start: 'x' });
+    expect(codes(diagnostics)).toEqual([
+      ['unproductive', 'loop', undefined],
+      ['unproductive', 'none', undefined],
+    ]);
+    expect(diagnostics[1]!.message).toBe('Rule has no alternatives');
+  });
+
+  test('unproductiveness propagates to rules that need it', () => {
+    const diagnostics = lintGrammar({ origin: ['#a#'], a: ['#b#'], b: ['#a#'] });
+    expect(codes(diagnostics)).toEqual([
+      ['unproductive', 'origin', undefined],
+      ['unproductive', 'a', undefined],
+      ['unproductive', 'b', undefined],
+    ]);
+  });
+
+  test('recursion that outgrows its exits is unbounded', () => {
+    // Each list expands to 4/3 lists on average
+    const diagnostics = lintGrammar({ origin: ['#list#'], list: ['#list#, #list#', 'x', '#list# #list#'] });
+    expect(codes(diagnostics)).toEqual([['unbounded-recursion', 'list', 0]]);
+    expect(diagnostics[0]!.message).toContain('×1.33');
+  });
+
+  test('critical recursion is unbounded; subcritical and weighted-down recursion is not', () => {
+    expect(codes(lintGrammar({ origin: ['#e#'], e: ['#e# + #e#', 'x'] }))).toEqual([
+      ['unbounded-recursion', 'e', 0],
+    ]);
+    expect(lintGrammar({ origin: ['#e#'], e: ['#e# + x', 'x'] })).toEqual([]);
+    expect(lintGrammar({ origin: ['#e#'], e: ['#e# + #e#', 'x ^3'] })).toEqual([]);
+  });
+
+  test('mutual recursion is reported once, at its first rule', () => {
+    const diagnostics = lintGrammar({
+      origin: ['#a#'],
+      a: ['x', '#b# #b#'],
+      b: ['#a# #a#', 'y'],
+    });
+    expect(codes(diagnostics)).toEqual([['unbounded-recursion', 'a', 1]]);
+    expect(diagnostics[0]!.message).toContain('a, b');
+  });
+
+  test('unknown modifiers are warnings; registered ones and arguments are fine', () => {
+    const diagnostics = lintGrammar({ origin: ['#a.capitalize.shout#', '#a.replace(x,y)#', '#a..s#'], a: ['x'] });
+    expect(codes(diagnostics)).toEqual([
+      ['unknown-modifier', 'origin', 0],
+      ['unknown-modifier', 'origin', 2],
+    ]);
+    expect(diagnostics.map((d) => d.message)).toEqual(['Unknown modifier ".shout"', 'Empty modifier name']);
+    expect(lintGrammar({ origin: ['#a.shout#'], a: ['x'] }, { modifiers: { shout: (s) => s } })).toEqual([]);
+  });
+
+  test('placeholders inside modifier arguments are checked like any other', () => {
+    const diagnostics = lintGrammar({ origin: ['#a.replace(#b#, #ghost.nope#)#'], a: ['x'], b: ['y'] });
+    expect(codes(diagnostics)).toEqual([
+      ['unproductive', 'origin', undefined],
+      ['missing-rule', 'origin', 0],
+      ['unknown-modifier', 'origin', 0],
+    ]);
+  });
+
+  test('variables need a binding tag somewhere in the grammar', () => {
+    const diagnostics = lintGrammar({ origin: ['#hero=a# #$hero# #$villain#'], a: ['x'] });
+    expect(codes(diagnostics)).toEqual([
+      ['unproductive', 'origin', undefined],
+      ['missing-rule', 'origin', 0],
+    ]);
+    expect(diagnostics[1]!.message).toBe('$villain is never bound');
+  });
+
+  test('guards must test an existing rule and values it can take', () => {
+    const diagnostics = lintGrammar({
+      origin: ['#lang# #order#'],
+      lang: ['Welsh', '#english#'],
+      english: ['English'],
+      order: ['[?lang=Welsh|english] VSO', '[?lang!=Breton] SVO', '[?dialect=north] OVS'],
+    });
+    expect(diagnostics.map((d) => [d.code, d.severity, d.rule, d.alternative, d.message])).toEqual([
+      ['invalid-guard', 'warning', 'order', 1, '"lang" has no alternative "Breton"'],
+      ['invalid-guard', 'error', 'order', 2, 'Guard tests "dialect", which has no rule'],
+    ]);
+  });
+
+  test('$modifiers is not a rule: its definitions count as known and bad lines are errors, listed last', () => {
+    const diagnostics = lintGrammar({
+      $modifiers: ['shout: /!$/ -> !!!', '@pack de', 'oops'],
+      origin: ['#a.shout.der#', '#a.el#'],
+      a: ['x'],
+    });
+    expect(codes(diagnostics)).toEqual([
+      ['unknown-modifier', 'origin', 1],
+      ['invalid-modifier', '$modifiers', 2],
+    ]);
+    expect(diagnostics[1]!.message).toBe('Expected "name: pattern -> replacement" or "@pack name"');
+  });
+
+  test('empty alternatives are info, duplicates are warnings (weights ignored)', () => {
+    const diagnostics = lintGrammar({ origin: ['#a#'], a: ['x', '', 'x ^2', 'y'] });
+    expect(diagnostics.map((d) => [d.code, d.severity, d.alternative, d.message])).toEqual([
+      ['empty-alternative', 'info', 1, 'Empty alternative'],
+      ['duplicate-alternative', 'warning', 2, 'Same as alternative 1'],
+    ]);
+  });
+
+  test('diagnostics are sorted by rule, then alternative', () => {
+    const diagnostics = lintGrammar({ origin: ['#b#', '#ghost#'], b: ['#b.nope#', ''], c: [''] });
+    expect(codes(diagnostics)).toEqual([
+      ['missing-rule', 'origin', 1],
+      ['unknown-modifier', 'b', 0],
+      ['empty-alternative', 'b', 1],
+      ['unreachable', 'c', undefined],
+      ['empty-alternative', 'c', 0],
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  MODIFIERS_KEY,
+  compileModifierDefinitions,
+  grammarModifierRegistry,
+  grammarRules,
+  normalizeModifierJson,
+} from '../grammarModifiers';
+
+describe('compileModifierDefinitions', () => {
+  test('suffix rows: first matching row wins, empty suffix appends', () => {
+    const { modifiers, errors } = compileModifierDefinitions([
+      'gen: а -> ы',
+      'gen: я -> и',
+      'gen: -> а',
+    ]);
+    expect(errors).toEqual([]);
+    expect(modifiers.gen!('вода', [])).toBe('воды');
+    expect(modifiers.gen!('земля', [])).toBe('земли');
+    expect(modifiers.gen!('дом', [])).toBe('дома');
+  });
+
+  test('regex rows use String.replace with flags and groups', () => {
+    const { modifiers } = compileModifierDefinitions([
+      'shout: /!$/ -> !!!',
+      'swap: /(\\w+) (\\w+)/ -> $2 $1',
+      'vowels: /[aeiou]/gi -> *',
+    ]);
+    expect(modifiers.shout!('hey!', [])).toBe('hey!!!');
+    expect(modifiers.swap!('red fox', [])).toBe('fox red');
+    expect(modifiers.vowels!('ApplE', [])).toBe('*ppl*');
+  });
+
+  test('text no row matches is left alone', () => {
+    const { modifiers } = compileModifierDefinitions(['y: y -> ies']);
+    expect(modifiers.y!('city', [])).toBe('cities');
+    expect(modifiers.y!('dog', [])).toBe('dog');
+  });
+
+  test('packs and blank lines', () => {
+    expect(compileModifierDefinitions(['@pack ru', '', '@pack es'])).toMatchObject({
+      packs: ['ru', 'es'],
+      errors: [],
+    });
+  });
+
+  test('bad lines are reported by index and skipped', () => {
+    const { modifiers, errors } = compileModifierDefinitions([
+      'ok: a -> b',
+      '@pack xx',
+      'no arrow here',
+      'bad: /(/ -> x',
+      'sticky: /a/y -> b',
+      `long: /${'a'.repeat(201)}/ -> b`,
+      '9lives: a -> b',
+    ]);
+    expect(Object.keys(modifiers)).toEqual(['ok']);
+    expect(errors).toEqual([
+      { line: 1, message: 'Unknown modifier pack "xx"' },
+      { line: 2, message: 'Expected "name: pattern -> replacement" or "@pack name"' },
+      { line: 3, message: 'Invalid regex /(/' },
+      { line: 4, message: 'Unsupported regex flags "y"' },
+      { line: 5, message: 'Pattern is longer than 200 characters' },
+      { line: 6, message: 'Expected "name: pattern -> replacement" or "@pack name"' },
+    ]);
+  });
+
+  test('patterns that can backtrack catastrophically are rejected', () => {
+    const nested = 'Patterns cannot repeat a group that repeats or branches, e.g. (a+)+ or (a|ab)*';
+    const { modifiers, errors } = compileModifierDefinitions([
+      'a: /(a+)+$/ -> b',
+      'b: /(?:x|xy)*z/ -> b',
+      'c: /((\\w{2,})\\s)+/ -> b',
+      'd: /(\\w)\\1/ -> b',
+      'e: /(?<c>a)\\k<c>/ -> b',
+      'ok: /(ed|ing)?$/ -> s',
+      'ok: /[(+]+(\\d)(x)+/ -> s',
+    ]);
+    expect(Object.keys(modifiers)).toEqual(['ok']);
+    expect(errors).toEqual([
+      { line: 0, message: nested },
+      { line: 1, message: nested },
+      { line: 2, message: nested },
+      { line: 3, message: 'Backreferences are not allowed in patterns' },
+      { line: 4, message: 'Backreferences are not allowed in patterns' },
+    ]);
+    expect(modifiers.ok!('walked', [])).toBe('walks');
+  });
+
+  test('runs of repeats that match the same characters are rejected', () => {
+    const sideBySide = 'Patterns cannot put two repeats that match the same characters side by side, e.g. .*.*';
+    const { modifiers, errors } = compileModifierDefinitions([
+      `a: /${'.*'.repeat(14)}!/ -> b`,
+      'b: /[a-z]+\\w*?x/ -> b',
+      'c: /A+a*/i -> b',
+      'd: /a.*b.*c.*d.*e/ -> b',
+      'ok: /^\\s*\\d+[a-z]{2,}!$/ -> s',
+      'ok: /(\\w+) (\\w+)/ -> $2 $1',
+    ]);
+    expect(Object.keys(modifiers)).toEqual(['ok']);
+    expect(errors).toEqual([
+      { line: 0, message: sideBySide },
+      { line: 1, message: sideBySide },
+      { line: 2, message: sideBySide },
+      { line: 3, message: 'Patterns can have at most 3 unbounded repeats (*, + or {n,})' },
+    ]);
+    expect(modifiers.ok!('old owl', [])).toBe('owl old');
+  });
+});
+
+describe('normalizeModifierJson', () => {
+  test('object tables become lines in order', () => {
+    expect(
+      normalizeModifierJson({ '@pack': 'ru', gen: { а: 'ы', '': 'а' }, shout: { '/!$/': '!!!' } }),
+    ).toEqual(['@pack ru', 'gen: а -> ы', 'gen: -> а', 'shout: /!$/ -> !!!']);
+    expect(normalizeModifierJson({ '@pack': ['de', 'es'] })).toEqual(['@pack de', '@pack es']);
+  });
+
+  test('lines pass through; other shapes throw', () => {
+    expect(normalizeModifierJson(['x: a -> b'])).toEqual(['x: a -> b']);
+    expect(() => normalizeModifierJson('x')).toThrow(/must be a list/);
+    expect(() => normalizeModifierJson({ x: ['a'] })).toThrow(/modifier "x"/);
+    expect(() => normalizeModifierJson({ x: { a: 1 } })).toThrow(/must be strings/);
+    expect(() => normalizeModifierJson({ '@pack': 1 })).toThrow(/@pack/);
+  });
+});
+
+describe('grammar registry', () => {
+  const grammar = {
+    origin: ['#a#'],
+    a: ['x'],
+    [MODIFIERS_KEY]: ['@pack de', 'capitalize: -> !'],
+  };
+
+  test('grammarRules drops $modifiers and keeps plain grammars as they are', () => {
+    expect(grammarRules(grammar)).toEqual({ origin: ['#a#'], a: ['x'] });
+    const plain = { origin: ['x'] };
+    expect(grammarRules(plain)).toBe(plain);
+  });
+
+  test('English, then packs, then the grammar definitions', () => {
+    const registry = grammarModifierRegistry(grammar, ['es']);
+    expect(registry.s!('cat', [])).toBe('cats');
+    expect(registry.el!('casa', [])).toBe('la casa');
+    expect(registry.der!('Hund', [])).toBe('der Hund');
+    expect(registry.capitalize!('hi', [])).toBe('hi!');
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  GERMAN_MODIFIERS,
+  MODIFIER_PACKS,
+  RUSSIAN_MODIFIERS,
+  SPANISH_MODIFIERS,
+  isModifierPackName,
+} from "../modifierPacks";
+import { DEFAULT_ENGLISH_MODIFIERS, applyModifierPipeline } from "../baseEngModifiers";
+
+describe("RUSSIAN_MODIFIERS", () => {
+  const m = RUSSIAN_MODIFIERS;
+  const forms = (word: string, params: string[] = []) =>
+    (["gen", "dat", "acc", "ins", "prep", "pl"] as const).map((c) => m[c]!(word, params));
+
+  test("declines regular nouns by their ending", () => {
+    expect(forms("книга")).toEqual(["книги", "книге", "книгу", "книгой", "книге", "книги"]);
+    expect(forms("неделя")).toEqual(["недели", "неделе", "неделю", "неделей", "неделе", "недели"]);
+    expect(forms("армия")).toEqual(["армии", "армии", "армию", "армией", "армии", "армии"]);
+    expect(forms("окно")).toEqual(["окна", "окну", "окно", "окном", "окне", "окна"]);
+    expect(forms("здание")).toEqual(["здания", "зданию", "здание", "зданием", "здании", "здания"]);
+    expect(forms("музей")).toEqual(["музея", "музею", "музей", "музеем", "музее", "музеи"]);
+    expect(forms("стол")).toEqual(["стола", "столу", "стол", "столом", "столе", "столы"]);
+    expect(forms("ночь")).toEqual(["ночи", "ночи", "ночь", "ночью", "ночи", "ночи"]);
+  });
+
+  test("spelling rules after hushing consonants and velars", () => {
+    expect(m.ins!("задача", [])).toBe("задачей");
+    expect(m.pl!("парк", [])).toBe("парки");
+    expect(m.ins!("месяц", [])).toBe("месяцем");
+  });
+
+  test("hints: masculine -ь nouns and animate accusative", () => {
+    expect(m.gen!("конь", ["m"])).toBe("коня");
+    expect(m.acc!("конь", ["m", "anim"])).toBe("коня");
+    expect(m.acc!("кот", ["anim"])).toBe("кота");
+    expect(m.acc!("кот", [])).toBe("кот");
+  });
+
+  test("cases change only the last word and keep capitals", () => {
+    expect(m.prep!("Красная Москва", [])).toBe("Красная Москве");
+    expect(m.gen!("кенгуру", [])).toBe("кенгуру");
+  });
+
+  test("agree puts adjectives and past-tense verbs into the gender or plural", () => {
+    expect(m.agree!("красный", ["f"])).toBe("красная");
+    expect(m.agree!("синий", ["f"])).toBe("синяя");
+    expect(m.agree!("синий", ["n"])).toBe("синее");
+    expect(m.agree!("хороший", ["n"])).toBe("хорошее");
+    expect(m.agree!("большой", ["pl"])).toBe("большие");
+    expect(m.agree!("русский", ["pl"])).toBe("русские");
+    expect(m.agree!("очень старый", ["f"])).toBe("очень старая");
+    expect(m.agree!("сделал", ["f"])).toBe("сделала");
+    expect(m.agree!("улыбался", ["pl"])).toBe("улыбались");
+    expect(m.agree!("красный", [])).toBe("красный");
+  });
+});
+
+describe("GERMAN_MODIFIERS", () => {
+  const m = GERMAN_MODIFIERS;
+
+  test("definite article by guessed gender and case", () => {
+    expect(m.der!("Hund", [])).toBe("der Hund");
+    expect(m.der!("Zeitung", [])).toBe("die Zeitung");
+    expect(m.der!("Mädchen", [])).toBe("das Mädchen");
+    expect(m.der!("Hund", ["akk"])).toBe("den Hund");
+    expect(m.der!("Hund", ["dat"])).toBe("dem Hund");
+    expect(m.der!("Kindern", ["dat", "pl"])).toBe("den Kindern");
+  });
+
+  test("params in any order override the guess", () => {
+    expect(m.der!("Tieres", ["n", "gen"])).toBe("des Tieres");
+    expect(m.ein!("Tier", ["akk", "n"])).toBe("ein Tier");
+    expect(m.ein!("großen Mann", ["akk"])).toBe("einen großen Mann");
+  });
+
+  test("indefinite plural has no article; kein has one", () => {
+    expect(m.ein!("Hunde", ["pl"])).toBe("Hunde");
+    expect(m.kein!("Kindern", ["pl", "dat"])).toBe("keinen Kindern");
+    expect(m.kein!("Blume", [])).toBe("keine Blume");
+  });
+});
+
+describe("SPANISH_MODIFIERS", () => {
+  const m = SPANISH_MODIFIERS;
+
+  test("articles by guessed gender", () => {
+    expect(m.el!("casa", [])).toBe("la casa");
+    expect(m.el!("perro", [])).toBe("el perro");
+    expect(m.un!("canción", [])).toBe("una canción");
+    expect(m.el!("ciudad", [])).toBe("la ciudad");
+  });
+
+  test("exceptions and stressed a-", () => {
+    expect(m.el!("mapa", [])).toBe("el mapa");
+    expect(m.el!("mano", [])).toBe("la mano");
+    expect(m.el!("agua", [])).toBe("el agua");
+    expect(m.un!("águila", [])).toBe("un águila");
+    expect(m.el!("aguas", ["pl"])).toBe("las aguas");
+  });
+
+  test("plural and explicit gender params", () => {
+    expect(m.el!("casas", ["pl"])).toBe("las casas");
+    expect(m.un!("canciones", ["pl"])).toBe("unas canciones");
+    expect(m.el!("artes", ["f", "pl"])).toBe("las artes");
+    expect(m.el!("radio", ["m"])).toBe("el radio");
+  });
+
+  test("contractions del and al", () => {
+    expect(m.del!("bosque", [])).toBe("del bosque");
+    expect(m.del!("ciudad", [])).toBe("de la ciudad");
+    expect(m.al!("mar", [])).toBe("al mar");
+  });
+
+  test("pl makes plurals of the last word", () => {
+    expect(m.pl!("casa", [])).toBe("casas");
+    expect(m.pl!("ciudad", [])).toBe("ciudades");
+    expect(m.pl!("canción", [])).toBe("canciones");
+    expect(m.pl!("lápiz", [])).toBe("lápices");
+    expect(m.pl!("autobús", [])).toBe("autobuses");
+    expect(m.pl!("crisis", [])).toBe("crisis");
+    expect(m.pl!("rubí", [])).toBe("rubíes");
+    expect(m.pl!("café", [])).toBe("cafés");
+  });
+});
+
+describe("MODIFIER_PACKS", () => {
+  test("packs merge over the English modifiers in a pipeline", () => {
+    const registry = { ...DEFAULT_ENGLISH_MODIFIERS, ...MODIFIER_PACKS.es };
+    expect(applyModifierPipeline("ciudad", ["pl", "el(pl)", "capitalize"], registry)).toBe("Las ciudades");
+  });
+
+  test("isModifierPackName", () => {
+    expect(isModifierPackName("ru")).toBe(true);
+    expect(isModifierPackName("fr")).toBe(false);
+    expect(isModifierPackName("toString")).toBe(false);
+  });
+});
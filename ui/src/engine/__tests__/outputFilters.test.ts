@@ -0,0 +1,38 @@
+import { compileOutputFilter } from '../outputFilters';
+
+describe('compileOutputFilter', () => {
+  test('an empty filter checks nothing', () => {
+    expect(compileOutputFilter()).toBeUndefined();
+    expect(compileOutputFilter({ mustContain: [] })).toBeUndefined();
+  });
+
+  test('length and word bounds are inclusive', () => {
+    const accepts = compileOutputFilter({ minLength: 5, maxLength: 12, maxWords: 2 })!;
+    expect(accepts('hello')).toBe(true);
+    expect(accepts('hi')).toBe(false);
+    expect(accepts('hello there!')).toBe(true);
+    expect(accepts('a b c d')).toBe(false);
+    expect(compileOutputFilter({ minWords: 2 })!('  one  ')).toBe(false);
+  });
+
+  test('substrings, regexes and predicates must all agree', () => {
+    const accepts = compileOutputFilter({
+      mustContain: ['cat'],
+      mustNotContain: ['dog'],
+      matches: '^[A-Z]',
+      notMatches: /!$/g,
+      predicates: [(t) => t.length % 2 === 0],
+    })!;
+    expect(accepts('The cat.')).toBe(true);
+    // a global regex is not left with a lastIndex between texts
+    expect(accepts('The cat.')).toBe(true);
+    expect(accepts('the cat.')).toBe(false);
+    expect(accepts('The cat!')).toBe(false);
+    expect(accepts('The cat and dog')).toBe(false);
+    expect(accepts('The cat')).toBe(false);
+  });
+
+  test('invalid regex sources are reported', () => {
+    expect(() => compileOutputFilter({ matches: '(' })).toThrow('Output filter "matches": invalid regex /(/');
+  });
+});
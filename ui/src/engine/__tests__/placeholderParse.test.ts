@@ -1,6 +1,14 @@
 import {
   decodePlaceholderInner,
+  findUnclosedHash,
+  parseActionInner,
+  parseModifierCall,
+  parsePlaceholder,
   parsePlaceholderInner,
+  formatAlternativeGuards,
+  formatAlternativeWeight,
+  splitAlternativeGuards,
+  splitAlternativeWeight,
   splitTemplateSegments,
 } from '../placeholderParse';
 
@@ -47,3 +55,186 @@ describe('parsePlaceholderInner', () => {
     });
   });
 });
+
+describe('Tracery actions', () => {
+  test('bare actions become action segments', () => {
+    expect(splitTemplateSegments('[hero:#name#]#story#')).toEqual([
+      { kind: 'action', innerRaw: 'hero:#name#' },
+      { kind: 'placeholder', innerRaw: 'story' },
+    ]);
+  });
+
+  test('brackets that are not actions stay literal', () => {
+    expect(splitTemplateSegments('[link](url) #x#')).toEqual([
+      { kind: 'literal', text: '[link](url) ' },
+      { kind: 'placeholder', innerRaw: 'x' },
+    ]);
+  });
+
+  test('preaction hashes do not close the tag', () => {
+    expect(splitTemplateSegments('#[hero:#name#]story#!')).toEqual([
+      { kind: 'placeholder', innerRaw: '[hero:#name#]story' },
+      { kind: 'literal', text: '!' },
+    ]);
+  });
+
+  test('parseActionInner: push, pop and run', () => {
+    expect(parseActionInner('hero:#name#,Bob')).toEqual({
+      kind: 'push',
+      target: 'hero',
+      rules: ['#name#', 'Bob'],
+    });
+    expect(parseActionInner('hero:POP')).toEqual({ kind: 'pop', target: 'hero' });
+    expect(parseActionInner('#setPronouns#')).toEqual({ kind: 'run', template: '#setPronouns#' });
+    expect(() => parseActionInner('not an action')).toThrow();
+  });
+
+  test('push rules split on top-level commas only', () => {
+    expect(parseActionInner('x:#a.replace(b,c)#,[y:1,2]z')).toEqual({
+      kind: 'push',
+      target: 'x',
+      rules: ['#a.replace(b,c)#', '[y:1,2]z'],
+    });
+  });
+
+  test('parsePlaceholder separates preactions', () => {
+    expect(parsePlaceholder('[hero:#name#][mood:calm]story.capitalize')).toEqual({
+      ruleName: 'story',
+      modifierSegments: ['capitalize'],
+      actions: ['hero:#name#', 'mood:calm'],
+    });
+  });
+});
+
+describe('modifier arguments', () => {
+  test('tags with arguments close at the right #', () => {
+    expect(splitTemplateSegments('#a.replace(#b#, x)# and #c#')).toEqual([
+      { kind: 'placeholder', innerRaw: 'a.replace(#b#, x)' },
+      { kind: 'literal', text: ' and ' },
+      { kind: 'placeholder', innerRaw: 'c' },
+    ]);
+    expect(splitTemplateSegments('#a.replace("#", "\\"")#!')).toEqual([
+      { kind: 'placeholder', innerRaw: 'a.replace("#", "\\"")' },
+      { kind: 'literal', text: '!' },
+    ]);
+    // An unbalanced "(" is plain text, as before
+    expect(splitTemplateSegments('#a.x(# b')).toEqual([
+      { kind: 'placeholder', innerRaw: 'a.x(' },
+      { kind: 'literal', text: ' b' },
+    ]);
+    expect(findUnclosedHash('#a.replace(#b#, x)#')).toBe(-1);
+  });
+
+  test('dots split modifiers only outside arguments, quotes and escapes', () => {
+    expect(parsePlaceholderInner('a.replace(".", "!").capitalize')).toEqual({
+      ruleName: 'a',
+      modifierSegments: ['replace(".", "!")', 'capitalize'],
+    });
+    expect(parsePlaceholderInner('a.truncate(3,\\.).s').modifierSegments).toEqual(['truncate(3,\\.)', 's']);
+    expect(parsePlaceholder('[x:#y#]a.replace(#b.s#,c)').modifierSegments).toEqual(['replace(#b.s#,c)']);
+  });
+
+  test('parseModifierCall: bare, quoted, escaped, nested and template arguments', () => {
+    expect(parseModifierCall('capitalize')).toEqual({ name: 'capitalize', args: [] });
+    expect(parseModifierCall('f()')).toEqual({ name: 'f', args: [] });
+    expect(parseModifierCall('replace(a, b)')).toEqual({
+      name: 'replace',
+      args: [
+        { kind: 'text', text: 'a' },
+        { kind: 'text', text: 'b' },
+      ],
+    });
+    expect(parseModifierCall('replace(", ", " and ")').args).toEqual([
+      { kind: 'text', text: ', ' },
+      { kind: 'text', text: ' and ' },
+    ]);
+    expect(parseModifierCall('replace("say \\"hi\\"", a\\,b\\))').args).toEqual([
+      { kind: 'text', text: 'say "hi"' },
+      { kind: 'text', text: 'a,b)' },
+    ]);
+    expect(parseModifierCall('wrap((a, b), c)').args).toEqual([
+      { kind: 'text', text: '(a, b)' },
+      { kind: 'text', text: 'c' },
+    ]);
+    expect(parseModifierCall('replace(#old#, #new.replace(x, ")")#!)').args).toEqual([
+      { kind: 'template', template: '#old#' },
+      { kind: 'template', template: '#new.replace(x, ")")#!' },
+    ]);
+  });
+
+  test('parseModifierCall rejects unbalanced calls', () => {
+    expect(() => parseModifierCall('replace(a')).toThrow('Unclosed "(" in modifier "replace(a"');
+    expect(() => parseModifierCall('replace(a)b')).toThrow(/Unexpected text/);
+    expect(() => parseModifierCall('replace("a)')).toThrow(/Unclosed/);
+    expect(() => parsePlaceholder('a.replace("x)')).toThrow('Unclosed "("');
+    expect(() => parsePlaceholder('a."x')).toThrow('Unclosed quote');
+  });
+});
+
+describe('variables', () => {
+  test('binding tags and variable references', () => {
+    expect(parsePlaceholder('hero=name.capitalize')).toEqual({
+      ruleName: 'name',
+      modifierSegments: ['capitalize'],
+      binding: '$hero',
+      actions: [],
+    });
+    expect(parsePlaceholderInner('$hero.s')).toEqual({ ruleName: '$hero', modifierSegments: ['s'] });
+    expect(parsePlaceholderInner('x=$hero').binding).toBe('$x');
+    expect(() => parsePlaceholderInner('hero=')).toThrow('Invalid rule name');
+    expect(() => parsePlaceholderInner('$1')).toThrow('Invalid rule name');
+  });
+});
+
+describe('alternative guards', () => {
+  test('leading guards are split off; other brackets stay', () => {
+    expect(splitAlternativeGuards('[?lang=cy|ga][? formal != no ] #vso#')).toEqual({
+      template: '#vso#',
+      guards: [
+        { rule: 'lang', values: ['cy', 'ga'], negate: false },
+        { rule: 'formal', values: ['no'], negate: true },
+      ],
+    });
+    expect(splitAlternativeGuards('[hero:#name#] [?x=y]')).toEqual({ template: '[hero:#name#] [?x=y]', guards: [] });
+    expect(splitTemplateSegments('[?lang=cy]')).toEqual([{ kind: 'literal', text: '[?lang=cy]' }]);
+  });
+
+  test('formatAlternativeGuards round-trips', () => {
+    const { template, guards } = splitAlternativeGuards('[?lang=cy|ga] [?n!=1] text');
+    expect(formatAlternativeGuards(template, guards)).toBe('[?lang=cy|ga][?n!=1] text');
+    expect(formatAlternativeGuards('text', [])).toBe('text');
+  });
+});
+
+describe('alternative weights', () => {
+  test('splits a trailing ^N weight', () => {
+    expect(splitAlternativeWeight('girl ^3')).toEqual({ template: 'girl', weight: 3 });
+    expect(splitAlternativeWeight('#noun# ^0.5')).toEqual({ template: '#noun#', weight: 0.5 });
+    expect(splitAlternativeWeight('^2')).toEqual({ template: '', weight: 2 });
+  });
+
+  test('defaults to 1 and needs whitespace before the caret', () => {
+    expect(splitAlternativeWeight('girl')).toEqual({ template: 'girl', weight: 1 });
+    expect(splitAlternativeWeight('x^2')).toEqual({ template: 'x^2', weight: 1 });
+    expect(splitAlternativeWeight('a \\^2')).toEqual({ template: 'a \\^2', weight: 1 });
+  });
+
+  test('formatAlternativeWeight round-trips', () => {
+    expect(formatAlternativeWeight('girl', 3)).toBe('girl ^3');
+    expect(formatAlternativeWeight('girl', 1)).toBe('girl');
+    expect(splitAlternativeWeight(formatAlternativeWeight('', 4))).toEqual({ template: '', weight: 4 });
+  });
+});
+
+describe('findUnclosedHash', () => {
+  test('finds the # that splitTemplateSegments keeps literal', () => {
+    expect(findUnclosedHash('#a# and #b')).toBe(8);
+    expect(findUnclosedHash('#only')).toBe(0);
+  });
+
+  test('closed, escaped and action hashes are fine', () => {
+    expect(findUnclosedHash('#a# #b.s#')).toBe(-1);
+    expect(findUnclosedHash(String.raw`a \# b`)).toBe(-1);
+    expect(findUnclosedHash('[hero:#name#]#story#')).toBe(-1);
+  });
+});
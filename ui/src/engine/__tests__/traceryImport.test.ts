@@ -0,0 +1,90 @@
+import { importTraceryGrammar } from '../traceryImport';
+
+describe('importTraceryGrammar', () => {
+  test('wraps string rules and keeps actions and tags as they are', () => {
+    const { grammar, report } = importTraceryGrammar({
+      origin: '#[hero:#name#]story#',
+      story: ['#hero# met #pet.a#. [pet:cat,dog]#hero.capitalize# won.[pet:POP]'],
+      name: ['ada', 'bo'],
+      pet: 'owl',
+    });
+    expect(grammar).toEqual({
+      origin: ['#[hero:#name#]story#'],
+      story: ['#hero# met #pet.a#. [pet:cat,dog]#hero.capitalize# won.[pet:POP]'],
+      name: ['ada', 'bo'],
+      pet: ['owl'],
+    });
+    expect(report.map((n) => n.code)).toEqual(['approximate-modifier']);
+  });
+
+  test('renames invalid names away from valid ones', () => {
+    const { grammar, report } = importTraceryGrammar({
+      origin: ['#first-name# #first_name# [2nd:x]#2nd#'],
+      'first-name': ['Ada'],
+      first_name: ['Bo'],
+    });
+    expect(grammar).toEqual({
+      origin: ['#first_name_1# #first_name# [_2nd:x]#_2nd#'],
+      first_name_1: ['Ada'],
+      first_name: ['Bo'],
+    });
+    expect(report).toEqual([
+      { code: 'renamed-rule', rule: 'first_name_1', message: '"first-name" is not a valid rule name; renamed to "first_name_1"' },
+      { code: 'renamed-rule', rule: '_2nd', message: '"2nd" is not a valid rule name; renamed to "_2nd"' },
+    ]);
+  });
+
+  test('missing symbols become the text tracery.js prints, with their modifiers and undone pushes', () => {
+    const { grammar, report } = importTraceryGrammar({
+      origin: ['#[x:#y#]gone.capitalize# #x# ## #$v#'],
+      x: ['a'],
+      y: ['b'],
+    });
+    expect(grammar.origin).toEqual(['[x:#y#]((gone))[x:POP] #x# ((undefined)) (($v))']);
+    expect(report.map((n) => [n.code, n.message])).toEqual([
+      ['syntax-error', 'tracery.js: 30: empty tag'],
+      ['missing-rule', '#gone# has no rule; it is replaced by the text ((gone))'],
+      ['missing-rule', '#undefined# has no rule; it is replaced by the text ((undefined))'],
+      ['missing-rule', '#$v# has no rule; it is replaced by the text (($v))'],
+    ]);
+  });
+
+  test('translates, keeps or flags modifiers', () => {
+    const { grammar, report } = importTraceryGrammar({
+      origin: ['#n.uppercase# #n.zap# #n.replace(a, b "c")# #n.replace(x)#'],
+      n: ['cat'],
+    });
+    expect(grammar.origin).toEqual(['#n.upper# #n.zap# #n.replace(a, " b \\"c\\"")# #n.replace(x)#']);
+    expect(report.map((n) => [n.code, n.message])).toEqual([
+      ['translated-modifier', '.uppercase is translated to .upper'],
+      ['unknown-modifier', '.zap has no equivalent; the output shows ((.zap))'],
+      [
+        'approximate-modifier',
+        '.replace needs two arguments; tracery.js replaces with "undefined" when the second is missing',
+      ],
+    ]);
+  });
+
+  test('escapes text that means something else here and drops actions without effect', () => {
+    const { grammar, report } = importTraceryGrammar({
+      origin: ['score ^2', 'a \\#b\\# [?x=y]c [set #pick#]'],
+      pick: ['[mood:calm]'],
+    });
+    expect(grammar.origin).toEqual(['score \\^2', 'a \\#b\\# c [#pick#]']);
+    expect(report).toEqual([
+      { code: 'ignored-action', rule: 'origin', alternative: 1, message: '[?x=y] has no effect and is dropped' },
+    ]);
+  });
+
+  test('reports values tracery.js cannot expand', () => {
+    const { grammar, report } = importTraceryGrammar({ origin: ['#n#', 3], n: 7, empty: [] });
+    expect(grammar).toEqual({ origin: ['((n))', ''], empty: [''] });
+    expect(report.map((n) => [n.code, n.rule, n.alternative])).toEqual([
+      ['missing-rule', 'origin', 0],
+      ['unsupported-value', 'origin', 1],
+      ['unsupported-value', 'n', undefined],
+      ['unsupported-value', 'empty', undefined],
+    ]);
+    expect(() => importTraceryGrammar(['origin'])).toThrow('A Tracery grammar must be an object');
+  });
+});
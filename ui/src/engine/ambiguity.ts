@@ -0,0 +1,70 @@
+/**
+ * Ambiguity analysis: texts that more than one derivation produces.
+ * Such texts make countStrings (which counts derivations) overstate the number of distinct outputs.
+ */
+
+import type { ConstraintsInput, Generated, GrammarEngine } from './Engine';
+
+type Trace = Generated['trace'];
+
+export interface AmbiguousOutput {
+  text: string;
+  /** One trace per derivation of the text, in enumeration order */
+  traces: Trace[];
+  /** Rules whose chosen alternatives differ between the traces: where the derivations split */
+  differingRules: string[];
+}
+
+export interface AmbiguityReport {
+  /** Derivations examined */
+  derivations: number;
+  distinctTexts: number;
+  /** Most derivations first */
+  ambiguous: AmbiguousOutput[];
+  /** False when maxDerivations stopped the scan before every derivation was seen */
+  complete: boolean;
+}
+
+export interface AmbiguityOptions {
+  constraints?: ConstraintsInput;
+  maxDepth?: number;
+  /** Stop after this many derivations (default 10000) */
+  maxDerivations?: number;
+}
+
+/** Rules whose choices are not identical across all traces */
+export function differingRules(traces: Trace[]): string[] {
+  const rules = new Set(traces.flatMap((trace) => Object.keys(trace)));
+  const key = (trace: Trace, rule: string) => JSON.stringify(trace[rule] ?? []);
+  return [...rules].filter((rule) => traces.some((t) => key(t, rule) !== key(traces[0]!, rule)));
+}
+
+/** Enumerates derivations of `start` and groups them by text */
+export function findAmbiguities(
+  engine: GrammarEngine,
+  start = 'origin',
+  options: AmbiguityOptions = {},
+): AmbiguityReport {
+  const { constraints, maxDepth = Infinity, maxDerivations = 10_000 } = options;
+  const byText = new Map<string, Trace[]>();
+  let derivations = 0;
+  let complete = true;
+
+  for (const g of engine.enumerate(start, constraints, maxDepth)) {
+    if (derivations >= maxDerivations) {
+      complete = false;
+      break;
+    }
+    derivations++;
+    const traces = byText.get(g.text);
+    if (traces) traces.push(g.trace);
+    else byText.set(g.text, [g.trace]);
+  }
+
+  const ambiguous = [...byText]
+    .filter(([, traces]) => traces.length > 1)
+    .map(([text, traces]) => ({ text, traces, differingRules: differingRules(traces) }))
+    .sort((a, b) => b.traces.length - a.traces.length);
+
+  return { derivations, distinctTexts: byText.size, ambiguous, complete };
+}
@@ -1,7 +1,10 @@
 /**
- * Tracery-compatible English string modifiers (ported from tracery.js baseEngModifiers).
+ * Tracery-compatible English string modifiers (ported from tracery.js baseEngModifiers), plus extras
+ * that tracery.js lacks (ing, pluralize, number spelling, escaping, …).
  */
 
+import { parseModifierCall } from "./placeholderParse";
+
 export type ModifierFn = (s: string, params: string[]) => string;
 
 function isVowel(c: string): boolean {
@@ -21,6 +24,89 @@ function escapeRegExp(str: string): string {
   return str.replace(/([.*+?^=!:${}()|[\]/\\])/g, "\\$1");
 }
 
+/** Apply `fn` to the last space-separated word, keeping the capital of a capitalized word */
+function onLastWord(s: string, fn: (lower: string) => string): string {
+  const cut = s.lastIndexOf(" ") + 1;
+  const word = s.slice(cut);
+  const out = fn(word.toLowerCase());
+  if (out === word.toLowerCase()) return s;
+  const capitalized = word.charAt(0) !== word.charAt(0).toLowerCase();
+  return s.slice(0, cut) + (capitalized ? out.charAt(0).toUpperCase() + out.slice(1) : out);
+}
+
+// Word starts that break the vowel rule of `a`: silent h takes "an", a "yoo" or "w" sound takes "a"
+const AN_BEFORE = ["hour", "honest", "honor", "honour", "heir"];
+const A_BEFORE = ["uni", "use", "usu", "uti", "ure", "eu", "ewe", "ubiq"];
+// "one" and "once" only as words ("a one-off", but "an onerous task")
+const A_BEFORE_WORD = /^(?:one|once)\b/;
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  man: "men", woman: "women", child: "children", person: "people", mouse: "mice", louse: "lice",
+  goose: "geese", foot: "feet", tooth: "teeth", ox: "oxen", die: "dice", cactus: "cacti",
+  fungus: "fungi", nucleus: "nuclei", radius: "radii", stimulus: "stimuli", phenomenon: "phenomena",
+  criterion: "criteria", datum: "data", medium: "media", appendix: "appendices", index: "indices",
+  wolf: "wolves", leaf: "leaves", knife: "knives", life: "lives", wife: "wives", half: "halves",
+  calf: "calves", elf: "elves", loaf: "loaves", shelf: "shelves", thief: "thieves", self: "selves",
+  hero: "heroes", potato: "potatoes", tomato: "tomatoes", echo: "echoes", veto: "vetoes", torpedo: "torpedoes",
+};
+const UNCOUNTABLE = new Set([
+  "sheep", "fish", "deer", "moose", "series", "species", "news", "information", "rice", "equipment",
+  "aircraft", "offspring",
+]);
+
+// Words that do not switch the next one to capitals in titleCase (unless first or last)
+const MINOR_WORDS = new Set([
+  "a", "an", "the", "and", "but", "or", "nor", "for", "so", "yet", "of", "on", "in", "at", "to", "by",
+  "up", "as", "off", "per", "via",
+]);
+
+const ONES = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten", "eleven",
+  "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen",
+];
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const SCALES = ["", "thousand", "million", "billion", "trillion", "quadrillion"];
+
+function spellBelowThousand(n: number): string {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(`${ONES[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    words.push(TENS[Math.floor(n / 10)]! + (n % 10 ? `-${ONES[n % 10]}` : ""));
+  } else if (n > 0 || words.length === 0) {
+    words.push(ONES[n]!);
+  }
+  return words.join(" ");
+}
+
+/** American English words for an integer, e.g. 1204 → "one thousand two hundred four" */
+function spellInteger(n: number): string {
+  if (n === 0) return ONES[0]!;
+  const groups: string[] = [];
+  for (let scale = 0; n > 0; scale++, n = Math.floor(n / 1000)) {
+    const group = n % 1000;
+    if (group) groups.unshift(spellBelowThousand(group) + (SCALES[scale] ? ` ${SCALES[scale]}` : ""));
+  }
+  return groups.join(" ");
+}
+
+const ORDINAL_WORDS: Record<string, string> = {
+  one: "first", two: "second", three: "third", five: "fifth", eight: "eighth", nine: "ninth", twelve: "twelfth",
+};
+
+/** Ordinal of a spelled-out number: changes its last word ("twenty-one" → "twenty-first") */
+function ordinalWord(word: string): string {
+  if (ORDINAL_WORDS[word]) return ORDINAL_WORDS[word];
+  if (word.endsWith("y")) return `${word.slice(0, -1)}ieth`;
+  return `${word}th`;
+}
+
+const NUMBER_WORDS = new Set([...ONES, ...TENS.filter(Boolean), "hundred", ...SCALES.filter(Boolean)]);
+
+const XML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" };
+
 export const DEFAULT_ENGLISH_MODIFIERS: Record<string, ModifierFn> = {
   replace(s, params) {
     return s.replace(new RegExp(escapeRegExp(params[0] ?? ""), "g"), params[1] ?? "");
@@ -48,6 +134,9 @@ export const DEFAULT_ENGLISH_MODIFIERS: Record<string, ModifierFn> = {
   },
 
   a(s) {
+    const lower = s.toLowerCase();
+    if (AN_BEFORE.some((start) => lower.startsWith(start))) return `an ${s}`;
+    if (A_BEFORE.some((start) => lower.startsWith(start)) || A_BEFORE_WORD.test(lower)) return `a ${s}`;
     if (s.length > 0) {
       if (s.charAt(0).toLowerCase() === "u") {
         if (s.length > 2 && s.charAt(2).toLowerCase() === "i") {
@@ -103,37 +192,125 @@ export const DEFAULT_ENGLISH_MODIFIERS: Record<string, ModifierFn> = {
         return `${s}ed`;
     }
   },
+
+  ing(s) {
+    const lower = s.toLowerCase();
+    if (lower.endsWith("ie")) return `${s.slice(0, -2)}ying`;
+    if (/[^aeioy]e$/.test(lower) && lower.length > 2) return `${s.slice(0, -1)}ing`;
+    // One-syllable consonant-vowel-consonant words double the last letter: run → running; the u of qu is
+    // part of the consonant (quit → quitting)
+    if (/^(?:qu|[^aeiou])*[aeiou][b-df-hj-np-tvz]$/.test(lower)) return `${s}${s.charAt(s.length - 1)}ing`;
+    return `${s}ing`;
+  },
+
+  possessive(s) {
+    return s.endsWith("s") || s.endsWith("S") ? `${s}'` : `${s}'s`;
+  },
+
+  upper(s) {
+    return s.toUpperCase();
+  },
+
+  lower(s) {
+    return s.toLowerCase();
+  },
+
+  /** Capitalize every word except short function words in the middle; other letters are kept */
+  titleCase(s) {
+    const words = s.split(" ");
+    return words
+      .map((word, i) => {
+        if (i > 0 && i < words.length - 1 && MINOR_WORDS.has(word.toLowerCase())) return word.toLowerCase();
+        return word.charAt(0).toUpperCase() + word.substring(1);
+      })
+      .join(" ");
+  },
+
+  /** Trim the ends and collapse runs of whitespace (left by empty expansions) to one space */
+  trim(s) {
+    return s.trim().replace(/\s+/g, " ");
+  },
+
+  /** Spell out a number: "42" → "forty-two", "-3.05" → "minus three point zero five"; other text is kept */
+  spell(s) {
+    const match = /^\s*(-?)(\d+)(?:\.(\d+))?\s*$/.exec(s);
+    if (!match || !Number.isSafeInteger(Number(match[2]))) return s;
+    const [, sign, whole, fraction] = match;
+    let out = spellInteger(Number(whole));
+    if (fraction) out += ` point ${[...fraction].map((d) => ONES[Number(d)]).join(" ")}`;
+    return sign ? `minus ${out}` : out;
+  },
+
+  /** "1" → "1st", "12" → "12th"; spelled numbers too: "twenty-one" → "twenty-first" */
+  ordinal(s) {
+    if (/^-?\d+$/.test(s.trim())) {
+      const n = Math.abs(Number(s.trim()));
+      const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+      return `${s.trim()}${suffix}`;
+    }
+    return onLastWord(s, (word) => {
+      const parts = word.split("-");
+      if (!parts.every((part) => NUMBER_WORDS.has(part))) return word;
+      return [...parts.slice(0, -1), ordinalWord(parts[parts.length - 1]!)].join("-");
+    });
+  },
+
+  /** Plural of the last word, with irregular and uncountable nouns; `s` keeps tracery.js behaviour */
+  pluralize(s) {
+    return onLastWord(s, (word) => {
+      if (!word || UNCOUNTABLE.has(word)) return word;
+      if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+      if (word.endsWith("is")) return `${word.slice(0, -2)}es`;
+      if (/(ch|sh|ss|x|z)$/.test(word)) return `${word}es`;
+      return DEFAULT_ENGLISH_MODIFIERS.s(word, []);
+    });
+  },
+
+  slug(s) {
+    return s
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "");
+  },
+
+  escapeXml(s) {
+    return s.replace(/[&<>"']/g, (c) => XML_ESCAPES[c]!);
+  },
+
+  /** Escape for use inside a JSON string literal (without the surrounding quotes) */
+  escapeJson(s) {
+    return JSON.stringify(s).slice(1, -1);
+  },
+
+  /** truncate(n) keeps the first n characters and adds "…" when anything was cut; truncate(n,suffix) for another ending */
+  truncate(s, params) {
+    const n = Number.parseInt(params[0] ?? "", 10);
+    if (!Number.isFinite(n) || n < 0 || s.length <= n) return s;
+    return s.slice(0, n).trimEnd() + (params[1] ?? "…");
+  },
 };
 
 /**
- * Parse one modifier segment: "capitalize" or "replace(a,b)".
+ * Parse one modifier segment: "capitalize", "replace(a,b)" or `replace(",", " and ")` (see parseModifierCall).
+ * Arguments with #ref# tags come back as written; only the engine expands them.
  */
 export function parseModifierSegment(segment: string): { name: string; params: string[] } {
-  const open = segment.indexOf("(");
-  if (open <= 0) {
-    return { name: segment, params: [] };
-  }
-  const regExp = /\(([^)]+)\)/;
-  const results = regExp.exec(segment);
-  if (!results || results.length < 2) {
-    return { name: segment.substring(0, open), params: [] };
-  }
-  const name = segment.substring(0, open);
-  const params = results[1]!.split(",").map((p) => p.trim());
-  return { name, params };
+  const { name, args } = parseModifierCall(segment);
+  return { name, params: args.map((arg) => (arg.kind === "text" ? arg.text : arg.template)) };
 }
 
 /**
- * Apply Tracery-style modifier chain left-to-right. Missing modifiers append ((.name)) like tracery.js.
+ * Apply parsed modifier calls left-to-right. Missing modifiers append ((.name)) like tracery.js.
  */
-export function applyModifierPipeline(
+export function applyModifierCalls(
   text: string,
-  modifierSegments: string[],
+  calls: readonly { name: string; params: string[] }[],
   registry: Record<string, ModifierFn>,
 ): string {
   let out = text;
-  for (const seg of modifierSegments) {
-    const { name, params } = parseModifierSegment(seg);
+  for (const { name, params } of calls) {
     const mod = registry[name];
     if (!mod) {
       out += `((.${name}))`;
@@ -143,3 +320,14 @@ export function applyModifierPipeline(
   }
   return out;
 }
+
+/**
+ * Apply Tracery-style modifier chain left-to-right. Missing modifiers append ((.name)) like tracery.js.
+ */
+export function applyModifierPipeline(
+  text: string,
+  modifierSegments: string[],
+  registry: Record<string, ModifierFn>,
+): string {
+  return applyModifierCalls(text, modifierSegments.map(parseModifierSegment), registry);
+}
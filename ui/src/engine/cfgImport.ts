@@ -0,0 +1,322 @@
+/**
+ * Import of context-free grammars written as text, the way grammars come in papers and other tools:
+ * - BNF: `<noun phrase> ::= <det> <noun> | "it"`; when rules are named in angle brackets, bare words are
+ *   terminals
+ * - EBNF (ISO 14977 and W3C): `np = det, noun | "it" ;`, with `(* *)` comments
+ * - NLTK CFG: `NP -> Det N | 'it'`, one or more productions per rule, with `#` comments
+ *
+ * `::=`, `:=`, `=`, `->` and `→` all define a rule; rules end at `;` or `.`, or where the next rule begins.
+ * Optional `[ ]` and repeated `{ }` parts, `( )` groups and the postfix `?`, `*` and `+` are desugared into
+ * new rules (`np_opt: ["", "#det#"]`, `np_rep: ["", "#adj##np_rep#"]`); `ε` or an empty alternative is the
+ * empty string. A bare word that no rule defines is imported as text, and names that are not valid rule
+ * names here are renamed. The first rule is the start symbol: an `origin` rule pointing to it is added
+ * when the grammar has none. Everything changed on the way is listed in the report.
+ *
+ * With `join: 'words'` the parts of a sequence are joined with spaces; optional and repeated parts carry
+ * their space inside, so leaving them out leaves no double space. Quoted text is trimmed, so `"the " <noun>`
+ * gives `the #noun#`. Not handled: a rule that derives the
+ * empty string used between two words still leaves two spaces.
+ */
+
+import { isValidSymbolName } from './grammarGraphModel';
+import { splitAlternativeWeight } from './placeholderParse';
+import type { GrammarRule } from './types';
+
+/**
+ * - renamed-rule: a rule name that is not a valid rule name here
+ * - added-rule: a rule made for an optional, repeated or grouped part, or the `origin` rule
+ * - undefined-symbol: a bare word that no rule defines, imported as text
+ */
+export type CfgImportCode = 'renamed-rule' | 'added-rule' | 'undefined-symbol';
+
+export interface CfgImportNote {
+  code: CfgImportCode;
+  message: string;
+  /** Rule of the imported grammar the note is about (after renaming) */
+  rule: string;
+  /** Line of the grammar text */
+  line: number;
+}
+
+export interface CfgImportResult {
+  grammar: GrammarRule;
+  report: CfgImportNote[];
+}
+
+export interface CfgImportOptions {
+  /**
+   * 'words' puts a space between the parts of a sequence (BNF and NLTK, where terminals are words); 'text'
+   * joins them as written (EBNF, where terminals are character strings). By default 'text' when rules are
+   * defined with `=` and 'words' otherwise.
+   */
+  join?: 'words' | 'text';
+}
+
+interface Token {
+  kind: 'name' | 'angle' | 'string' | 'define' | 'punct' | 'end';
+  text: string;
+  line: number;
+}
+
+type Item =
+  | { kind: 'text'; text: string }
+  | { kind: 'symbol'; name: string; bare: boolean; line: number }
+  | { kind: 'group'; repeat: 'once' | 'optional' | 'many'; alternatives: Item[][]; line: number };
+
+interface Definition {
+  name: string;
+  angle: boolean;
+  alternatives: Item[][];
+  line: number;
+}
+
+const SKIPPED = [/\s+/y, /\(\*[\s\S]*?\*\)/y, /\/\*[\s\S]*?\*\//y, /(?:#|\/\/)[^\n]*/y];
+const TOKENS: [Token['kind'], RegExp][] = [
+  ['string', /'([^'\n]*)'|"([^"\n]*)"/y],
+  ['angle', /<([^<>\n]+)>/y],
+  ['define', /::=|:=|->|→|=/y],
+  ['punct', /[|,()[\]{}?*+]|ε(?![\p{L}\p{N}_])/uy],
+  ['name', /[\p{L}\p{N}_][\p{L}\p{N}_]*(?:-[\p{L}\p{N}_]+)*/uy],
+  ['end', /[;.]/y],
+];
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let at = 0;
+  const match = (re: RegExp): RegExpExecArray | null => {
+    re.lastIndex = at;
+    const m = re.exec(text);
+    if (m) {
+      line += m[0].split('\n').length - 1;
+      at = re.lastIndex;
+    }
+    return m;
+  };
+  outer: while (at < text.length) {
+    for (const re of SKIPPED) if (match(re)) continue outer;
+    for (const [kind, re] of TOKENS) {
+      const tokenLine = line;
+      const m = match(re);
+      if (!m) continue;
+      const value = kind === 'string' ? (m[1] ?? m[2])! : kind === 'angle' ? m[1]!.trim() : m[0];
+      tokens.push({ kind, text: value, line: tokenLine });
+      continue outer;
+    }
+    if (text[at] === '"' || text[at] === "'") throw new Error(`Line ${line}: unclosed quote`);
+    if (text[at] === '-') throw new Error(`Line ${line}: exceptions ("a - b") are not supported`);
+    throw new Error(`Line ${line}: unexpected "${text[at]}"`);
+  }
+  return tokens;
+}
+
+/** Rules of the grammar text, in order; productions of the same rule are merged */
+function parseDefinitions(tokens: readonly Token[]): Definition[] {
+  let pos = 0;
+  const isPunct = (token: Token | undefined, chars: string) =>
+    token?.kind === 'punct' && chars.includes(token.text);
+  const startsRule = (i: number) =>
+    (tokens[i]?.kind === 'name' || tokens[i]?.kind === 'angle') && tokens[i + 1]?.kind === 'define';
+
+  const parseAlternatives = (): Item[][] => {
+    const alternatives = [parseSequence()];
+    while (isPunct(tokens[pos], '|')) {
+      pos++;
+      alternatives.push(parseSequence());
+    }
+    return alternatives;
+  };
+
+  const parseSequence = (): Item[] => {
+    const items: Item[] = [];
+    for (;;) {
+      const token = tokens[pos];
+      if (!token || token.kind === 'end' || isPunct(token, '|)]}') || startsRule(pos)) return items;
+      if (isPunct(token, ',')) pos++;
+      else items.push(...parseItem());
+    }
+  };
+
+  const CLOSING: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+  const REPEAT: Record<string, 'once' | 'optional' | 'many'> = { '(': 'once', '[': 'optional', '{': 'many' };
+
+  const parseItem = (): Item[] => {
+    const token = tokens[pos++]!;
+    let item: Item;
+    if (token.kind === 'string') {
+      item = { kind: 'text', text: token.text };
+    } else if (token.kind === 'name' || token.kind === 'angle') {
+      item = { kind: 'symbol', name: token.text, bare: token.kind === 'name', line: token.line };
+    } else if (token.text === 'ε') {
+      item = { kind: 'text', text: '' };
+    } else if (isPunct(token, '([{')) {
+      const alternatives = parseAlternatives();
+      if (!isPunct(tokens[pos], CLOSING[token.text]!)) {
+        throw new Error(`Line ${token.line}: "${token.text}" is not closed by "${CLOSING[token.text]}"`);
+      }
+      pos++;
+      item = { kind: 'group', repeat: REPEAT[token.text]!, alternatives, line: token.line };
+    } else {
+      throw new Error(`Line ${token.line}: unexpected "${token.text}"`);
+    }
+    // Postfix operators: x? is [x], x* is {x}, x+ is x {x}
+    while (isPunct(tokens[pos], '?*+')) {
+      const op = tokens[pos++]!.text;
+      const repeat = op === '?' ? 'optional' : 'many';
+      const repeated: Item = { kind: 'group', repeat, alternatives: [[item]], line: token.line };
+      item =
+        op === '+' ? { kind: 'group', repeat: 'once', alternatives: [[item, repeated]], line: token.line } : repeated;
+    }
+    return [item];
+  };
+
+  const definitions = new Map<string, Definition>();
+  while (pos < tokens.length) {
+    const token = tokens[pos]!;
+    if (token.kind === 'end') {
+      pos++;
+      continue;
+    }
+    if (!startsRule(pos)) {
+      throw new Error(`Line ${token.line}: expected a rule name followed by ::=, =, or -> before "${token.text}"`);
+    }
+    pos += 2;
+    const alternatives = parseAlternatives();
+    const next = tokens[pos];
+    if (next && next.kind !== 'end' && !startsRule(pos)) {
+      throw new Error(`Line ${next.line}: unexpected "${next.text}"`);
+    }
+    const known = definitions.get(token.text);
+    if (known) {
+      known.alternatives.push(...alternatives);
+    } else {
+      definitions.set(token.text, { name: token.text, angle: token.kind === 'angle', alternatives, line: token.line });
+    }
+  }
+  return [...definitions.values()];
+}
+
+/** Literal text for a template here: `\`, `#` and `[` escaped */
+function escapeText(text: string): string {
+  return text.replace(/[\\#[]/g, '\\$&');
+}
+
+/** A trailing ` ^2` is a weight here */
+function escapeWeightSuffix(alternative: string): string {
+  const { template } = splitAlternativeWeight(alternative);
+  if (template === alternative) return alternative;
+  return template + alternative.slice(template.length).replace('^', '\\^');
+}
+
+/**
+ * Converts BNF, EBNF or NLTK CFG text into a grammar for GrammarEngine, with a report of the rules that
+ * were renamed or added and the words imported as text. Throws on text that is not a grammar, naming the
+ * line.
+ */
+export function importContextFreeGrammar(text: string, options: CfgImportOptions = {}): CfgImportResult {
+  const tokens = tokenize(text);
+  const definitions = parseDefinitions(tokens);
+  if (!definitions.length) throw new Error('No rules found');
+  const join = options.join ?? (tokens.find((token) => token.kind === 'define')!.text === '=' ? 'text' : 'words');
+  const angled = definitions.some((definition) => definition.angle);
+
+  const report: CfgImportNote[] = [];
+  const reported = new Set<string>();
+  const note = (code: CfgImportCode, rule: string, line: number, message: string) => {
+    const key = `${code}\n${rule}\n${message}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    report.push({ code, message, rule, line });
+  };
+
+  // Valid names keep themselves; the others get a name no valid one uses
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const { name } of definitions) {
+    if (isValidSymbolName(name)) {
+      names.set(name, name);
+      taken.add(name);
+    }
+  }
+  const unique = (base: string): string => {
+    let name = base;
+    for (let i = 1; taken.has(name); i++) name = `${base}_${i}`;
+    taken.add(name);
+    return name;
+  };
+  for (const { name, line } of definitions) {
+    if (names.has(name)) continue;
+    const renamed = unique(name.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^(?=[0-9]|$)/, '_'));
+    names.set(name, renamed);
+    note('renamed-rule', renamed, line, `"${name}" is not a valid rule name; renamed to "${renamed}"`);
+  }
+
+  const grammar: GrammarRule = {};
+  const addedRules: GrammarRule = {};
+  // Rules made for groups, by their alternatives, so that the same group is made once
+  const added = new Map<string, string>();
+  const addRule = (rule: string, line: number, kind: string, alternatives: (name: string) => string[]): string => {
+    const key = JSON.stringify(alternatives(''));
+    const known = added.get(key);
+    if (known) return known;
+    const name = unique(`${rule}_${kind}`);
+    added.set(key, name);
+    addedRules[name] = alternatives(name).map(escapeWeightSuffix);
+    const part = { opt: 'an optional part', rep: 'a repeated part', group: 'a group' }[kind];
+    note('added-rule', name, line, `"${name}" is added for ${part} of ${rule}`);
+    return name;
+  };
+
+  const isOptional = (item: Item) => item.kind === 'group' && item.repeat !== 'once';
+
+  const renderSequence = (sequence: readonly Item[], rule: string): string => {
+    if (join === 'text') return sequence.map((item) => renderItem(item, rule, '', '')).join('');
+    // The spaces between words come from the join: text loses the whitespace at its ends, and empty text goes
+    const items = sequence.flatMap((item): Item[] => {
+      if (item.kind !== 'text') return [item];
+      const text = item.text.trim();
+      return text ? [{ kind: 'text', text }] : [];
+    });
+    // Optional parts before the first part that is always there carry the space after them, the
+    // others the space before them
+    const firstSolid = items.findIndex((item) => !isOptional(item));
+    return items
+      .map((item, i) => {
+        if (firstSolid < 0) return renderItem(item, rule, i > 0 ? ' ' : '', '');
+        if (i < firstSolid) return renderItem(item, rule, '', ' ');
+        return renderItem(item, rule, i > firstSolid ? ' ' : '', '');
+      })
+      .join('');
+  };
+
+  const renderItem = (item: Item, rule: string, before: string, after: string): string => {
+    if (item.kind === 'text') return before + escapeText(item.text) + after;
+    if (item.kind === 'symbol') {
+      const defined = names.get(item.name);
+      if (defined !== undefined) return `${before}#${defined}#${after}`;
+      if (!angled || !item.bare) {
+        note('undefined-symbol', rule, item.line, `"${item.name}" has no rule; it is imported as text`);
+      }
+      return before + escapeText(item.name) + after;
+    }
+    const body =
+      item.alternatives.length === 1
+        ? renderSequence(item.alternatives[0]!, rule)
+        : `#${addRule(rule, item.line, 'group', () => item.alternatives.map((alt) => renderSequence(alt, rule)))}#`;
+    if (item.repeat === 'once' || !body) return body && before + body + after;
+    const part = before + body + after;
+    if (item.repeat === 'optional') return `#${addRule(rule, item.line, 'opt', () => ['', part])}#`;
+    return `#${addRule(rule, item.line, 'rep', (self) => ['', `${part}#${self}#`])}#`;
+  };
+
+  const first = names.get(definitions[0]!.name)!;
+  if (!taken.has('origin')) {
+    grammar.origin = [`#${first}#`];
+    note('added-rule', 'origin', definitions[0]!.line, `"origin" is added as the start rule; it expands ${first}`);
+  }
+  for (const { name, alternatives } of definitions) {
+    const rule = names.get(name)!;
+    grammar[rule] = alternatives.map((alternative) => escapeWeightSuffix(renderSequence(alternative, rule)));
+  }
+  return { grammar: { ...grammar, ...addedRules }, report };
+}
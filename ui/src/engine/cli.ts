@@ -0,0 +1,296 @@
+/**
+ * Command-line front end to GrammarProcessor: argument parsing and output formatting.
+ * Nothing here touches Node APIs; cli/metatracery.ts loads the grammar (see grammarImports) and writes the lines.
+ */
+
+import { GrammarProcessor } from './GrammarEngine';
+import type { GenerationStrategy } from './Engine';
+import { csvField } from './factorialDesign';
+import { lintGrammar, type LintDiagnostic } from './grammarLint';
+import { grammarRules } from './grammarModifiers';
+import { isModifierPackName, type ModifierPackName } from './modifierPacks';
+import { parseSeed } from './random';
+import type { GenerationResult, GrammarRule } from './types';
+
+export type CliCommand = 'generate' | 'many' | 'all' | 'count' | 'lint';
+export type CliFormat = 'text' | 'jsonl' | 'csv';
+
+export interface CliOptions {
+  command: CliCommand;
+  /** Grammar files in merge order; `-` is stdin */
+  files: string[];
+  rule: string;
+  /** Pinned values per rule (`-p rule=value`, repeatable) */
+  params: Record<string, string[]>;
+  /** Results for `many` */
+  count: number;
+  /** `many`: distinct texts, drawn without replacement */
+  unique: boolean;
+  seed?: number;
+  strategy: GenerationStrategy;
+  modifiers: boolean;
+  packs: ModifierPackName[];
+  /** Unset: the processor's default, which limits only recursive grammars */
+  maxDepth?: number;
+  /** `all`: stop after this many results */
+  limit: number;
+  format: CliFormat;
+  help: boolean;
+}
+
+export const CLI_USAGE = `Usage: metatracery <command> <grammar.json>... [options]
+
+Commands:
+  generate              one result
+  many                  several independent results (-n)
+  all                   every combination, in a stable order
+  count                 number of combinations
+  lint                  grammar diagnostics; exits with 1 when there are errors
+
+Grammar files are merged in order ("-" reads stdin), with the files they list under "$imports";
+a rule or modifier defined twice is an error.
+
+Options:
+  -r, --rule <name>           start rule (default: origin)
+  -p, --param <rule=value>    pin a parameter; repeat for more rules or allowed values
+  -n, --count <n>             results for "many" (default: 10)
+      --unique                "many": distinct texts only, drawn uniformly (not with --strategy weighted)
+  -s, --seed <n>              seed; the same seed and options give the same output
+      --strategy <name>       uniform | weighted (default: uniform)
+  -m, --modifiers             run modifier chains such as #noun.a#
+      --pack <name>           add a modifier pack (en, ru, de, es); implies --modifiers
+      --max-depth <n>         depth limit for recursive rules (default: 10)
+      --limit <n>             "all": stop after n results
+  -f, --format <name>         text | jsonl | csv (default: text)
+  -h, --help                  show this help
+`;
+
+const COMMANDS: readonly CliCommand[] = ['generate', 'many', 'all', 'count', 'lint'];
+const FORMATS: readonly CliFormat[] = ['text', 'jsonl', 'csv'];
+const STRATEGIES: readonly GenerationStrategy[] = ['uniform', 'weighted'];
+
+/** Options that take a value, by every spelling */
+const VALUE_OPTIONS: Record<string, string> = {
+  '-r': 'rule',
+  '--rule': 'rule',
+  '-p': 'param',
+  '--param': 'param',
+  '-n': 'count',
+  '--count': 'count',
+  '-s': 'seed',
+  '--seed': 'seed',
+  '--strategy': 'strategy',
+  '--pack': 'pack',
+  '--max-depth': 'max-depth',
+  '--limit': 'limit',
+  '-f': 'format',
+  '--format': 'format',
+};
+
+const FLAGS: Record<string, 'unique' | 'modifiers' | 'help'> = {
+  '--unique': 'unique',
+  '-m': 'modifiers',
+  '--modifiers': 'modifiers',
+  '-h': 'help',
+  '--help': 'help',
+};
+
+const positiveInteger = (option: string, value: string): number => {
+  if (!/^\d+$/.test(value) || Number(value) < 1) throw new Error(`--${option} needs a positive integer, got "${value}"`);
+  return Number(value);
+};
+
+const oneOf = <T extends string>(option: string, value: string, allowed: readonly T[]): T => {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`--${option} must be one of ${allowed.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+};
+
+/** Parses argv without the node and script entries; throws with a message fit for the terminal */
+export function parseCliArgs(argv: readonly string[]): CliOptions {
+  const options: CliOptions = {
+    command: 'generate',
+    files: [],
+    rule: 'origin',
+    params: {},
+    count: 10,
+    unique: false,
+    strategy: 'uniform',
+    modifiers: false,
+    packs: [],
+    limit: Infinity,
+    format: 'text',
+    help: false,
+  };
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === '-' || !arg.startsWith('-')) {
+      positional.push(arg);
+      continue;
+    }
+    const eq = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const name = eq < 0 ? arg : arg.slice(0, eq);
+    if (FLAGS[name] && eq < 0) {
+      options[FLAGS[name]] = true;
+      continue;
+    }
+    const option = VALUE_OPTIONS[name];
+    if (!option) throw new Error(`Unknown option ${name}`);
+    let value: string;
+    if (eq >= 0) value = arg.slice(eq + 1);
+    else if (i + 1 < argv.length) value = argv[++i]!;
+    else throw new Error(`${name} needs a value`);
+
+    switch (option) {
+      case 'rule':
+        options.rule = value;
+        break;
+      case 'param': {
+        const split = value.indexOf('=');
+        if (split <= 0) throw new Error(`--param needs rule=value, got "${value}"`);
+        (options.params[value.slice(0, split)] ??= []).push(value.slice(split + 1));
+        break;
+      }
+      case 'count':
+        options.count = positiveInteger(option, value);
+        break;
+      case 'seed': {
+        const seed = parseSeed(value);
+        if (seed === null) throw new Error(`--seed needs a non-negative integer, got "${value}"`);
+        options.seed = seed;
+        break;
+      }
+      case 'strategy':
+        options.strategy = oneOf(option, value, STRATEGIES);
+        break;
+      case 'pack':
+        if (!isModifierPackName(value)) throw new Error(`Unknown modifier pack "${value}"`);
+        options.packs.push(value);
+        options.modifiers = true;
+        break;
+      case 'max-depth':
+        options.maxDepth = positiveInteger(option, value);
+        break;
+      case 'limit':
+        options.limit = positiveInteger(option, value);
+        break;
+      case 'format':
+        options.format = oneOf(option, value, FORMATS);
+        break;
+    }
+  }
+
+  if (options.help) return options;
+  const [command, ...files] = positional;
+  if (!command) throw new Error('Missing command');
+  if (!(COMMANDS as readonly string[]).includes(command)) throw new Error(`Unknown command "${command}"`);
+  options.command = command as CliCommand;
+  if (!files.length) throw new Error('Missing grammar file');
+  options.files = files;
+  if (options.unique && options.strategy === 'weighted') {
+    throw new Error('--unique draws distinct texts uniformly; it cannot be combined with --strategy weighted');
+  }
+  return options;
+}
+
+const jsonLine = (value: unknown) => JSON.stringify(value);
+
+function* resultLines(
+  results: Iterable<GenerationResult>,
+  format: CliFormat,
+  parameters: string[],
+  position: 'seed' | 'index',
+): Generator<string> {
+  if (format === 'csv') yield ['text', ...parameters, position].join(',');
+  let index = 0;
+  for (const { content, metadata } of results) {
+    const at = metadata[position] ?? (position === 'index' ? index : undefined);
+    index++;
+    if (format === 'text') {
+      yield content;
+    } else if (format === 'jsonl') {
+      yield jsonLine({
+        text: content,
+        parameters: metadata.relevantParameters,
+        ...(metadata.bindings ? { bindings: metadata.bindings } : {}),
+        [position]: at,
+      });
+    } else {
+      const row = parameters.map((name) => csvField(metadata.relevantParameters[name] ?? ''));
+      yield [csvField(content), ...row, at ?? ''].join(',');
+    }
+  }
+}
+
+function* lintLines(diagnostics: LintDiagnostic[], format: CliFormat): Generator<string> {
+  if (format === 'csv') yield 'severity,code,rule,alternative,message';
+  for (const d of diagnostics) {
+    const alternative = d.alternative === undefined ? undefined : d.alternative + 1;
+    if (format === 'jsonl') yield jsonLine({ ...d, ...(alternative !== undefined ? { alternative } : {}) });
+    else if (format === 'csv') {
+      yield [d.severity, d.code, csvField(d.rule), alternative ?? '', csvField(d.message)].join(',');
+    } else {
+      const where = alternative === undefined ? d.rule : `${d.rule} › ${alternative}`;
+      yield `${d.severity} ${where} ${d.code}: ${d.message}`;
+    }
+  }
+}
+
+function* limited<T>(items: Iterable<T>, limit: number): Generator<T> {
+  if (limit <= 0) return;
+  let n = 0;
+  for (const item of items) {
+    yield item;
+    if (++n >= limit) return;
+  }
+}
+
+/**
+ * Runs a parsed command on a grammar, yielding output lines as they are produced.
+ * The generator's return value is the exit code (1 for a lint with errors, 0 otherwise).
+ * Alternatives in `lint` output are numbered from 1, as in the editor.
+ */
+export function* runCli(options: CliOptions, grammar: GrammarRule): Generator<string, number> {
+  const { format } = options;
+  if (options.command === 'lint') {
+    const diagnostics = lintGrammar(grammar, { start: options.rule });
+    yield* lintLines(diagnostics, format);
+    return diagnostics.some((d) => d.severity === 'error') ? 1 : 0;
+  }
+
+  const processor = new GrammarProcessor(grammar, {
+    processModifiers: options.modifiers,
+    modifierPacks: options.packs,
+    ...(options.maxDepth !== undefined ? { maxDepth: options.maxDepth } : {}),
+    ...(options.seed !== undefined ? { randomSeed: options.seed } : {}),
+  });
+  if (!Object.hasOwn(grammarRules(grammar), options.rule)) throw new Error(`No rule "${options.rule}"`);
+  const parameters = Object.keys(processor.getParameters());
+  const { rule, params, strategy, seed } = options;
+
+  switch (options.command) {
+    case 'count': {
+      const count = processor.getTotalCombinations(rule, params);
+      if (format === 'jsonl') yield jsonLine({ rule, count });
+      else if (format === 'csv') yield* ['rule,count', `${csvField(rule)},${count}`];
+      else yield String(count);
+      return 0;
+    }
+    case 'generate':
+      yield* resultLines([processor.generateWithParameters(rule, params, strategy, seed)], format, parameters, 'seed');
+      return 0;
+    case 'many': {
+      const results = options.unique
+        ? processor.generateDistinct(rule, params, options.count, 'text', seed).results
+        : processor.generateMany(rule, params, options.count, strategy, seed);
+      yield* resultLines(results, format, parameters, options.unique ? 'index' : 'seed');
+      return 0;
+    }
+    case 'all':
+      yield* resultLines(limited(processor.iterateCombinations(rule, params), options.limit), format, parameters, 'index');
+      return 0;
+  }
+}
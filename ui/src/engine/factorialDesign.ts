@@ -0,0 +1,112 @@
+/**
+ * Factorial designs over grammar parameters: which level combinations (cells) to generate.
+ * Generation itself lives in GrammarProcessor.generateFactorialDesign.
+ */
+
+import type { FactorialDesignOptions, FactorialTrial } from './types';
+import { shuffle, type RandomSource } from './random';
+
+type Cell = Record<string, string>;
+
+/** Every combination of levels; the last factor varies fastest. */
+export function fullFactorialCells(factors: Record<string, string[]>): Cell[] {
+  let cells: Cell[] = [{}];
+  for (const [name, levels] of Object.entries(factors)) {
+    cells = cells.flatMap((cell) => levels.map((level) => ({ ...cell, [name]: level })));
+  }
+  return cells;
+}
+
+/**
+ * Latin square (hypercube for more than three factors): all factors need the same number of levels n.
+ * The last factor's level index is the sum of the others mod n, so every level of it meets every level
+ * of each other factor equally often. With `rng`, levels are randomly permuted per factor.
+ */
+export function latinSquareCells(factors: Record<string, string[]>, rng?: RandomSource): Cell[] {
+  const names = Object.keys(factors);
+  if (names.length < 2) throw new Error('A Latin square needs at least two factors');
+  const n = factors[names[0]!]!.length;
+  if (names.some((name) => factors[name]!.length !== n)) {
+    throw new Error('A Latin square needs the same number of levels for every factor');
+  }
+  const levels = Object.fromEntries(
+    names.map((name) => [name, rng ? shuffle(factors[name]!, rng) : factors[name]!]),
+  );
+  const last = names[names.length - 1]!;
+  const leading = Object.fromEntries(names.slice(0, -1).map((name) => [name, levels[name]!]));
+  return fullFactorialCells(leading).map((cell) => {
+    const sum = Object.entries(cell).reduce(
+      (acc, [name, level]) => acc + levels[name]!.indexOf(level),
+      0,
+    );
+    return { ...cell, [last]: levels[last]![sum % n]! };
+  });
+}
+
+/**
+ * `count` cells of the full design, picked greedily so each level of each factor is used as evenly
+ * as possible. Ties are broken by a (seeded) random order of the candidate cells.
+ */
+export function balancedCells(
+  factors: Record<string, string[]>,
+  count: number,
+  rng?: RandomSource,
+): Cell[] {
+  const all = fullFactorialCells(factors);
+  if (!Number.isInteger(count) || count < 1 || count > all.length) {
+    throw new Error(`Balanced design needs between 1 and ${all.length} cells`);
+  }
+  const remaining = rng ? shuffle(all, rng) : all;
+  const uses = new Map<string, number>();
+  const levelKey = (name: string, level: string) => JSON.stringify([name, level]);
+  const score = (cell: Cell) =>
+    Object.entries(cell).reduce((acc, [name, level]) => acc + (uses.get(levelKey(name, level)) ?? 0), 0);
+
+  const picked: Cell[] = [];
+  while (picked.length < count) {
+    let best = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (score(remaining[i]!) < score(remaining[best]!)) best = i;
+    }
+    const [cell] = remaining.splice(best, 1);
+    for (const [name, level] of Object.entries(cell!)) {
+      uses.set(levelKey(name, level), (uses.get(levelKey(name, level)) ?? 0) + 1);
+    }
+    picked.push(cell!);
+  }
+  return picked;
+}
+
+/** Cells of the requested design, in design order. */
+export function planFactorialCells(options: FactorialDesignOptions, rng?: RandomSource): Cell[] {
+  for (const [name, levels] of Object.entries(options.factors)) {
+    if (levels.length === 0) throw new Error(`Factor "${name}" has no levels`);
+  }
+  switch (options.design ?? 'full') {
+    case 'full':
+      return fullFactorialCells(options.factors);
+    case 'latinSquare':
+      return latinSquareCells(options.factors, rng);
+    case 'balanced':
+      return balancedCells(options.factors, options.cellCount ?? 0, rng);
+  }
+}
+
+export const csvField = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+/** Flat CSV: trial, cell, replicate, one column per factor, generated text, seed. */
+export function factorialTrialsToCsv(trials: FactorialTrial[], factorNames?: string[]): string {
+  const names = factorNames ?? [...new Set(trials.flatMap((t) => Object.keys(t.levels)))];
+  const header = ['trial', 'cell', 'replicate', ...names, 'generated_text', 'seed'];
+  const rows = trials.map((t) =>
+    [
+      t.trial,
+      t.cell,
+      t.replicate,
+      ...names.map((name) => csvField(t.levels[name] ?? '')),
+      csvField(t.content),
+      t.seed,
+    ].join(','),
+  );
+  return [header.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,245 @@
+/**
+ * Export of a grammar to the notations other grammar tools read:
+ * - ebnf: ISO 14977 EBNF, `rule = "a ", other | ;`
+ * - nltk: what `nltk.CFG.fromstring` parses, one production per alternative; literals are split into words,
+ *   since NLTK parses lists of tokens
+ * - lark: a Lark grammar with lowercase rule names and a `start` rule, close to what ANTLR reads
+ *
+ * The export is the context-free part of the grammar, taken from the engine's parsed rules. Literal text is
+ * exported as it generates (`\#` is a `#`) and quoted for the target. What has no equivalent there is kept
+ * as a comment above the rule: modifiers that are not applied, weights, guards and actions. A variable
+ * (`#$hero#`) is exported as the rule its `#hero=name#` tag binds, and a symbol that only actions fill as
+ * a rule with every text pushed onto it.
+ */
+
+import { GrammarEngine, isArgPush, isBindingPush, walkAst, type ActionNode, type AstNode } from './Engine';
+import { grammarRules } from './grammarModifiers';
+import { isVariableName, splitAlternativeGuards, splitAlternativeWeight } from './placeholderParse';
+import type { GrammarRule } from './types';
+
+export type GrammarExportFormat = 'ebnf' | 'nltk' | 'lark';
+
+export const GRAMMAR_EXPORT_FORMATS: { format: GrammarExportFormat; label: string; extension: string }[] = [
+  { format: 'ebnf', label: 'EBNF', extension: 'ebnf' },
+  { format: 'nltk', label: 'NLTK CFG', extension: 'cfg' },
+  { format: 'lark', label: 'Lark / ANTLR-style', extension: 'lark' },
+];
+
+type CfgSymbol = { terminal: string } | { rule: string };
+
+interface CfgAlternative {
+  symbols: CfgSymbol[];
+  /** What the export leaves out, e.g. `weight 3` */
+  notes: string[];
+  /** The alternative as written, for the notes */
+  source: string;
+}
+
+interface CfgRule {
+  name: string;
+  alternatives: CfgAlternative[];
+  note?: string;
+}
+
+/** The grammar as context-free rules, with notes on everything that does not carry over */
+function contextFreeRules(grammar: GrammarRule): CfgRule[] {
+  const rules = grammarRules(grammar);
+  const parsed = new GrammarEngine(rules).parsedRules();
+
+  // Texts pushed onto each symbol, and the rules each variable is bound to
+  const pushed = new Map<string, AstNode[]>();
+  const bound = new Map<string, string[]>();
+  for (const alternation of Object.values(parsed)) {
+    walkAst(alternation, (node) => {
+      if (node.kind !== 'action' || node.action !== 'push') return;
+      // Modifier arguments are pushed too; they have no rule of their own
+      const action: ActionNode = node;
+      if (isArgPush(action)) return;
+      if (isBindingPush(node)) {
+        const rule = node.rules[0];
+        if (rule?.kind === 'reference' && !bound.get(node.target)?.includes(rule.name)) {
+          bound.set(node.target, [...(bound.get(node.target) ?? []), rule.name]);
+        }
+        return;
+      }
+      pushed.set(node.target, [...(pushed.get(node.target) ?? []), ...node.rules]);
+    });
+  }
+
+  const symbolsOf = (node: AstNode, out: CfgSymbol[], notes: Set<string>): void => {
+    switch (node.kind) {
+      case 'literal':
+        if (node.text) out.push({ terminal: node.text });
+        break;
+      case 'sequence':
+        for (const part of node.parts) symbolsOf(part, out, notes);
+        break;
+      case 'alternation':
+        if (node.options[0]) symbolsOf(node.options[0], out, notes);
+        break;
+      case 'action':
+        // A binding's push is exported with the variable that repeats it
+        if (!isArgPush(node) && !isBindingPush(node)) notes.add('actions left out');
+        break;
+      case 'reference': {
+        const source = node.bound ?? node;
+        if (source.preactions.some((action) => !isArgPush(action))) notes.add('actions left out');
+        if (node.modifiers.length) notes.add(`.${node.modifiers.join('.')} not applied`);
+        if (node.bound) {
+          out.push({ rule: node.bound.name });
+        } else if (isVariableName(node.name)) {
+          const rules = bound.get(node.name) ?? [];
+          if (rules.length) {
+            notes.add(`#${node.name}# repeats the text bound to it; exported as #${rules.join('# or #')}#`);
+            out.push({ rule: rules[0]! });
+          } else {
+            notes.add(`#${node.name}# is never bound; left out`);
+          }
+        } else {
+          out.push({ rule: node.name });
+        }
+        break;
+      }
+    }
+  };
+
+  const alternativeOf = (node: AstNode, source: string, notes: Set<string>): CfgAlternative => {
+    const symbols: CfgSymbol[] = [];
+    symbolsOf(node, symbols, notes);
+    return { symbols, notes: [...notes], source };
+  };
+
+  const out: CfgRule[] = Object.entries(parsed).map(([name, alternation]) => ({
+    name,
+    alternatives: alternation.options.map((option, i) => {
+      const written = rules[name]![i]!;
+      const { template, weight } = splitAlternativeWeight(written);
+      const notes = new Set<string>();
+      if (weight !== 1) notes.add(`weight ${weight}`);
+      for (const guard of splitAlternativeGuards(template).guards) {
+        notes.add(`only when ${guard.rule} ${guard.negate ? 'is not' : 'is'} ${guard.values.join(' or ')}`);
+      }
+      return alternativeOf(option, written, notes);
+    }),
+  }));
+  for (const [name, texts] of pushed) {
+    if (Object.hasOwn(parsed, name)) continue;
+    out.push({
+      name,
+      note: 'filled by actions at run time; exported with every text pushed onto it',
+      alternatives: texts.map((text) => alternativeOf(text, '', new Set())),
+    });
+  }
+  // Tools start from the first rule (NLTK) or expect it there
+  const origin = out.findIndex((rule) => rule.name === 'origin');
+  if (origin > 0) out.unshift(...out.splice(origin, 1));
+  return out;
+}
+
+/** Export names: `::` is not allowed anywhere, Lark rules are lowercase; clashes get a number */
+function exportNames(rules: readonly CfgRule[], format: GrammarExportFormat): (name: string) => string {
+  const names = new Map<string, string>();
+  const taken = new Set<string>(format === 'lark' ? ['start'] : []);
+  const exportName = (name: string): string => {
+    const known = names.get(name);
+    if (known !== undefined) return known;
+    let base = name.replace(/::/g, '__');
+    if (format === 'lark') base = base.toLowerCase().replace(/^(?![a-z])/, 'r');
+    let unique = base;
+    for (let i = 1; taken.has(unique); i++) unique = `${base}_${i}`;
+    names.set(name, unique);
+    taken.add(unique);
+    return unique;
+  };
+  for (const rule of rules) exportName(rule.name);
+  return exportName;
+}
+
+/** Quoted terminals for text that may contain both quote characters (split around `"`) */
+function quotePieces(text: string, prefer: '"' | "'"): string[] {
+  const other = prefer === '"' ? "'" : '"';
+  if (!text.includes(prefer)) return [`${prefer}${text}${prefer}`];
+  if (!text.includes(other)) return [`${other}${text}${other}`];
+  return text
+    .split('"')
+    .flatMap((piece, i) => [...(i > 0 ? [`'"'`] : []), ...(piece ? [`"${piece}"`] : [])]);
+}
+
+/** Note on one alternative, e.g. `story 2 "[?mood=calm] #calm#": only when mood is calm` */
+function alternativeNote(rule: CfgRule, index: number): string | undefined {
+  const { notes, source } = rule.alternatives[index]!;
+  if (!notes.length) return undefined;
+  return `${rule.name} ${index + 1}${source ? ` ${JSON.stringify(source)}` : ''}: ${notes.join('; ')}`;
+}
+
+/** Notes on a rule and all of its alternatives */
+function ruleNotes(rule: CfgRule): string[] {
+  const notes = rule.alternatives.map((_, i) => alternativeNote(rule, i));
+  return [...(rule.note ? [`${rule.name}: ${rule.note}`] : []), ...notes.filter((note) => note !== undefined)];
+}
+
+/** `head alt1` with the other alternatives on their own lines, `|` under the end of `head` */
+function alternativeLines(head: string, alternatives: readonly string[], end = ''): string {
+  return `${head}${alternatives.join(`\n${' '.repeat(head.length - 2)}| `)}`.trimEnd() + end;
+}
+
+const HEADERS: Record<GrammarExportFormat, string> = {
+  ebnf: 'Context-free export (ISO 14977 EBNF).',
+  nltk: 'Context-free export for nltk.CFG.fromstring. Terminals are words: literal text is split at spaces.',
+  lark: 'Context-free export (Lark).',
+};
+const HEADER_NOTE = 'Modifiers, weights, guards and actions have no equivalent; they are noted above each rule.';
+
+/**
+ * The grammar (with or without `$modifiers`) as EBNF, an NLTK CFG or a Lark grammar; see the top of this
+ * file for what carries over.
+ */
+export function exportGrammar(grammar: GrammarRule, format: GrammarExportFormat): string {
+  const rules = contextFreeRules(grammar);
+  const name = exportNames(rules, format);
+  const lines: string[] = [];
+
+  if (format === 'ebnf') {
+    const comment = (text: string) => `(* ${text.replace(/\*\)/g, '* )')} *)`;
+    lines.push(comment(HEADERS.ebnf), comment(HEADER_NOTE));
+    for (const rule of rules) {
+      const alternatives = rule.alternatives.map((alternative) =>
+        alternative.symbols
+          .flatMap((symbol) => ('rule' in symbol ? [name(symbol.rule)] : quotePieces(symbol.terminal, '"')))
+          .join(', '),
+      );
+      lines.push('', ...ruleNotes(rule).map(comment), alternativeLines(`${name(rule.name)} = `, alternatives, ' ;'));
+    }
+  } else if (format === 'nltk') {
+    lines.push(`# ${HEADERS.nltk}`, `# ${HEADER_NOTE}`);
+    for (const rule of rules) {
+      lines.push('');
+      if (rule.note) lines.push(`# ${rule.name}: ${rule.note}`);
+      rule.alternatives.forEach((alternative, i) => {
+        const note = alternativeNote(rule, i);
+        if (note) lines.push(`# ${note}`);
+        const rhs = alternative.symbols.flatMap((symbol) =>
+          'rule' in symbol
+            ? [name(symbol.rule)]
+            : symbol.terminal
+                .split(/\s+/)
+                .filter(Boolean)
+                .flatMap((word) => quotePieces(word, "'")),
+        );
+        lines.push(`${name(rule.name)} -> ${rhs.join(' ')}`.trimEnd());
+      });
+    }
+  } else {
+    lines.push(`// ${HEADERS.lark}`, `// ${HEADER_NOTE}`);
+    if (rules[0]) lines.push('', `start: ${name(rules[0].name)}`);
+    for (const rule of rules) {
+      const alternatives = rule.alternatives.map((alternative) =>
+        alternative.symbols
+          .map((symbol) => ('rule' in symbol ? name(symbol.rule) : JSON.stringify(symbol.terminal)))
+          .join(' '),
+      );
+      lines.push('', ...ruleNotes(rule).map((note) => `// ${note}`), alternativeLines(`${name(rule.name)}: `, alternatives));
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -3,24 +3,121 @@
  */
 
 import type { GrammarRule } from './types';
-import { decodePlaceholderInner, parsePlaceholderInner, splitTemplateSegments } from './placeholderParse';
+import {
+  formatAlternativeWeight,
+  parseActionInner,
+  parseModifierCall,
+  parsePlaceholder,
+  splitTemplateSegments,
+} from './placeholderParse';
+import { MODIFIERS_KEY, normalizeModifierJson } from './grammarModifiers';
 
 /**
- * All rule names referenced by #name# or #name.mod# in a template (order of first occurrence).
+ * Walk placeholders and actions of a template, including templates nested inside actions and modifier arguments.
  */
-export function extractRefNamesFromTemplate(template: string): string[] {
-  const names: string[] = [];
+function visitTemplate(
+  template: string,
+  onRef: (name: string) => void,
+  onActionTarget: (name: string) => void,
+): void {
+  const visitAction = (inner: string) => {
+    const action = parseActionInner(inner);
+    if (action.kind === 'run') {
+      visitTemplate(action.template, onRef, onActionTarget);
+      return;
+    }
+    onActionTarget(action.target);
+    if (action.kind === 'push') {
+      for (const rule of action.rules) visitTemplate(rule, onRef, onActionTarget);
+    }
+  };
+
   for (const seg of splitTemplateSegments(template)) {
-    if (seg.kind !== 'placeholder') continue;
+    if (seg.kind === 'literal') continue;
     try {
-      names.push(parsePlaceholderInner(decodePlaceholderInner(seg.innerRaw)).ruleName);
+      if (seg.kind === 'action') {
+        visitAction(seg.innerRaw);
+        continue;
+      }
+      const { ruleName, modifierSegments, actions, binding } = parsePlaceholder(seg.innerRaw);
+      actions.forEach(visitAction);
+      if (binding) onActionTarget(binding);
+      for (const segment of modifierSegments) {
+        for (const arg of parseModifierCall(segment).args) {
+          if (arg.kind === 'template') visitTemplate(arg.template, onRef, onActionTarget);
+        }
+      }
+      onRef(ruleName);
     } catch {
       // skip invalid tags
     }
   }
+}
+
+/**
+ * All rule names referenced by #name# or #name.mod# in a template (order of first occurrence),
+ * including references inside Tracery actions like `[hero:#name#]` and modifier arguments.
+ */
+export function extractRefNamesFromTemplate(template: string): string[] {
+  const names: string[] = [];
+  visitTemplate(template, (name) => names.push(name), () => {});
   return names;
 }
 
+/**
+ * Symbols pushed or popped by Tracery actions (`[hero:…]`, `[hero:POP]`) in a template, and variables
+ * bound by `#hero=name#` (`$hero`).
+ */
+export function extractActionTargetsFromTemplate(template: string): string[] {
+  const targets: string[] = [];
+  visitTemplate(template, () => {}, (name) => targets.push(name));
+  return targets;
+}
+
+/**
+ * Every symbol that some action in the grammar pushes to; such symbols need no grammar key.
+ */
+export function collectActionTargets(grammar: GrammarRule): Set<string> {
+  const targets = new Set<string>();
+  for (const alts of Object.values(grammar)) {
+    for (const alt of alts) {
+      for (const name of extractActionTargetsFromTemplate(alt)) targets.add(name);
+    }
+  }
+  return targets;
+}
+
+/**
+ * Normalize parsed grammar JSON: alternatives may be strings or `{ "text": "...", "weight": 3 }`
+ * objects, which become `"... ^3"` strings; `$modifiers` tables become definition lines. Throws on any other shape.
+ */
+export function normalizeGrammarJson(data: unknown): GrammarRule {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Grammar must be an object of rule name → alternatives');
+  }
+  const out: GrammarRule = {};
+  for (const [name, alternatives] of Object.entries(data as Record<string, unknown>)) {
+    if (name === MODIFIERS_KEY) {
+      out[name] = normalizeModifierJson(alternatives);
+      continue;
+    }
+    if (!Array.isArray(alternatives)) {
+      throw new Error(`Rule "${name}" must be an array of alternatives`);
+    }
+    out[name] = alternatives.map((alt: unknown) => {
+      if (typeof alt === 'string') return alt;
+      if (alt !== null && typeof alt === 'object') {
+        const { text, weight = 1 } = alt as { text?: unknown; weight?: unknown };
+        if (typeof text === 'string' && typeof weight === 'number' && weight >= 0) {
+          return formatAlternativeWeight(text, weight);
+        }
+      }
+      throw new Error(`Rule "${name}": alternatives must be strings or { "text", "weight" } objects`);
+    });
+  }
+  return out;
+}
+
 /**
  * Static = no #symbol# placeholders (literals only, including empty).
  */
@@ -71,21 +168,63 @@ export function buildEdges(grammar: GrammarRule): GrammarEdge[] {
 }
 
 /**
- * Refs in templates that do not exist as keys (possible typos).
+ * Refs in templates that do not exist as keys (possible typos). Action targets are defined at runtime.
  */
 export function findMissingRefs(grammar: GrammarRule): string[] {
   const keys = new Set(Object.keys(grammar));
+  const runtime = collectActionTargets(grammar);
   const missing = new Set<string>();
   for (const alts of Object.values(grammar)) {
     for (const alt of alts) {
       for (const ref of extractRefNamesFromTemplate(alt)) {
-        if (!keys.has(ref)) missing.add(ref);
+        if (!keys.has(ref) && !runtime.has(ref)) missing.add(ref);
       }
     }
   }
   return [...missing].sort();
 }
 
+/**
+ * Strongly connected components that contain a cycle (several nodes, or one that points to itself),
+ * among the nodes reachable from `roots`. Each component lists its nodes in discovery order.
+ */
+export function recursiveComponents<T>(roots: Iterable<T>, successors: (node: T) => Iterable<T>): T[][] {
+  const index = new Map<T, number>();
+  const low = new Map<T, number>();
+  const stack: T[] = [];
+  const onStack = new Set<T>();
+  const out: T[][] = [];
+
+  const connect = (v: T) => {
+    index.set(v, index.size);
+    low.set(v, index.get(v)!);
+    stack.push(v);
+    onStack.add(v);
+    let selfLoop = false;
+    for (const w of successors(v)) {
+      if (w === v) selfLoop = true;
+      if (!index.has(w)) {
+        connect(w);
+        low.set(v, Math.min(low.get(v)!, low.get(w)!));
+      } else if (onStack.has(w)) {
+        low.set(v, Math.min(low.get(v)!, index.get(w)!));
+      }
+    }
+    if (low.get(v) !== index.get(v)) return;
+    const component: T[] = [];
+    let w: T;
+    do {
+      w = stack.pop()!;
+      onStack.delete(w);
+      component.push(w);
+    } while (w !== v);
+    if (component.length > 1 || selfLoop) out.push(component.reverse());
+  };
+
+  for (const root of roots) if (!index.has(root)) connect(root);
+  return out;
+}
+
 /**
  * Unique key for a new rule (e.g. rule, rule_1, rule_2).
  */
@@ -122,13 +261,14 @@ export function collectAllReferencedSymbols(grammar: GrammarRule): Set<string> {
 
 /**
  * For each #symbol# used in any template, ensure grammar has that key (empty rule by default).
- * Call after edits so new references create nodes automatically.
+ * Call after edits so new references create nodes automatically. Symbols pushed by actions are skipped.
  */
 export function ensureRulesForReferences(grammar: GrammarRule): GrammarRule {
   const refs = collectAllReferencedSymbols(grammar);
+  const runtime = collectActionTargets(grammar);
   const next = { ...grammar };
   for (const name of refs) {
-    if (!(name in next)) {
+    if (!(name in next) && !runtime.has(name)) {
       next[name] = [''];
     }
   }
@@ -0,0 +1,204 @@
+/**
+ * Multi-file grammars. A grammar file lists the grammars it builds on under the reserved `$imports` key:
+ *
+ *   "$imports": ["colors.json", "people = ../shared/names.json"]
+ *
+ * Each import gets a namespace, by default the file name without its extension, and the importing grammar
+ * refers to its rules as `#colors::bright#` (also in guards and action targets). An imported file is
+ * written as if it stood alone: while merging, its own rules and its own imports are qualified, so
+ * `#bright#` in colors.json becomes `#colors::bright#` and `#shades::dark#` becomes `#colors::shades::dark#`.
+ * A name the imported file neither defines, pushes nor imports is qualified all the same, so it never binds
+ * to a rule of the importing grammar, and is reported as unresolved.
+ * `$modifiers` of every file go into one shared registry.
+ *
+ * Paths are relative to the importing file; URLs resolve against the importing URL. Reading is left to the
+ * caller, so this works with the file system and with fetch alike.
+ */
+
+import { collectActionTargets, normalizeGrammarJson } from './grammarGraphModel';
+import { MODIFIERS_KEY, compileModifierDefinitions } from './grammarModifiers';
+import {
+  formatAlternativeGuards,
+  formatAlternativeWeight,
+  renameReferences,
+  splitAlternativeGuards,
+  splitAlternativeWeight,
+} from './placeholderParse';
+import type { GrammarRule } from './types';
+
+export const IMPORTS_KEY = '$imports';
+export const NAMESPACE_SEPARATOR = '::';
+
+/** Text of a grammar file (or URL); may be async */
+export type GrammarFileReader = (path: string) => string | Promise<string>;
+
+/** A name an imported file uses without defining, pushing or importing it */
+export interface UnresolvedReference {
+  file: string;
+  name: string;
+  /** What the name became in the merged grammar: qualified under the file's namespace */
+  qualified: string;
+}
+
+export interface LoadGrammarOptions {
+  onUnresolved?: (reference: UnresolvedReference) => void;
+}
+
+interface GrammarImport {
+  namespace: string;
+  path: string;
+}
+
+interface GrammarFile {
+  rules: GrammarRule;
+  modifiers: string[];
+  imports: GrammarImport[];
+}
+
+const NAMESPACE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ALIASED_IMPORT = /^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.+)$/;
+const URL_PREFIX = /^[A-Za-z][A-Za-z0-9+.-]*:\/\//;
+
+/** `a/./b/../c.json` → `a/c.json`; leading `..` of a relative path stay */
+function normalizePath(path: string): string {
+  const out: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '.' || (part === '' && out.length > 0)) continue;
+    if (part === '..' && out.length > 0 && out[out.length - 1] !== '..' && out[out.length - 1] !== '') out.pop();
+    else out.push(part);
+  }
+  return out.join('/');
+}
+
+/** Path of `spec` imported from the file at `from` */
+export function resolveImportPath(from: string, spec: string): string {
+  if (URL_PREFIX.test(spec)) return spec;
+  if (URL_PREFIX.test(from)) return new URL(spec, from).href;
+  if (spec.startsWith('/')) return normalizePath(spec);
+  return normalizePath(from.slice(0, from.lastIndexOf('/') + 1) + spec);
+}
+
+function parseImport(entry: string, file: string): GrammarImport {
+  const aliased = ALIASED_IMPORT.exec(entry.trim());
+  if (aliased) return { namespace: aliased[1]!, path: aliased[2]!.trim() };
+  const path = entry.trim();
+  const namespace = path.slice(path.lastIndexOf('/') + 1).replace(/\.[^.]*$/, '');
+  if (!NAMESPACE.test(namespace)) {
+    throw new Error(`${file}: import "${path}" needs a namespace, e.g. "name = ${path}"`);
+  }
+  return { namespace, path };
+}
+
+function parseGrammarFile(file: string, text: string): GrammarFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`${file}: ${err instanceof Error ? err.message : 'invalid JSON'}`);
+  }
+  let imports: GrammarImport[] = [];
+  if (data !== null && typeof data === 'object' && Object.hasOwn(data, IMPORTS_KEY)) {
+    const { [IMPORTS_KEY]: entries, ...rest } = data as Record<string, unknown>;
+    if (!Array.isArray(entries) || !entries.every((entry) => typeof entry === 'string')) {
+      throw new Error(`${file}: "${IMPORTS_KEY}" must be a list of file paths`);
+    }
+    imports = entries.map((entry) => parseImport(entry, file));
+    data = rest;
+  }
+  let grammar: GrammarRule;
+  try {
+    grammar = normalizeGrammarJson(data);
+  } catch (err) {
+    throw new Error(`${file}: ${err instanceof Error ? err.message : 'invalid grammar'}`);
+  }
+  const { [MODIFIERS_KEY]: modifiers = [], ...rules } = grammar;
+  return { rules, modifiers, imports };
+}
+
+/** An alternative with its references, guards and weight, its names passed through `rename` */
+function renameAlternative(alternative: string, rename: (name: string) => string): string {
+  const { template: guarded, weight } = splitAlternativeWeight(alternative);
+  const { template, guards } = splitAlternativeGuards(guarded);
+  return formatAlternativeWeight(
+    formatAlternativeGuards(
+      renameReferences(template, rename),
+      guards.map((guard) => ({ ...guard, rule: rename(guard.rule) })),
+    ),
+    weight,
+  );
+}
+
+/**
+ * Loads grammar files and everything they import into one grammar for GrammarEngine. The rules of the
+ * given files keep their names; imported rules are qualified by namespace. Rules or modifiers defined by
+ * two different files and namespaces imported twice by one file are collisions: all of them are reported
+ * together in one error. An import cycle is an error too. Unresolved names of imported files are passed to
+ * options.onUnresolved and do not stop the load; lint reports them as missing rules as well.
+ */
+export async function loadGrammar(
+  paths: readonly string[],
+  readFile: GrammarFileReader,
+  options: LoadGrammarOptions = {},
+): Promise<GrammarRule> {
+  const merged: GrammarRule = {};
+  const ruleSource = new Map<string, string>();
+  const modifierSource = new Map<string, string>();
+  const modifierFiles = new Set<string>();
+  const collisions: string[] = [];
+
+  const load = async (path: string, prefix: string, chain: readonly string[]): Promise<void> => {
+    if (chain.includes(path)) throw new Error(`Import cycle: ${[...chain, path].join(' → ')}`);
+    let text: string;
+    try {
+      text = await readFile(path);
+    } catch (err) {
+      const by = chain.length ? ` (imported by ${chain[chain.length - 1]})` : '';
+      throw new Error(`Cannot read ${path}${by}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const { rules, modifiers, imports } = parseGrammarFile(path, text);
+
+    const namespaces = new Set<string>();
+    for (const { namespace } of imports) {
+      if (namespaces.has(namespace)) collisions.push(`${path} imports namespace "${namespace}" twice`);
+      namespaces.add(namespace);
+    }
+    const pushed = collectActionTargets(rules);
+    const unresolved = new Set<string>();
+    const qualify = (name: string) => {
+      const head = name.split(NAMESPACE_SEPARATOR)[0]!;
+      const local = Object.hasOwn(rules, name) || pushed.has(name) || (head !== name && namespaces.has(head));
+      if (!local) unresolved.add(name);
+      return prefix + name;
+    };
+    for (const [rule, alternatives] of Object.entries(rules)) {
+      const name = prefix + rule;
+      const other = ruleSource.get(name);
+      if (other !== undefined) {
+        collisions.push(`Rule "${name}" is defined in both ${other} and ${path}`);
+        continue;
+      }
+      ruleSource.set(name, path);
+      merged[name] = prefix ? alternatives.map((alternative) => renameAlternative(alternative, qualify)) : alternatives;
+    }
+    for (const name of unresolved) options.onUnresolved?.({ file: path, name, qualified: prefix + name });
+
+    // A file imported under several namespaces shares its modifiers once
+    if (!modifierFiles.has(path)) {
+      modifierFiles.add(path);
+      for (const name of Object.keys(compileModifierDefinitions(modifiers).modifiers)) {
+        const other = modifierSource.get(name);
+        if (other !== undefined) collisions.push(`Modifier "${name}" is defined in both ${other} and ${path}`);
+        else modifierSource.set(name, path);
+      }
+      if (modifiers.length) merged[MODIFIERS_KEY] = [...(merged[MODIFIERS_KEY] ?? []), ...modifiers];
+    }
+
+    for (const { namespace, path: spec } of imports) {
+      await load(resolveImportPath(path, spec), `${prefix}${namespace}${NAMESPACE_SEPARATOR}`, [...chain, path]);
+    }
+  };
+
+  for (const path of paths) await load(path, '', []);
+  if (collisions.length) throw new Error(collisions.join('\n'));
+  return merged;
+}
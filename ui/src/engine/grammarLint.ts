@@ -0,0 +1,287 @@
+/**
+ * Static checks on a grammar before it is run: broken tags, rules that can never be used or never finish,
+ * and alternatives that are probably mistakes. Diagnostics point at a rule and, where it applies,
+ * one of its alternatives.
+ */
+
+import { DEFAULT_ENGLISH_MODIFIERS, type ModifierFn } from './baseEngModifiers';
+import { collectActionTargets, recursiveComponents } from './grammarGraphModel';
+import {
+  MODIFIERS_KEY,
+  compileModifierDefinitions,
+  grammarModifierRegistry,
+  grammarRules,
+} from './grammarModifiers';
+import {
+  findUnclosedHash,
+  isVariableName,
+  parseActionInner,
+  parseModifierCall,
+  parsePlaceholder,
+  splitAlternativeGuards,
+  splitAlternativeWeight,
+  splitTemplateSegments,
+} from './placeholderParse';
+import type { GrammarRule } from './types';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * - invalid-placeholder: a #…# or […] tag that does not parse, or a `#` nothing closes
+ * - missing-rule: a reference to a symbol that is neither a rule nor pushed by an action, or to a variable
+ *   (`#$hero#`) that no `#hero=…#` tag binds
+ * - unproductive: the rule has no derivation that finishes
+ * - unreachable: no derivation from the start rule uses the rule
+ * - unbounded-recursion: random expansion of a recursive cycle is expected to grow forever
+ * - unknown-modifier: `.name` is not a registered modifier (output would show `((.name))`)
+ * - invalid-modifier: a `$modifiers` line that does not compile (reported on `$modifiers`, by line)
+ * - invalid-guard: a `[?rule=value]` guard on a rule that does not exist (error) or naming a value the rule
+ *   never takes (warning)
+ * - empty-alternative / duplicate-alternative: likely leftovers from editing
+ */
+export type LintCode =
+  | 'invalid-placeholder'
+  | 'missing-rule'
+  | 'unproductive'
+  | 'unreachable'
+  | 'unbounded-recursion'
+  | 'unknown-modifier'
+  | 'invalid-modifier'
+  | 'invalid-guard'
+  | 'empty-alternative'
+  | 'duplicate-alternative';
+
+export interface LintDiagnostic {
+  code: LintCode;
+  severity: LintSeverity;
+  message: string;
+  rule: string;
+  /** Index into the rule's alternatives; absent when the diagnostic concerns the whole rule */
+  alternative?: number;
+}
+
+export interface LintOptions {
+  /** Rule that reachability is measured from (default `origin`; skipped when the grammar lacks it) */
+  start?: string;
+  /** Modifiers that count as known besides the grammar's own `$modifiers` (default: the English modifiers) */
+  modifiers?: Record<string, ModifierFn>;
+}
+
+/** What one alternative uses, including tags nested inside its actions and modifier arguments */
+interface TemplateFacts {
+  refs: string[];
+  modifiers: string[];
+  problems: string[];
+}
+
+function collectFacts(template: string, facts: TemplateFacts): void {
+  const unclosed = findUnclosedHash(template);
+  if (unclosed >= 0) facts.problems.push(`Unclosed "#" at position ${unclosed + 1}`);
+
+  const visitAction = (inner: string) => {
+    const action = parseActionInner(inner);
+    if (action.kind === 'run') collectFacts(action.template, facts);
+    else if (action.kind === 'push') action.rules.forEach((rule) => collectFacts(rule, facts));
+  };
+
+  for (const seg of splitTemplateSegments(template)) {
+    if (seg.kind === 'literal') continue;
+    try {
+      if (seg.kind === 'action') {
+        visitAction(seg.innerRaw);
+        continue;
+      }
+      const { ruleName, modifierSegments, actions } = parsePlaceholder(seg.innerRaw);
+      const calls = modifierSegments.map(parseModifierCall);
+      actions.forEach(visitAction);
+      for (const { args } of calls) {
+        for (const arg of args) if (arg.kind === 'template') collectFacts(arg.template, facts);
+      }
+      facts.refs.push(ruleName);
+      facts.modifiers.push(...calls.map((call) => call.name));
+    } catch (err) {
+      const tag = seg.kind === 'action' ? `[${seg.innerRaw}]` : `#${seg.innerRaw}#`;
+      facts.problems.push(`${err instanceof Error ? err.message : 'Invalid tag'} in ${tag}`);
+    }
+  }
+}
+
+/** Values a guard can name for a rule: its alternatives without weight or guards, and `x` for a lone `#x#` */
+function guardValues(alternatives: readonly string[]): Set<string> {
+  const values = new Set<string>();
+  for (const alternative of alternatives) {
+    const { template } = splitAlternativeGuards(splitAlternativeWeight(alternative).template);
+    values.add(template);
+    const segs = splitTemplateSegments(template);
+    if (segs.length !== 1 || segs[0]!.kind !== 'placeholder') continue;
+    try {
+      const { ruleName } = parsePlaceholder(segs[0].innerRaw);
+      values.add(ruleName).add(`#${ruleName}#`);
+    } catch {
+      // not a reference
+    }
+  }
+  return values;
+}
+
+/**
+ * Growth factor of a recursive cycle: the Perron root of the mean matrix, where mean[a][b] is how many
+ * references to b one expansion of a makes on average (alternatives picked by weight).
+ * At 1 or above, the expected size of a random expansion is infinite.
+ */
+function growthFactor(component: string[], mean: (from: string, to: string) => number): number {
+  // Power iteration on mean + I, which is primitive for a strongly connected component
+  let x = component.map(() => 1);
+  let lo = 0;
+  let hi = Infinity;
+  for (let iter = 0; iter < 1000 && hi - lo > 1e-9; iter++) {
+    const y = component.map(
+      (a, i) => x[i]! + component.reduce((sum, b, j) => sum + mean(a, b) * x[j]!, 0),
+    );
+    const ratios = y.map((v, i) => v / x[i]!);
+    lo = Math.min(...ratios);
+    hi = Math.max(...ratios);
+    if (lo >= 2 || hi < 2) break;
+    const top = Math.max(...y);
+    x = y.map((v) => v / top);
+  }
+  return (lo + hi) / 2 - 1;
+}
+
+/** Lints a grammar; diagnostics come in grammar order, rule-level ones before those on alternatives */
+export function lintGrammar(grammar: GrammarRule, options: LintOptions = {}): LintDiagnostic[] {
+  const { start = 'origin' } = options;
+  const modifiers = grammarModifierRegistry(grammar, [], options.modifiers ?? DEFAULT_ENGLISH_MODIFIERS);
+  const rules = Object.keys(grammarRules(grammar));
+  const keys = new Set(rules);
+  const runtime = collectActionTargets(grammarRules(grammar));
+  const diagnostics: LintDiagnostic[] = [];
+  const report = (
+    code: LintCode,
+    severity: LintSeverity,
+    rule: string,
+    message: string,
+    alternative?: number,
+  ) => diagnostics.push({ code, severity, message, rule, ...(alternative === undefined ? {} : { alternative }) });
+
+  for (const { line, message } of compileModifierDefinitions(grammar[MODIFIERS_KEY] ?? []).errors) {
+    report('invalid-modifier', 'error', MODIFIERS_KEY, message, line);
+  }
+
+  const facts = new Map<string, TemplateFacts[]>();
+  const weights = new Map<string, number[]>();
+  for (const rule of rules) {
+    const split = grammar[rule]!.map(splitAlternativeWeight);
+    weights.set(rule, split.map((a) => a.weight));
+    const seen = new Map<string, number>();
+    facts.set(
+      rule,
+      split.map(({ template }, i) => {
+        const f: TemplateFacts = { refs: [], modifiers: [], problems: [] };
+        const { template: body, guards } = splitAlternativeGuards(template);
+        collectFacts(body, f);
+        for (const guard of guards) {
+          if (!keys.has(guard.rule)) {
+            report('invalid-guard', 'error', rule, `Guard tests "${guard.rule}", which has no rule`, i);
+            continue;
+          }
+          const known = guardValues(grammar[guard.rule]!);
+          for (const value of guard.values.filter((v) => !known.has(v))) {
+            report('invalid-guard', 'warning', rule, `"${guard.rule}" has no alternative "${value}"`, i);
+          }
+        }
+        for (const problem of f.problems) report('invalid-placeholder', 'error', rule, problem, i);
+        for (const ref of new Set(f.refs)) {
+          if (!keys.has(ref) && !runtime.has(ref)) {
+            const message = isVariableName(ref) ? `${ref} is never bound` : `#${ref}# has no rule`;
+            report('missing-rule', 'error', rule, message, i);
+          }
+        }
+        for (const name of new Set(f.modifiers)) {
+          if (!name) report('unknown-modifier', 'warning', rule, 'Empty modifier name', i);
+          else if (!Object.hasOwn(modifiers, name)) report('unknown-modifier', 'warning', rule, `Unknown modifier ".${name}"`, i);
+        }
+        if (!template) {
+          report('empty-alternative', 'info', rule, 'Empty alternative', i);
+        } else if (seen.has(template)) {
+          report('duplicate-alternative', 'warning', rule, `Same as alternative ${seen.get(template)! + 1}`, i);
+        } else {
+          seen.set(template, i);
+        }
+        return f;
+      }),
+    );
+  }
+
+  // Productive: some alternative references only productive symbols. Pushed symbols are filled at runtime.
+  const productive = new Set<string>(runtime);
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const rule of rules) {
+      if (productive.has(rule)) continue;
+      if (facts.get(rule)!.some((f) => f.refs.every((ref) => productive.has(ref)))) {
+        productive.add(rule);
+        changed = true;
+      }
+    }
+  }
+  for (const rule of rules) {
+    if (productive.has(rule)) continue;
+    const message = grammar[rule]!.length
+      ? 'Every alternative references a rule that never finishes'
+      : 'Rule has no alternatives';
+    report('unproductive', 'error', rule, message);
+  }
+
+  const edges = new Map(
+    rules.map((rule) => [rule, new Set(facts.get(rule)!.flatMap((f) => f.refs).filter((ref) => keys.has(ref)))]),
+  );
+
+  if (keys.has(start)) {
+    const reached = new Set([start]);
+    const queue = [start];
+    while (queue.length) {
+      for (const ref of edges.get(queue.shift()!)!) {
+        if (reached.has(ref)) continue;
+        reached.add(ref);
+        queue.push(ref);
+      }
+    }
+    for (const rule of rules) {
+      if (!reached.has(rule)) report('unreachable', 'warning', rule, `Not reachable from "${start}"`);
+    }
+  }
+
+  const mean = (from: string, to: string) => {
+    const w = weights.get(from)!;
+    const total = w.reduce((a, b) => a + b, 0);
+    return facts.get(from)!.reduce((sum, f, i) => {
+      const share = total > 0 ? w[i]! / total : 1 / w.length;
+      return sum + share * f.refs.filter((ref) => ref === to).length;
+    }, 0);
+  };
+  for (const component of recursiveComponents(rules, (rule) => edges.get(rule)!)) {
+    // A cycle with no way out is already reported as unproductive
+    if (!component.every((rule) => productive.has(rule))) continue;
+    const factor = growthFactor(component, mean);
+    if (factor < 1 - 1e-9) continue;
+    const members = new Set(component);
+    const rule = rules.find((r) => members.has(r))!;
+    const alternative = facts.get(rule)!.findIndex((f) => f.refs.some((ref) => members.has(ref)));
+    const cycle = rules.filter((r) => members.has(r)).join(', ');
+    report(
+      'unbounded-recursion',
+      'warning',
+      rule,
+      `Recursion through ${cycle} grows faster than it ends (×${factor.toFixed(2)} per level); random expansion relies on maxDepth to stop`,
+      alternative,
+    );
+  }
+
+  // `$modifiers` diagnostics go last
+  const order = new Map(rules.map((rule, i) => [rule, i]));
+  const position = (rule: string) => order.get(rule) ?? rules.length;
+  return diagnostics.sort(
+    (a, b) => position(a.rule) - position(b.rule) || (a.alternative ?? -1) - (b.alternative ?? -1),
+  );
+}
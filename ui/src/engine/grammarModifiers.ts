@@ -0,0 +1,263 @@
+/**
+ * Modifiers a grammar carries itself, under the reserved `$modifiers` key (not a valid rule name, so it can
+ * never be referenced). Each line is data, never code:
+ *
+ *   "@pack ru"             also use a built-in language pack (see modifierPacks)
+ *   "gen: а -> ы"          suffix row: text ending in "а" gets "ы" in its place
+ *   "gen: -> а"            an empty suffix matches any text, so this appends
+ *   "shout: /!$/ -> !!!"   regex row: String.replace with the pattern; flags go after the closing slash
+ *
+ * The rows of one modifier form a table tried top to bottom, and only the first row that matches applies.
+ * Spaces around the pattern and the replacement are trimmed. Regex patterns that could backtrack
+ * catastrophically are rejected (see checkPatternSafety).
+ */
+
+import { DEFAULT_ENGLISH_MODIFIERS, type ModifierFn } from './baseEngModifiers';
+import { MODIFIER_PACKS, isModifierPackName, type ModifierPackName } from './modifierPacks';
+import type { GrammarRule } from './types';
+
+export const MODIFIERS_KEY = '$modifiers';
+
+export interface ModifierDefinitionError {
+  /** Index of the offending line in `$modifiers` */
+  line: number;
+  message: string;
+}
+
+export interface CompiledModifiers {
+  modifiers: Record<string, ModifierFn>;
+  packs: ModifierPackName[];
+  errors: ModifierDefinitionError[];
+}
+
+// Patterns come from saved files: keep them short, to the common flags and free of catastrophic backtracking
+const MAX_PATTERN_LENGTH = 200;
+const ALLOWED_FLAGS = /^[gimsu]*$/;
+const MAX_UNBOUNDED_REPEATS = 3;
+
+const PACK_LINE = /^@pack\s+(\S+)$/;
+const ROW_LINE = /^([A-Za-z_][A-Za-z0-9_]*)\s*:(.*)$/;
+const REGEX_ROW = /^\/(.+?)\/([a-z]*)\s*->(.*)$/;
+const SUFFIX_ROW = /^(.*?)\s*->(.*)$/;
+
+/** `*`, `+`, `{n,}` or `{n,m}` with m > 1 at `i`: a quantifier that repeats; its length, or 0 */
+function repeatingQuantifier(source: string, i: number): number {
+  if (source[i] === '*' || source[i] === '+') return 1;
+  const range = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i));
+  if (!range) return 0;
+  const max = range[2] === undefined ? Number(range[1]) : range[3] ? Number(range[3]) : Infinity;
+  return max > 1 ? range[0].length : 0;
+}
+
+/** Any quantifier at `i`, with a lazy `?` after it: its length and whether it repeats without bound */
+function quantifierAt(source: string, i: number): { length: number; unbounded: boolean } | undefined {
+  let length = repeatingQuantifier(source, i);
+  if (!length && source[i] === '?') length = 1;
+  if (!length && /^\{\d+(,\d*)?\}/.test(source.slice(i))) length = source.indexOf('}', i) - i + 1;
+  if (!length) return undefined;
+  const unbounded = source[i] === '*' || source[i] === '+' || source[i + length - 2] === ',';
+  return { length: length + (source[i + length] === '?' ? 1 : 0), unbounded };
+}
+
+// Single characters tried to see whether two atoms can match the same text: Latin, Greek and Cyrillic
+const OVERLAP_SAMPLE = Array.from({ length: 0x530 }, (_, code) => String.fromCharCode(code));
+
+/** Whether atoms `a` and `b` (`.`, `\w`, `[a-z]`) both match some character; true for groups, or when unsure */
+function canOverlap(a: string, b: string, flags: string): boolean {
+  if (a.startsWith('(') || b.startsWith('(')) return true;
+  try {
+    const [ra, rb] = [a, b].map((atom) => new RegExp(`^(?:${atom})$`, flags.replace('g', '')));
+    return OVERLAP_SAMPLE.some((c) => ra!.test(c) && rb!.test(c));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Rejects what makes a backtracking matcher take exponential or high polynomial time: a repeated group that
+ * itself repeats or branches (`(a+)+`, `(a|ab)*`), backreferences, two unbounded repeats side by side that
+ * can match the same characters (`.*.*`, `\w+\d*`) and more than MAX_UNBOUNDED_REPEATS unbounded repeats
+ * in all. Single quantifiers, `(ed|ing)?` and `\s*\d+` stay allowed.
+ */
+function checkPatternSafety(source: string, flags = ''): void {
+  const groups = [{ repeats: false, branches: false, start: 0 }];
+  // Where the atom a quantifier applies to starts, and the last unbounded repeat: its atom and its end
+  let atomStart = 0;
+  let previous: { atom: string; end: number } | undefined;
+  let unbounded = 0;
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i]!;
+    const current = groups[groups.length - 1]!;
+    const quantifier = quantifierAt(source, i);
+    if (quantifier && i > atomStart) {
+      if (repeatingQuantifier(source, i)) current.repeats = true;
+      if (quantifier.unbounded) {
+        const atom = source.slice(atomStart, i);
+        if (++unbounded > MAX_UNBOUNDED_REPEATS) {
+          throw new Error(`Patterns can have at most ${MAX_UNBOUNDED_REPEATS} unbounded repeats (*, + or {n,})`);
+        }
+        if (previous?.end === atomStart && canOverlap(previous.atom, atom, flags)) {
+          throw new Error('Patterns cannot put two repeats that match the same characters side by side, e.g. .*.*');
+        }
+        previous = { atom, end: i + quantifier.length };
+      }
+      i += quantifier.length - 1;
+      continue;
+    }
+    atomStart = i;
+    if (c === '\\') {
+      if (/[1-9k]/.test(source[i + 1] ?? '')) throw new Error('Backreferences are not allowed in patterns');
+      i++;
+    } else if (c === '[') {
+      // Skip the class; `]` right after `[` or `[^` is a literal
+      i += source[i + 1] === '^' ? 2 : 1;
+      if (source[i] === ']') i++;
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+    } else if (c === '(') {
+      groups.push({ repeats: false, branches: false, start: i });
+      // The group's own atoms start after `(` and any `?:`, `?=` or `?<name>`
+      const prefix = /^\?(<[A-Za-z_]\w*>|[:=!]|<[=!])/.exec(source.slice(i + 1));
+      i += prefix?.[0].length ?? 0;
+      atomStart = i + 1;
+    } else if (c === '|') {
+      current.branches = true;
+      atomStart = i + 1;
+    } else if (c === ')' && groups.length > 1) {
+      groups.pop();
+      const repeated = repeatingQuantifier(source, i + 1) > 0;
+      if (repeated && (current.repeats || current.branches)) {
+        throw new Error('Patterns cannot repeat a group that repeats or branches, e.g. (a+)+ or (a|ab)*');
+      }
+      const parent = groups[groups.length - 1]!;
+      parent.repeats ||= current.repeats;
+      parent.branches ||= current.branches;
+      // A quantifier after `)` applies to the whole group
+      atomStart = current.start;
+    }
+  }
+}
+
+interface Row {
+  matches: (s: string) => boolean;
+  apply: (s: string) => string;
+}
+
+function parseRow(text: string): Row {
+  const regex = REGEX_ROW.exec(text);
+  if (regex) {
+    const [, source, flags, to] = regex;
+    if (source!.length > MAX_PATTERN_LENGTH) {
+      throw new Error(`Pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+    }
+    if (!ALLOWED_FLAGS.test(flags!)) throw new Error(`Unsupported regex flags "${flags}"`);
+    checkPatternSafety(source!, flags);
+    let re: RegExp;
+    try {
+      re = new RegExp(source!, flags);
+    } catch {
+      throw new Error(`Invalid regex /${source}/`);
+    }
+    const replacement = to!.trim();
+    return { matches: (s) => s.search(re) >= 0, apply: (s) => s.replace(re, replacement) };
+  }
+  const suffix = SUFFIX_ROW.exec(text);
+  if (!suffix) throw new Error('Expected "pattern -> replacement"');
+  const from = suffix[1]!.trim();
+  const to = suffix[2]!.trim();
+  return { matches: (s) => s.endsWith(from), apply: (s) => s.slice(0, s.length - from.length) + to };
+}
+
+/** Compile `$modifiers` lines; bad lines are reported and skipped */
+export function compileModifierDefinitions(lines: readonly string[]): CompiledModifiers {
+  const tables = new Map<string, Row[]>();
+  const packs: ModifierPackName[] = [];
+  const errors: ModifierDefinitionError[] = [];
+
+  lines.forEach((raw, line) => {
+    const text = raw.trim();
+    if (!text) return;
+    const pack = PACK_LINE.exec(text);
+    if (pack) {
+      if (isModifierPackName(pack[1]!)) packs.push(pack[1]);
+      else errors.push({ line, message: `Unknown modifier pack "${pack[1]}"` });
+      return;
+    }
+    const row = ROW_LINE.exec(text);
+    if (!row) {
+      errors.push({ line, message: 'Expected "name: pattern -> replacement" or "@pack name"' });
+      return;
+    }
+    try {
+      const parsed = parseRow(row[2]!.trim());
+      const table = tables.get(row[1]!) ?? [];
+      table.push(parsed);
+      tables.set(row[1]!, table);
+    } catch (err) {
+      errors.push({ line, message: err instanceof Error ? err.message : 'Invalid definition' });
+    }
+  });
+
+  const modifiers: Record<string, ModifierFn> = {};
+  for (const [name, rows] of tables) {
+    modifiers[name] = (s) => rows.find((row) => row.matches(s))?.apply(s) ?? s;
+  }
+  return { modifiers, packs, errors };
+}
+
+/**
+ * Normalize `$modifiers` from grammar JSON: either definition lines, or an object of
+ * modifier name → `{ "pattern": "replacement" }` plus an optional `"@pack": "ru"` (or a list of packs).
+ */
+export function normalizeModifierJson(data: unknown): string[] {
+  if (Array.isArray(data) && data.every((line) => typeof line === 'string')) return data;
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`"${MODIFIERS_KEY}" must be a list of definition lines or an object of modifier tables`);
+  }
+  const lines: string[] = [];
+  for (const [name, table] of Object.entries(data as Record<string, unknown>)) {
+    if (name === '@pack') {
+      const packs = Array.isArray(table) ? table : [table];
+      if (!packs.every((p) => typeof p === 'string')) {
+        throw new Error(`"${MODIFIERS_KEY}": "@pack" must be a pack name or a list of them`);
+      }
+      lines.push(...packs.map((p) => `@pack ${p}`));
+      continue;
+    }
+    if (table === null || typeof table !== 'object' || Array.isArray(table)) {
+      throw new Error(`"${MODIFIERS_KEY}": modifier "${name}" must be an object of pattern → replacement`);
+    }
+    for (const [from, to] of Object.entries(table as Record<string, unknown>)) {
+      if (typeof to !== 'string') {
+        throw new Error(`"${MODIFIERS_KEY}": replacements of "${name}" must be strings`);
+      }
+      lines.push(`${name}: ${from ? `${from} ` : ''}-> ${to}`);
+    }
+  }
+  return lines;
+}
+
+/** The grammar without its `$modifiers` entry: only real rules */
+export function grammarRules(grammar: GrammarRule): GrammarRule {
+  if (!Object.hasOwn(grammar, MODIFIERS_KEY)) return grammar;
+  const rules = { ...grammar };
+  delete rules[MODIFIERS_KEY];
+  return rules;
+}
+
+/**
+ * Registry for a grammar: `base` (the English modifiers by default), then the packs given here and
+ * the ones the grammar asks for, then the grammar's own definitions; later entries win on name clashes.
+ */
+export function grammarModifierRegistry(
+  grammar: GrammarRule,
+  packs: readonly ModifierPackName[] = [],
+  base: Record<string, ModifierFn> = DEFAULT_ENGLISH_MODIFIERS,
+): Record<string, ModifierFn> {
+  const compiled = compileModifierDefinitions(grammar[MODIFIERS_KEY] ?? []);
+  return Object.assign(
+    {},
+    base,
+    ...[...packs, ...compiled.packs].map((pack) => MODIFIER_PACKS[pack]),
+    compiled.modifiers,
+  );
+}
@@ -12,6 +12,10 @@ export function rawToGenerationResult(raw: Generated[]): GenerationResult[] {
         Object.entries(r.trace).map(([key, value]) => [key, value.join(",")]),
       ),
       modifierApplications: r.modifierApplications ?? [],
+      ...(r.bindings ? { bindings: r.bindings } : {}),
+      ...(r.tree ? { derivation: r.tree } : {}),
+      ...(r.seed !== undefined ? { seed: r.seed } : {}),
+      ...(r.index !== undefined ? { index: r.index } : {}),
     },
   }));
 }
@@ -2,20 +2,78 @@
  * Main export for scientific grammar engine
  */
 
-export { GrammarProcessor as ScientificGrammarEngine } from './GrammarEngine';
+export { DEFAULT_RECURSION_DEPTH, GrammarProcessor as ScientificGrammarEngine } from './GrammarEngine';
 export { DEFAULT_ENGLISH_MODIFIERS, applyModifierPipeline } from './baseEngModifiers';
+export {
+  GERMAN_MODIFIERS,
+  MODIFIER_PACKS,
+  RUSSIAN_MODIFIERS,
+  SPANISH_MODIFIERS,
+} from './modifierPacks';
+export type { ModifierPackName } from './modifierPacks';
+export {
+  MODIFIERS_KEY,
+  compileModifierDefinitions,
+  grammarModifierRegistry,
+  grammarRules,
+} from './grammarModifiers';
+export type { CompiledModifiers, ModifierDefinitionError } from './grammarModifiers';
+export type { ModifierFn } from './baseEngModifiers';
 export { ParameterExtractor } from './ParameterExtractor';
 export { GenericStructureExtractor } from './GenericStructureExtractor';
+export { createSeededRng, nextSeed, parseSeed, sampleIndices, shuffle } from './random';
+export { factorialTrialsToCsv, planFactorialCells } from './factorialDesign';
+export { findAmbiguities } from './ambiguity';
+export type { AmbiguityOptions, AmbiguityReport, AmbiguousOutput } from './ambiguity';
+export { compileOutputFilter } from './outputFilters';
+export type { OutputFilter, TextPredicate } from './outputFilters';
+export { IMPORTS_KEY, loadGrammar, resolveImportPath } from './grammarImports';
+export type { GrammarFileReader, LoadGrammarOptions, UnresolvedReference } from './grammarImports';
+export { importTraceryGrammar } from './traceryImport';
+export type { TraceryImportCode, TraceryImportNote, TraceryImportResult } from './traceryImport';
+export { GRAMMAR_EXPORT_FORMATS, exportGrammar } from './grammarExport';
+export type { GrammarExportFormat } from './grammarExport';
+export { importContextFreeGrammar } from './cfgImport';
+export type { CfgImportCode, CfgImportNote, CfgImportOptions, CfgImportResult } from './cfgImport';
+export { lintGrammar } from './grammarLint';
+export type { LintCode, LintDiagnostic, LintOptions, LintSeverity } from './grammarLint';
+export type {
+  AlternativeProbability,
+  AlternativeStats,
+  ConstraintsInput,
+  DistinctBy,
+  DistinctCountOptions,
+  DistinctSample,
+  DistinctStringCount,
+  LanguageSize,
+  RuleDistribution,
+} from './Engine';
 export type * from './types';
 
 // Convenience functions for quick start
 import { GrammarProcessor } from './GrammarEngine';
+import { loadGrammar, type GrammarFileReader, type LoadGrammarOptions } from './grammarImports';
+import type { GrammarRule } from './types';
 
 export function createGrammar(grammar: any, config?: any) {
   return new GrammarProcessor(grammar, config);
 }
 
-export function loadGrammarFromFile(_filePath: string) {
-  // TODO: Implement file loading
-  throw new Error('Not implemented yet');
+const fetchText: GrammarFileReader = async (path) => {
+  const response = await fetch(path);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.text();
+};
+
+/**
+ * Loads a grammar file with everything it imports (see grammarImports), e.g. in Node:
+ * `loadGrammarFromFile('grammar.json', (path) => readFile(path, 'utf8'))`. Without a reader, as it was
+ * called before it took one, files are fetched: relative to the page in a browser, by URL in Node.
+ */
+export function loadGrammarFromFile(
+  filePath: string,
+  readFile: GrammarFileReader = fetchText,
+  options?: LoadGrammarOptions,
+): Promise<GrammarRule> {
+  return loadGrammar([filePath], readFile, options);
 }
@@ -0,0 +1,265 @@
+/**
+ * Modifier packs for languages other than English. Each pack is a registry that can be merged over
+ * DEFAULT_ENGLISH_MODIFIERS; the rules cover regular words and take hints as modifier params where
+ * the word alone does not say enough (gender, animacy, case, number).
+ */
+
+import { DEFAULT_ENGLISH_MODIFIERS, type ModifierFn } from "./baseEngModifiers";
+
+export type ModifierPackName = "en" | "ru" | "de" | "es";
+
+/** Apply `fn` to the last space-separated word of `s` */
+function onLastWord(s: string, fn: (word: string) => string): string {
+  const cut = s.lastIndexOf(" ") + 1;
+  return s.slice(0, cut) + fn(s.slice(cut));
+}
+
+// --- Russian ---
+
+type RussianCase = "gen" | "dat" | "acc" | "ins" | "prep" | "pl";
+
+const RU_VELAR = "гкх";
+const RU_HUSHING = "жчшщ";
+
+/** Endings that replace the last `strip` letters of a noun, per case */
+interface RussianParadigm {
+  strip: number;
+  endings: Record<RussianCase, string>;
+}
+
+/**
+ * Paradigm of a regular noun from its nominative singular ending. Words ending in -ь are feminine unless
+ * `m` is given; `anim` makes the accusative of masculine nouns equal the genitive.
+ */
+function russianParadigm(word: string, params: string[]): RussianParadigm | null {
+  const w = word.toLowerCase();
+  const last = w.charAt(w.length - 1);
+  const before = w.charAt(w.length - 2);
+  const anim = params.includes("anim");
+  const yi = RU_VELAR.includes(before) || RU_HUSHING.includes(before) ? "и" : "ы";
+
+  if (w.endsWith("ия")) {
+    return { strip: 1, endings: { gen: "и", dat: "и", acc: "ю", ins: "ей", prep: "и", pl: "и" } };
+  }
+  if (w.endsWith("ие")) {
+    return { strip: 1, endings: { gen: "я", dat: "ю", acc: "е", ins: "ем", prep: "и", pl: "я" } };
+  }
+  if (w.endsWith("ий")) {
+    return { strip: 1, endings: { gen: "я", dat: "ю", acc: anim ? "я" : "й", ins: "ем", prep: "и", pl: "и" } };
+  }
+  switch (last) {
+    case "а": {
+      const ins = RU_HUSHING.includes(before) || before === "ц" ? "ей" : "ой";
+      return { strip: 1, endings: { gen: yi, dat: "е", acc: "у", ins, prep: "е", pl: yi } };
+    }
+    case "я":
+      return { strip: 1, endings: { gen: "и", dat: "е", acc: "ю", ins: "ей", prep: "е", pl: "и" } };
+    case "о":
+      return { strip: 1, endings: { gen: "а", dat: "у", acc: "о", ins: "ом", prep: "е", pl: "а" } };
+    case "е":
+      return { strip: 1, endings: { gen: "я", dat: "ю", acc: "е", ins: "ем", prep: "е", pl: "я" } };
+    case "й":
+      return { strip: 1, endings: { gen: "я", dat: "ю", acc: anim ? "я" : "й", ins: "ем", prep: "е", pl: "и" } };
+    case "ь":
+      return params.includes("m")
+        ? { strip: 1, endings: { gen: "я", dat: "ю", acc: anim ? "я" : "ь", ins: "ем", prep: "е", pl: "и" } }
+        : { strip: 1, endings: { gen: "и", dat: "и", acc: "ь", ins: "ью", prep: "и", pl: "и" } };
+  }
+  if (!/[бвгджзклмнпрстфхцчшщ]/.test(last)) return null;
+  const ins = RU_HUSHING.includes(last) || last === "ц" ? "ем" : "ом";
+  const pl = RU_VELAR.includes(last) || RU_HUSHING.includes(last) ? "и" : "ы";
+  return { strip: 0, endings: { gen: "а", dat: "у", acc: anim ? "а" : "", ins, prep: "е", pl } };
+}
+
+function declineRussian(form: RussianCase): ModifierFn {
+  return (s, params) =>
+    onLastWord(s, (word) => {
+      const paradigm = russianParadigm(word, params);
+      if (!paradigm) return word;
+      return word.slice(0, word.length - paradigm.strip) + paradigm.endings[form];
+    });
+}
+
+const RU_PAST_ENDINGS: Record<string, string> = { f: "а", n: "о", pl: "и" };
+
+/** Adjective or past-tense verb in the nominative, agreeing with gender `f`, `n` or number `pl` */
+function agreeRussianWord(word: string, target: string): string {
+  const w = word.toLowerCase();
+  const stem = (n: number) => word.slice(0, word.length - n);
+  if (/(ый|ий|ой)$/.test(w)) {
+    const before = w.charAt(w.length - 3);
+    const hard = RU_VELAR.includes(before) || RU_HUSHING.includes(before);
+    const soft = w.endsWith("ий") && !hard;
+    const endings: Record<string, string> = {
+      f: soft ? "яя" : "ая",
+      n: soft || (RU_HUSHING.includes(before) && w.endsWith("ий")) ? "ее" : "ое",
+      pl: soft || hard ? "ие" : "ые",
+    };
+    return endings[target] === undefined ? word : stem(2) + endings[target];
+  }
+  const verb = /[аяеиы]л(ся)?$/.exec(w);
+  if (verb) {
+    const reflexive = verb[1] !== undefined;
+    const ending = RU_PAST_ENDINGS[target];
+    if (ending === undefined) return word;
+    return reflexive ? `${stem(2)}${ending}сь` : word + ending;
+  }
+  return word;
+}
+
+/**
+ * Russian: noun cases `gen`, `dat`, `acc`, `ins`, `prep` and nominative plural `pl` change the last word
+ * (hints: `m` for masculine -ь nouns, `anim` for animate accusative, e.g. `#hero.acc(anim)#`);
+ * `agree(f|n|pl)` puts every adjective (-ый/-ий/-ой) and past-tense verb (-л/-лся) into that form.
+ */
+export const RUSSIAN_MODIFIERS: Record<string, ModifierFn> = {
+  gen: declineRussian("gen"),
+  dat: declineRussian("dat"),
+  acc: declineRussian("acc"),
+  ins: declineRussian("ins"),
+  prep: declineRussian("prep"),
+  pl: declineRussian("pl"),
+  agree(s, params) {
+    const target = params[0] ?? "m";
+    return s
+      .split(" ")
+      .map((word) => agreeRussianWord(word, target))
+      .join(" ");
+  },
+};
+
+// --- German ---
+
+type GermanGender = "m" | "f" | "n" | "pl";
+type GermanCase = "nom" | "akk" | "dat" | "gen";
+
+const DE_FEMININE = ["ung", "heit", "keit", "schaft", "ion", "tät", "ik", "ei", "ie", "enz", "anz", "e"];
+const DE_NEUTER = ["chen", "lein", "ment", "um", "nis"];
+
+/** Gender from a noun ending; masculine when nothing matches */
+function guessGermanGender(noun: string): GermanGender {
+  const w = noun.toLowerCase();
+  if (DE_NEUTER.some((suffix) => w.endsWith(suffix))) return "n";
+  if (DE_FEMININE.some((suffix) => w.endsWith(suffix))) return "f";
+  return "m";
+}
+
+const DE_DEFINITE: Record<GermanCase, Record<GermanGender, string>> = {
+  nom: { m: "der", f: "die", n: "das", pl: "die" },
+  akk: { m: "den", f: "die", n: "das", pl: "die" },
+  dat: { m: "dem", f: "der", n: "dem", pl: "den" },
+  gen: { m: "des", f: "der", n: "des", pl: "der" },
+};
+
+const DE_INDEFINITE: Record<GermanCase, Record<GermanGender, string>> = {
+  nom: { m: "ein", f: "eine", n: "ein", pl: "" },
+  akk: { m: "einen", f: "eine", n: "ein", pl: "" },
+  dat: { m: "einem", f: "einer", n: "einem", pl: "" },
+  gen: { m: "eines", f: "einer", n: "eines", pl: "" },
+};
+
+const DE_NEGATIVE: Record<GermanCase, Record<GermanGender, string>> = {
+  nom: { m: "kein", f: "keine", n: "kein", pl: "keine" },
+  akk: { m: "keinen", f: "keine", n: "kein", pl: "keine" },
+  dat: { m: "keinem", f: "keiner", n: "keinem", pl: "keinen" },
+  gen: { m: "keines", f: "keiner", n: "keines", pl: "keiner" },
+};
+
+/** Params in any order: a case (`nom` default) and a gender or `pl` (guessed from the last word when absent) */
+function germanArticle(table: Record<GermanCase, Record<GermanGender, string>>): ModifierFn {
+  return (s, params) => {
+    const kase = (params.find((p) => Object.hasOwn(table, p)) ?? "nom") as GermanCase;
+    const gender = (params.find((p) => Object.hasOwn(table.nom, p)) as GermanGender | undefined)
+      ?? guessGermanGender(s.slice(s.lastIndexOf(" ") + 1));
+    const article = table[kase][gender];
+    return article ? `${article} ${s}` : s;
+  };
+}
+
+/**
+ * German articles before a noun phrase: `der`, `ein` and `kein`, e.g. `#animal.der(dat)#`, `#thing.ein(akk,n)#`.
+ * The noun itself is left as is.
+ */
+export const GERMAN_MODIFIERS: Record<string, ModifierFn> = {
+  der: germanArticle(DE_DEFINITE),
+  ein: germanArticle(DE_INDEFINITE),
+  kein: germanArticle(DE_NEGATIVE),
+};
+
+// --- Spanish ---
+
+// Endings and exceptions are written without accents, so plurals like "canciones" → "cancion" still match
+const ES_FEMININE = ["a", "ion", "dad", "tad", "tud", "umbre", "sis"];
+const ES_MASCULINE_EXCEPTIONS = new Set([
+  "dia", "mapa", "planeta", "sofa", "idioma", "problema", "tema", "sistema", "programa", "clima", "poema",
+  "avion", "camion",
+]);
+const ES_ACCENTS: Record<string, string> = { á: "a", é: "e", í: "i", ó: "o", ú: "u" };
+const ES_FEMININE_EXCEPTIONS = new Set(["mano", "foto", "moto", "radio"]);
+// Feminine nouns starting with a stressed a- take el/un in the singular
+const ES_STRESSED_A = new Set([
+  "agua", "águila", "alma", "arma", "hacha", "hambre", "área", "aula", "ave", "hada", "habla",
+]);
+
+function isSpanishFeminine(noun: string): boolean {
+  const w = noun.toLowerCase().replace(/[áéíóú]/g, (v) => ES_ACCENTS[v]!);
+  if (ES_MASCULINE_EXCEPTIONS.has(w)) return false;
+  if (ES_FEMININE_EXCEPTIONS.has(w)) return true;
+  return ES_FEMININE.some((suffix) => w.endsWith(suffix));
+}
+
+/** Singular of a plural noun, good enough for guessing its gender */
+function spanishSingular(noun: string): string {
+  if (/[^aeiouáéíóú]es$/i.test(noun)) return noun.slice(0, -2);
+  return noun.replace(/s$/i, "");
+}
+
+/**
+ * Article for a noun phrase, from the first word. Params: `f`/`m` to set the gender, `pl` for plural.
+ */
+function spanishArticle(forms: [m: string, f: string, mpl: string, fpl: string]): ModifierFn {
+  return (s, params) => {
+    const first = s.split(" ")[0] ?? "";
+    const plural = params.includes("pl");
+    const feminine = params.includes("f")
+      || (!params.includes("m") && isSpanishFeminine(plural ? spanishSingular(first) : first));
+    const stressedA = !plural && feminine && ES_STRESSED_A.has(first.toLowerCase());
+    const article = forms[(plural ? 2 : 0) + (feminine && !stressedA ? 1 : 0)];
+    return `${article} ${s}`;
+  };
+}
+
+/**
+ * Spanish: articles `el`, `un` and the contractions `del` (de + el) and `al` (a + el), e.g. `#city.el#`,
+ * `#tree.un(pl)#`, `#hand.el(f)#`; `pl` makes the plural of the last word.
+ */
+export const SPANISH_MODIFIERS: Record<string, ModifierFn> = {
+  el: spanishArticle(["el", "la", "los", "las"]),
+  un: spanishArticle(["un", "una", "unos", "unas"]),
+  del: spanishArticle(["del", "de la", "de los", "de las"]),
+  al: spanishArticle(["al", "a la", "a los", "a las"]),
+  pl(s) {
+    return onLastWord(s, (word) => {
+      if (!word) return word;
+      const w = word.toLowerCase();
+      if (w.endsWith("z")) return `${word.slice(0, -1)}ces`;
+      if (/[aeiouáéó]$/.test(w)) return `${word}s`;
+      if (/[íú]$/.test(w)) return `${word}es`;
+      // Stress moves off an accented last syllable: canción → canciones
+      const unaccented = word.replace(/([áéíóú])([^aeiouáéíóú]*)$/, (_, v: string, rest: string) => ES_ACCENTS[v]! + rest);
+      if (/[sx]$/.test(w) && unaccented === word) return word;
+      return `${unaccented}es`;
+    });
+  },
+};
+
+export const MODIFIER_PACKS: Record<ModifierPackName, Record<string, ModifierFn>> = {
+  en: DEFAULT_ENGLISH_MODIFIERS,
+  ru: RUSSIAN_MODIFIERS,
+  de: GERMAN_MODIFIERS,
+  es: SPANISH_MODIFIERS,
+};
+
+export function isModifierPackName(name: string): name is ModifierPackName {
+  return Object.hasOwn(MODIFIER_PACKS, name);
+}
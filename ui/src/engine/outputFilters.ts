@@ -0,0 +1,66 @@
+/**
+ * Output filters: constraints on the finished text (after modifiers) that the grammar cannot express,
+ * such as length controls. GrammarProcessor applies them by rejection sampling in generateMany and as a
+ * filter when listing every combination.
+ */
+
+export type TextPredicate = (text: string) => boolean;
+
+export interface OutputFilter {
+  /** Characters, inclusive */
+  minLength?: number;
+  maxLength?: number;
+  /** Whitespace-separated words, inclusive */
+  minWords?: number;
+  maxWords?: number;
+  /** Substrings that must all occur */
+  mustContain?: string[];
+  /** Substrings none of which may occur */
+  mustNotContain?: string[];
+  /** The text must match (a string is a regex source) */
+  matches?: string | RegExp;
+  /** The text must not match */
+  notMatches?: string | RegExp;
+  /** Custom rejection predicates: a text is kept only when every one returns true */
+  predicates?: TextPredicate[];
+}
+
+const toRegExp = (pattern: string | RegExp, key: string): RegExp => {
+  if (pattern instanceof RegExp) return pattern;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    throw new Error(`Output filter "${key}": invalid regex /${pattern}/`);
+  }
+};
+
+// A global or sticky regex keeps lastIndex between tests, so a copy without those flags is used
+const testRegExp = (re: RegExp) => {
+  const plain = new RegExp(re.source, re.flags.replace(/[gy]/g, ''));
+  return (text: string) => plain.test(text);
+};
+
+const countWords = (text: string): number => {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+};
+
+/** One predicate for the whole filter; undefined when the filter checks nothing */
+export function compileOutputFilter(filter: OutputFilter = {}): TextPredicate | undefined {
+  const checks: TextPredicate[] = [];
+  const { minLength, maxLength, minWords, maxWords } = filter;
+  if (minLength !== undefined) checks.push((t) => t.length >= minLength);
+  if (maxLength !== undefined) checks.push((t) => t.length <= maxLength);
+  if (minWords !== undefined) checks.push((t) => countWords(t) >= minWords);
+  if (maxWords !== undefined) checks.push((t) => countWords(t) <= maxWords);
+  for (const part of filter.mustContain ?? []) checks.push((t) => t.includes(part));
+  for (const part of filter.mustNotContain ?? []) checks.push((t) => !t.includes(part));
+  if (filter.matches !== undefined) checks.push(testRegExp(toRegExp(filter.matches, 'matches')));
+  if (filter.notMatches !== undefined) {
+    const matches = testRegExp(toRegExp(filter.notMatches, 'notMatches'));
+    checks.push((t) => !matches(t));
+  }
+  checks.push(...(filter.predicates ?? []));
+  if (!checks.length) return undefined;
+  return (text) => checks.every((check) => check(text));
+}
@@ -1,6 +1,31 @@
 /**
  * Tracery-style placeholders: #ruleName# or #ruleName.mod1.mod2# (modifiers after first dot).
  *
+ * Modifier arguments: `#name.replace(a, b)#`. Inside the parentheses, commas, dots, `)` and `#` belong to
+ * an argument when it is double-quoted (`"a, b.c"`, with `\"` for a quote) or escaped (`\,`, `\)`);
+ * nested parentheses are kept whole. An unquoted argument is a template, so `#ref#` tags in it are
+ * expanded before the modifier runs: `#name.replace(#old#, #new.capitalize#)#`.
+ *
+ * Tracery actions:
+ * - `[name:rule1,rule2]` — push expanded rules onto `name`; `[name:POP]` — pop them
+ * - `[#rule#]` — expand `rule` only for the actions it runs
+ * - inside a tag, `#[hero:#name#]story#` runs the action before `story` and pops the push after it
+ * Brackets whose content is not an action stay literal text.
+ *
+ * Variables: `#hero=name#` expands `name`, outputs it and binds the text to `$hero` for the rest of the
+ * derivation; `#$hero#` repeats it verbatim. Modifiers on either tag apply to that output only
+ * (`#hero=name.capitalize#` binds the text before capitalizing).
+ *
+ * Alternative weights: a trailing ` ^3` (whitespace, caret, number) sets the relative weight of that
+ * alternative; `\^` keeps a literal caret.
+ *
+ * Guards: a leading `[?language=Welsh]` makes an alternative eligible only when the last choice of rule
+ * `language` so far in the derivation was `Welsh`; `[?language=Welsh|Irish]` allows several values and
+ * `[?language!=English]` excludes them. Several guards must all hold.
+ *
+ * Namespaces: `#colors::bright#` names rule `bright` of a grammar imported as `colors` (see grammarImports).
+ * Rules, guards and action targets may be qualified this way; variables may not.
+ *
  * Escapes (outside and inside #…#):
  * - `\#` — literal `#`
  * - `\\` — literal `\`
@@ -12,15 +37,89 @@
 /** @deprecated Use splitTemplateSegments — does not honor \\ or \\#. Kept for rare debugging only. */
 export const FULL_PLACEHOLDER = /#([^#]+)#/g;
 
-const RULE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const RULE_NAME = /^[A-Za-z_][A-Za-z0-9_]*(?:::[A-Za-z_][A-Za-z0-9_]*)*$/;
+/** A push or pop action: `name:` (possibly `ns::name:`), not followed by another colon */
+const ACTION_TARGET = /^([A-Za-z_][A-Za-z0-9_]*(?:::[A-Za-z_][A-Za-z0-9_]*)*):(?!:)/;
+const VARIABLE_NAME = /^\$[A-Za-z_][A-Za-z0-9_]*$/;
+const BINDING = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/;
+const ACTION_HEAD = /^(?:[A-Za-z_][A-Za-z0-9_]*:|#)/;
 
 export type TemplateSegment =
   | { kind: 'literal'; text: string }
-  | { kind: 'placeholder'; innerRaw: string };
+  | { kind: 'placeholder'; innerRaw: string }
+  | { kind: 'action'; innerRaw: string };
+
+export type ParsedAction =
+  | { kind: 'push'; target: string; rules: string[] }
+  | { kind: 'pop'; target: string }
+  | { kind: 'run'; template: string };
+
+/**
+ * Find index of the `]` matching the `[` at `openIdx` (nested brackets and `\x` escapes skipped).
+ */
+function findClosingBracket(template: string, openIdx: number): number {
+  let depth = 0;
+  let j = openIdx;
+  while (j < template.length) {
+    const c = template[j]!;
+    if (c === '\\' && j + 1 < template.length) {
+      j += 2;
+      continue;
+    }
+    if (c === '[') depth += 1;
+    else if (c === ']') {
+      depth -= 1;
+      if (depth === 0) return j;
+    }
+    j += 1;
+  }
+  return -1;
+}
+
+/**
+ * Find index of the `"` closing the quote opened at `openIdx` (`\x` escapes skipped).
+ */
+function findClosingQuote(text: string, openIdx: number): number {
+  for (let j = openIdx + 1; j < text.length; j++) {
+    if (text[j] === '\\') j += 1;
+    else if (text[j] === '"') return j;
+  }
+  return -1;
+}
+
+/**
+ * Find index of the `)` matching the `(` at `openIdx`, skipping escapes, quoted strings, nested
+ * parentheses and nested `#…#` tags. -1 when nothing closes it.
+ */
+function findClosingParen(text: string, openIdx: number): number {
+  let depth = 0;
+  let j = openIdx;
+  while (j < text.length) {
+    const c = text[j]!;
+    if (c === '\\') {
+      j += 2;
+      continue;
+    }
+    if (c === '"' || c === '#') {
+      const close = c === '"' ? findClosingQuote(text, j) : findClosingHash(text, j);
+      if (close < 0) return -1;
+      j = close + 1;
+      continue;
+    }
+    if (c === '(') depth += 1;
+    else if (c === ')') {
+      depth -= 1;
+      if (depth === 0) return j;
+    }
+    j += 1;
+  }
+  return -1;
+}
 
 /**
  * Find index of closing `#` for a placeholder opened at `openIdx` (openIdx points at opening `#`).
- * Skips `\\` and `\#` pairs inside the inner region so they do not terminate the placeholder.
+ * Skips `\\` and `\#` pairs inside the inner region so they do not terminate the placeholder,
+ * bracketed preactions like `[hero:#name#]` and modifier arguments like `(#a#, ")")`.
  */
 function findClosingHash(template: string, openIdx: number): number {
   let j = openIdx + 1;
@@ -29,6 +128,14 @@ function findClosingHash(template: string, openIdx: number): number {
       j += 2;
       continue;
     }
+    if (template[j] === '[' || template[j] === '(') {
+      const close =
+        template[j] === '[' ? findClosingBracket(template, j) : findClosingParen(template, j);
+      if (close >= 0) {
+        j = close + 1;
+        continue;
+      }
+    }
     if (template[j] === '#') return j;
     j += 1;
   }
@@ -36,7 +143,7 @@ function findClosingHash(template: string, openIdx: number): number {
 }
 
 /**
- * Split a template into literal runs and #inner# placeholders (respects `\#` and `\\`).
+ * Split a template into literal runs, #inner# placeholders and [action] segments (respects `\#` and `\\`).
  */
 export function splitTemplateSegments(template: string): TemplateSegment[] {
   const out: TemplateSegment[] = [];
@@ -63,6 +170,16 @@ export function splitTemplateSegments(template: string): TemplateSegment[] {
       i += 2;
       continue;
     }
+    if (c === '[') {
+      const close = findClosingBracket(template, i);
+      const innerRaw = close >= 0 ? template.slice(i + 1, close) : '';
+      if (close >= 0 && ACTION_HEAD.test(innerRaw)) {
+        flushLit();
+        out.push({ kind: 'action', innerRaw });
+        i = close + 1;
+        continue;
+      }
+    }
     if (c === '#') {
       const close = findClosingHash(template, i);
       if (close < 0) {
@@ -83,6 +200,35 @@ export function splitTemplateSegments(template: string): TemplateSegment[] {
   return out;
 }
 
+/**
+ * Index of a `#` that splitTemplateSegments keeps as literal text because nothing closes it; -1 if none.
+ */
+export function findUnclosedHash(template: string): number {
+  let i = 0;
+  while (i < template.length) {
+    const c = template[i]!;
+    if (c === '\\') {
+      i += 2;
+      continue;
+    }
+    if (c === '[') {
+      const close = findClosingBracket(template, i);
+      if (close >= 0 && ACTION_HEAD.test(template.slice(i + 1, close))) {
+        i = close + 1;
+        continue;
+      }
+    }
+    if (c === '#') {
+      const close = findClosingHash(template, i);
+      if (close < 0) return i;
+      i = close + 1;
+      continue;
+    }
+    i += 1;
+  }
+  return -1;
+}
+
 /**
  * Decode `\#` and `\\` inside placeholder inner text (before splitting rule.modifiers).
  */
@@ -108,16 +254,318 @@ export function decodePlaceholderInner(raw: string): string {
 }
 
 /**
- * Split inner content of #…# into rule name and modifier segments (Tracery: split by ".").
+ * Split `text` at each `separator` outside escapes, quotes, parentheses and `#…#` tags.
  */
-export function parsePlaceholderInner(inner: string): { ruleName: string; modifierSegments: string[] } {
+function splitTopLevel(text: string, separator: string): string[] {
+  const out: string[] = [];
+  let start = 0;
+  let j = 0;
+  while (j < text.length) {
+    const c = text[j]!;
+    if (c === '\\') {
+      j += 2;
+      continue;
+    }
+    if (c === '"' || c === '(' || c === '#') {
+      const close =
+        c === '"' ? findClosingQuote(text, j) : c === '(' ? findClosingParen(text, j) : findClosingHash(text, j);
+      if (close < 0) {
+        throw new Error(c === '"' ? 'Unclosed quote' : c === '(' ? 'Unclosed "("' : 'Unclosed "#"');
+      }
+      j = close + 1;
+      continue;
+    }
+    if (c === separator) {
+      out.push(text.slice(start, j));
+      start = j + 1;
+    }
+    j += 1;
+  }
+  out.push(text.slice(start));
+  return out;
+}
+
+/** Result of parsePlaceholderInner; `binding` is the variable a `#hero=name#` tag binds (`$hero`) */
+export interface ParsedPlaceholderInner {
+  ruleName: string;
+  modifierSegments: string[];
+  binding?: string;
+}
+
+/** `$hero`: a variable bound by `#hero=…#`. `$` cannot start a rule name. */
+export function isVariableName(name: string): boolean {
+  return VARIABLE_NAME.test(name);
+}
+
+/**
+ * Split inner content of #…# into rule name and modifier segments (Tracery: split by "."; dots inside
+ * modifier arguments, quotes or after `\` do not split). Segments keep their escapes for parseModifierCall.
+ * The rule name may be a variable (`$hero`) or bind one (`hero=name`).
+ */
+export function parsePlaceholderInner(inner: string): ParsedPlaceholderInner {
   if (!inner.trim()) {
     throw new Error('Empty placeholder');
   }
-  const parts = inner.split('.');
-  const ruleName = parts[0]!;
-  if (!RULE_NAME.test(ruleName)) {
+  const parts = splitTopLevel(inner, '.');
+  const head = decodePlaceholderInner(parts[0]!);
+  const bind = BINDING.exec(head);
+  const ruleName = bind ? bind[2]! : head;
+  if (!RULE_NAME.test(ruleName) && !VARIABLE_NAME.test(ruleName)) {
     throw new Error(`Invalid rule name in placeholder: "${ruleName}"`);
   }
-  return { ruleName, modifierSegments: parts.slice(1) };
+  return { ruleName, modifierSegments: parts.slice(1), ...(bind ? { binding: `$${bind[1]}` } : {}) };
+}
+
+/** A modifier argument: plain text, or a template whose `#ref#` tags expand before the modifier runs */
+export type ModifierArg = { kind: 'text'; text: string } | { kind: 'template'; template: string };
+
+export interface ModifierCall {
+  name: string;
+  args: ModifierArg[];
+}
+
+/** Text of a quoted argument: `"a \"b\""` → `a "b"` */
+function unquote(arg: string): string {
+  let out = '';
+  for (let j = 1; j < arg.length - 1; j++) {
+    if (arg[j] === '\\' && j + 1 < arg.length - 1) j += 1;
+    out += arg[j]!;
+  }
+  return out;
+}
+
+/**
+ * Parse one modifier segment: `capitalize`, `replace(a, b)`, `replace(",", " and ")` or `replace(#x#, y)`.
+ * Arguments are trimmed unless quoted.
+ */
+export function parseModifierCall(segment: string): ModifierCall {
+  const open = segment.indexOf('(');
+  if (open < 0) return { name: segment.trim(), args: [] };
+  const close = findClosingParen(segment, open);
+  if (close < 0) throw new Error(`Unclosed "(" in modifier "${segment}"`);
+  if (segment.slice(close + 1).trim()) {
+    throw new Error(`Unexpected text after ")" in modifier "${segment}"`);
+  }
+  const inner = segment.slice(open + 1, close);
+  const args = inner.trim()
+    ? splitTopLevel(inner, ',').map((raw): ModifierArg => {
+        const arg = raw.trim();
+        if (arg.length >= 2 && arg.startsWith('"') && findClosingQuote(arg, 0) === arg.length - 1) {
+          return { kind: 'text', text: unquote(arg) };
+        }
+        if (splitTemplateSegments(arg).some((seg) => seg.kind !== 'literal')) {
+          return { kind: 'template', template: arg };
+        }
+        return { kind: 'text', text: decodePlaceholderInner(arg) };
+      })
+    : [];
+  return { name: segment.slice(0, open).trim(), args };
+}
+
+/**
+ * Split comma-separated action rules, ignoring commas inside #…# tags, brackets and escaped as `\,`.
+ */
+function splitActionRules(raw: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < raw.length; i++) {
+    const c = raw[i]!;
+    if (c === '\\') {
+      i += 1;
+      continue;
+    }
+    if (c === '[') depth += 1;
+    else if (c === ']') depth -= 1;
+    else if (c === '#' && depth === 0) {
+      // A tag runs to its closing `#`, past commas in modifier arguments; an unclosed one to the end
+      const close = findClosingHash(raw, i);
+      i = close < 0 ? raw.length : close;
+    } else if (c === ',' && depth === 0) {
+      out.push(raw.slice(start, i));
+      start = i + 1;
+    }
+  }
+  out.push(raw.slice(start));
+  return out;
+}
+
+/**
+ * Parse the inside of `[…]`: `name:rule1,rule2` (push), `name:POP` (pop) or `#rule#` (run for side effects).
+ */
+export function parseActionInner(inner: string): ParsedAction {
+  const target = ACTION_TARGET.exec(inner);
+  if (target) {
+    const head = target[1]!;
+    const body = inner.slice(target[0].length);
+    if (body === 'POP') return { kind: 'pop', target: head };
+    return { kind: 'push', target: head, rules: splitActionRules(body) };
+  }
+  if (inner.startsWith('#')) return { kind: 'run', template: inner };
+  throw new Error(`Invalid action: "[${inner}]"`);
+}
+
+/**
+ * Separate bracketed preactions from the rest of a raw placeholder inner: `[a:b]story.s` → `[a:b]` + `story.s`.
+ */
+export function splitPlaceholderActions(innerRaw: string): { actions: string[]; rest: string } {
+  const actions: string[] = [];
+  let rest = '';
+  let i = 0;
+  while (i < innerRaw.length) {
+    const c = innerRaw[i]!;
+    if (c === '\\' && i + 1 < innerRaw.length) {
+      rest += innerRaw.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (c === '[') {
+      const close = findClosingBracket(innerRaw, i);
+      if (close >= 0) {
+        actions.push(innerRaw.slice(i + 1, close));
+        i = close + 1;
+        continue;
+      }
+    }
+    rest += c;
+    i += 1;
+  }
+  return { actions, rest };
+}
+
+/**
+ * Full placeholder parse from raw inner text: preactions, rule name and modifier segments.
+ */
+export function parsePlaceholder(innerRaw: string): ParsedPlaceholderInner & { actions: string[] } {
+  const { actions, rest } = splitPlaceholderActions(innerRaw);
+  return { ...parsePlaceholderInner(rest), actions };
+}
+
+const WEIGHT_SUFFIX = /(?:^|\s+)\^(\d+(?:\.\d+)?)$/;
+
+/**
+ * Split an alternative into its template and author weight: `"girl ^3"` → `{ template: "girl", weight: 3 }`.
+ * Alternatives without a suffix weigh 1.
+ */
+export function splitAlternativeWeight(alternative: string): { template: string; weight: number } {
+  const m = WEIGHT_SUFFIX.exec(alternative);
+  if (!m) return { template: alternative, weight: 1 };
+  return { template: alternative.slice(0, m.index), weight: Number(m[1]) };
+}
+
+/**
+ * Inverse of splitAlternativeWeight: weight 1 needs no suffix.
+ */
+export function formatAlternativeWeight(template: string, weight: number): string {
+  if (weight === 1) return template;
+  return template ? `${template} ^${weight}` : `^${weight}`;
+}
+
+/** A guard on an alternative: `rule` must (or, negated, must not) have last been chosen as one of `values` */
+export interface AlternativeGuard {
+  rule: string;
+  values: string[];
+  negate: boolean;
+}
+
+const GUARD_PREFIX = /^\[\?\s*([A-Za-z_][A-Za-z0-9_]*(?:::[A-Za-z_][A-Za-z0-9_]*)*)\s*(!?=)([^\]]*)\]\s*/;
+
+/**
+ * Split leading guards off an alternative's template: `"[?lang=cy] #vso#"` →
+ * `{ template: "#vso#", guards: [{ rule: "lang", values: ["cy"], negate: false }] }`.
+ * Values are compared like constraint values: alternative text, rule name or `#rule#`.
+ */
+export function splitAlternativeGuards(template: string): { template: string; guards: AlternativeGuard[] } {
+  const guards: AlternativeGuard[] = [];
+  let rest = template;
+  for (let m = GUARD_PREFIX.exec(rest); m; m = GUARD_PREFIX.exec(rest)) {
+    const values = m[3]!
+      .split('|')
+      .map((v) => v.trim())
+      .filter(Boolean);
+    guards.push({ rule: m[1]!, values, negate: m[2] === '!=' });
+    rest = rest.slice(m[0].length);
+  }
+  return { template: rest, guards };
+}
+
+/**
+ * Inverse of splitAlternativeGuards.
+ */
+export function formatAlternativeGuards(template: string, guards: readonly AlternativeGuard[]): string {
+  const prefix = guards.map((g) => `[?${g.rule}${g.negate ? '!=' : '='}${g.values.join('|')}]`).join('');
+  return prefix && template ? `${prefix} ${template}` : prefix + template;
+}
+
+/** Rule names in one modifier segment's arguments; quoted arguments are text and stay as they are */
+function renameInModifier(segment: string, rename: (name: string) => string): string {
+  const open = segment.indexOf('(');
+  const close = open < 0 ? -1 : findClosingParen(segment, open);
+  if (close < 0) return segment;
+  const args = splitTopLevel(segment.slice(open + 1, close), ',').map((raw) => {
+    const arg = raw.trim();
+    const quoted = arg.length >= 2 && arg.startsWith('"') && findClosingQuote(arg, 0) === arg.length - 1;
+    return quoted ? raw : renameReferences(raw, rename);
+  });
+  return `${segment.slice(0, open + 1)}${args.join(',')}${segment.slice(close)}`;
+}
+
+function renameInAction(inner: string, rename: (name: string) => string): string {
+  const action = parseActionInner(inner);
+  switch (action.kind) {
+    case 'push':
+      return `${rename(action.target)}:${action.rules.map((rule) => renameReferences(rule, rename)).join(',')}`;
+    case 'pop':
+      return `${rename(action.target)}:POP`;
+    case 'run':
+      return renameReferences(inner, rename);
+  }
+}
+
+function renameInPlaceholder(innerRaw: string, rename: (name: string) => string): string {
+  const { actions, rest } = splitPlaceholderActions(innerRaw);
+  const [head, ...segments] = splitTopLevel(rest, '.');
+  const { ruleName, binding } = parsePlaceholderInner(head!);
+  const name = isVariableName(ruleName) ? ruleName : rename(ruleName);
+  const renamedHead = binding ? `${binding.slice(1)}=${name}` : name === ruleName ? head! : name;
+  return [
+    actions.map((action) => `[${renameInAction(action, rename)}]`).join(''),
+    [renamedHead, ...segments.map((segment) => renameInModifier(segment, rename))].join('.'),
+  ].join('');
+}
+
+/**
+ * Rewrite the rule names a template references (`#name#`, tags in actions and modifier arguments, action
+ * targets) through `rename`, leaving literal text, escapes and variables untouched. Preactions move to the
+ * front of their tag. Tags that do not parse are kept as written.
+ */
+export function renameReferences(template: string, rename: (name: string) => string): string {
+  let out = '';
+  let i = 0;
+  while (i < template.length) {
+    const c = template[i]!;
+    if (c === '\\' && i + 1 < template.length) {
+      out += template.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (c === '[' || c === '#') {
+      const close = c === '[' ? findClosingBracket(template, i) : findClosingHash(template, i);
+      const innerRaw = close >= 0 ? template.slice(i + 1, close) : '';
+      if (close >= 0 && (c === '#' || ACTION_HEAD.test(innerRaw))) {
+        let renamed = innerRaw;
+        try {
+          renamed = c === '#' ? renameInPlaceholder(innerRaw, rename) : renameInAction(innerRaw, rename);
+        } catch {
+          // reported by lint; copied unchanged
+        }
+        out += c === '#' ? `#${renamed}#` : `[${renamed}]`;
+        i = close + 1;
+        continue;
+      }
+    }
+    out += c;
+    i += 1;
+  }
+  return out;
 }
@@ -0,0 +1,79 @@
+/**
+ * Deterministic random sources for reproducible generation.
+ *
+ * A seed is an unsigned 32-bit integer. The same seed always yields the same sequence,
+ * so a result generated from a recorded seed can be replayed exactly.
+ */
+
+export type RandomSource = () => number;
+
+const UINT32 = 0x100000000;
+
+/** Normalize any finite number to an unsigned 32-bit seed. */
+export function normalizeSeed(seed: number): number {
+  if (!Number.isFinite(seed)) throw new Error(`Invalid seed: ${seed}`);
+  return Math.trunc(seed) >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG: small, fast, and good enough for sampling grammar alternatives.
+ * Returns floats in [0, 1) like Math.random.
+ */
+export function createSeededRng(seed: number): RandomSource {
+  let state = normalizeSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32;
+  };
+}
+
+/** Draw a fresh seed from a random source (Math.random by default). */
+export function nextSeed(rng: RandomSource = Math.random): number {
+  return Math.floor(rng() * UINT32) >>> 0;
+}
+
+/** Parse a user-entered seed (decimal integer); returns null when empty or invalid. */
+export function parseSeed(value: string | null | undefined): number | null {
+  const trimmed = value?.trim() ?? '';
+  if (!/^\d+$/.test(trimmed)) return null;
+  const n = Number(trimmed);
+  if (!Number.isSafeInteger(n)) return null;
+  return normalizeSeed(n);
+}
+
+/** Fisher–Yates shuffle into a new array; with a seeded source the order is reproducible. */
+export function shuffle<T>(items: readonly T[], rng: RandomSource = Math.random): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j]!, out[i]!];
+  }
+  return out;
+}
+
+/** Uniform integer in [0, n) for any safe integer n; spaces beyond 32 bits take two draws. */
+export function randomIndex(rng: RandomSource, n: number): number {
+  if (n <= UINT32) return Math.floor(rng() * n);
+  const high = Math.floor(rng() * 0x200000);
+  const low = Math.floor(rng() * UINT32);
+  return Math.floor(((high * UINT32 + low) / 2 ** 53) * n);
+}
+
+/**
+ * Distinct uniform indices from [0, total) in random order, drawn lazily (sparse Fisher–Yates):
+ * memory grows with the number drawn, not with `total`.
+ */
+export function* sampleIndices(total: number, rng: RandomSource = Math.random): Generator<number> {
+  if (!Number.isSafeInteger(total) || total < 0) throw new Error(`Invalid sample space: ${total}`);
+  const moved = new Map<number, number>();
+  for (let i = 0; i < total; i++) {
+    const j = i + randomIndex(rng, total - i);
+    const picked = moved.get(j) ?? j;
+    moved.set(j, moved.get(i) ?? i);
+    moved.delete(i);
+    yield picked;
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * Import of grammars written for tracery.js (the original library, kept as tracery.js in the repository
+ * root). Rules are read the way tracery.js reads them — its tag, action and escape parsing is reproduced
+ * here — and written back in this engine's syntax, so that with the English modifiers and the same random
+ * source both produce the same text:
+ *
+ * - string-valued rules become one-alternative rules; keys that are not valid rule names are renamed
+ * - `[key:#rule#]`, `[key:POP]` and `#[key:#rule#]symbol#` carry over; `[text]` actions without a colon,
+ *   which tracery.js expands only for their side effects, keep just their tags and actions
+ * - modifier names from other tracery modifier sets are translated where an equivalent exists
+ * - a symbol that nothing defines or pushes is replaced by the text `((symbol))`, as tracery.js prints it
+ * - text that would mean something else here (a trailing ` ^2` weight) is escaped
+ *
+ * Everything that cannot be represented exactly, or was changed on the way, is listed in the report. Not
+ * detected: a symbol that only actions define, used while nothing is pushed, prints nothing here and
+ * `((symbol))` in tracery.js.
+ */
+
+import { DEFAULT_ENGLISH_MODIFIERS, applyModifierPipeline } from './baseEngModifiers';
+import { isValidSymbolName } from './grammarGraphModel';
+import { splitAlternativeWeight } from './placeholderParse';
+import type { GrammarRule } from './types';
+
+/**
+ * - renamed-rule: a rule or symbol name that is not a valid rule name here
+ * - unsupported-value: a rule whose value is not a string or a list of strings
+ * - missing-rule: a symbol that no rule defines and no action pushes (replaced by the text `((symbol))`)
+ * - translated-modifier: a modifier from another tracery modifier set, renamed to its equivalent here
+ * - unknown-modifier: a modifier with no equivalent; both libraries print `((.name))`
+ * - approximate-modifier: a modifier whose output here differs from tracery.js for some words
+ * - ignored-action: an action, or part of one, that tracery.js ignores and the import drops
+ * - syntax-error: a tag or action tracery.js reports as broken; converted the way tracery.js reads it
+ */
+export type TraceryImportCode =
+  | 'renamed-rule'
+  | 'unsupported-value'
+  | 'missing-rule'
+  | 'translated-modifier'
+  | 'unknown-modifier'
+  | 'approximate-modifier'
+  | 'ignored-action'
+  | 'syntax-error';
+
+export interface TraceryImportNote {
+  code: TraceryImportCode;
+  message: string;
+  /** Rule of the imported grammar the note is about (after renaming) */
+  rule: string;
+  /** Index into the rule's alternatives; absent when the note concerns the whole rule */
+  alternative?: number;
+}
+
+export interface TraceryImportResult {
+  grammar: GrammarRule;
+  report: TraceryImportNote[];
+}
+
+/** Modifier names of other tracery modifier sets → the modifier here that does the same */
+const MODIFIER_ALIASES: Record<string, string> = {
+  an: 'a',
+  uppercase: 'upper',
+  allCaps: 'upper',
+  lowercase: 'lower',
+  titlecase: 'titleCase',
+  plural: 'pluralize',
+};
+
+const APPROXIMATE_MODIFIERS: Record<string, string> = {
+  a: 'also knows silent "h" and "you"-sounding words ("an hour", "a unicorn")',
+  firstS: 'drops the trailing space tracery.js leaves after a single word',
+};
+
+/** Sections of tracery.js `parse`: 0 plain text, 1 tag, 2 action */
+interface TracerySection {
+  type: 0 | 1 | 2;
+  raw: string;
+}
+
+/** Port of tracery.js `tracery.parse`, including its handling of `\` escapes and its error messages */
+function parseTracery(rule: string): { sections: TracerySection[]; errors: string[] } {
+  const sections: TracerySection[] = [];
+  const errors: string[] = [];
+  let depth = 0;
+  let inTag = false;
+  let escaped = false;
+  let start = 0;
+  let escapedSubstring = '';
+  let lastEscapedChar: number | undefined;
+
+  const createSection = (from: number, end: number, type: 0 | 1 | 2) => {
+    if (end - from < 1) {
+      if (type === 1) errors.push(`${from}: empty tag`);
+      if (type === 2) errors.push(`${from}: empty action`);
+    }
+    const raw =
+      lastEscapedChar !== undefined
+        ? `${escapedSubstring}\\${rule.substring(lastEscapedChar + 1, end)}`
+        : rule.substring(from, end);
+    sections.push({ type, raw });
+    lastEscapedChar = undefined;
+    escapedSubstring = '';
+  };
+
+  for (let i = 0; i < rule.length; i++) {
+    if (escaped) {
+      escaped = false;
+      continue;
+    }
+    switch (rule.charAt(i)) {
+      case '[':
+        if (depth === 0 && !inTag) {
+          if (start < i) createSection(start, i, 0);
+          start = i + 1;
+        }
+        depth++;
+        break;
+      case ']':
+        depth--;
+        if (depth === 0 && !inTag) {
+          createSection(start, i, 2);
+          start = i + 1;
+        }
+        break;
+      case '#':
+        if (depth === 0) {
+          if (inTag) createSection(start, i, 1);
+          else if (start < i) createSection(start, i, 0);
+          start = i + 1;
+          inTag = !inTag;
+        }
+        break;
+      case '\\':
+        escaped = true;
+        escapedSubstring += rule.substring(start, i);
+        start = i + 1;
+        lastEscapedChar = i;
+        break;
+    }
+  }
+  if (start < rule.length) createSection(start, rule.length, 0);
+  if (inTag) errors.push('Unclosed tag');
+  if (depth > 0) errors.push('Too many [');
+  if (depth < 0) errors.push('Too many ]');
+  return { sections: sections.filter((s) => s.type !== 0 || s.raw.length > 0), errors };
+}
+
+/** Literal text for a template here: `\`, `#` and `[` escaped */
+function escapeText(text: string): string {
+  return text.replace(/[\\#[]/g, '\\$&');
+}
+
+/** A trailing ` ^2` is a weight here; tracery.js prints it */
+function escapeWeightSuffix(alternative: string): string {
+  const { template } = splitAlternativeWeight(alternative);
+  if (template === alternative) return alternative;
+  return template + alternative.slice(template.length).replace('^', '\\^');
+}
+
+const PLAIN_ARGUMENT = /^[A-Za-z0-9_'-]+(?: [A-Za-z0-9_'-]+)*$/;
+
+/** tracery.js modifier arguments are literal text, untrimmed; here only quoted arguments are */
+function formatArgument(arg: string): string {
+  return PLAIN_ARGUMENT.test(arg) ? arg : `"${arg.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/** tracery.js `clearEscapeChars`: `\\` is a backslash, any other `\` is dropped */
+function clearEscapes(text: string): string {
+  return text.replace(/\\(\\?)/g, '$1');
+}
+
+/** Symbols that tags name and targets that actions push, anywhere in a tracery.js template */
+function scanTemplate(template: string, symbols: Set<string>, targets: Set<string>): void {
+  for (const section of parseTracery(template).sections) {
+    if (section.type === 1) {
+      const tag = parseTracery(section.raw).sections;
+      const symbol = tag.find((s) => s.type === 0);
+      symbols.add(symbol ? symbol.raw.split('.')[0]! : 'undefined');
+      for (const s of tag) if (s.type !== 0) scanAction(s.raw, symbols, targets);
+    } else if (section.type === 2) {
+      scanAction(section.raw, symbols, targets);
+    }
+  }
+}
+
+function scanAction(action: string, symbols: Set<string>, targets: Set<string>): void {
+  const parts = action.split(':');
+  if (parts.length === 1) {
+    scanTemplate(action, symbols, targets);
+    return;
+  }
+  targets.add(parts[0]!);
+  if (parts[1] !== 'POP') for (const rule of parts[1]!.split(',')) scanTemplate(rule, symbols, targets);
+}
+
+/**
+ * Converts a raw tracery.js grammar (an object of rule → string or list of strings) into a grammar for
+ * GrammarEngine, with a report of everything that changed or cannot be represented.
+ */
+export function importTraceryGrammar(raw: unknown): TraceryImportResult {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('A Tracery grammar must be an object of rule name → rules');
+  }
+  const entries = Object.entries(raw as Record<string, unknown>);
+  const report: TraceryImportNote[] = [];
+  const reported = new Set<string>();
+  const note = (code: TraceryImportCode, rule: string, message: string, alternative?: number) => {
+    const key = `${code}\n${rule}\n${alternative}\n${message}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    report.push({ code, message, rule, ...(alternative !== undefined ? { alternative } : {}) });
+  };
+
+  const defined = new Set<string>();
+  const symbols = new Set<string>();
+  const targets = new Set<string>();
+  for (const [key, value] of entries) {
+    const rules = typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(rules)) continue;
+    defined.add(key);
+    for (const rule of rules) if (typeof rule === 'string') scanTemplate(rule, symbols, targets);
+  }
+
+  // Valid names keep themselves; the others get a name no valid one uses
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const name of [...entries.map(([key]) => key), ...symbols, ...targets]) {
+    if (isValidSymbolName(name)) {
+      names.set(name, name);
+      taken.add(name);
+    }
+  }
+  const rename = (name: string): string => {
+    const known = names.get(name);
+    if (known !== undefined) return known;
+    const base = name.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(?=[0-9]|$)/, '_');
+    let renamed = base;
+    for (let i = 1; taken.has(renamed); i++) renamed = `${base}_${i}`;
+    names.set(name, renamed);
+    taken.add(renamed);
+    note('renamed-rule', renamed, `"${name}" is not a valid rule name; renamed to "${renamed}"`);
+    return renamed;
+  };
+
+  let at = { rule: '', alternative: 0 };
+
+  const convertModifier = (modifier: string): string => {
+    let name = modifier;
+    let params: string[] = [];
+    if (modifier.indexOf('(') > 0) {
+      const args = /\(([^)]+)\)/.exec(modifier);
+      if (args) {
+        params = args[1]!.split(',');
+        name = modifier.substring(0, modifier.indexOf('('));
+      }
+    }
+    const known = Object.hasOwn(DEFAULT_ENGLISH_MODIFIERS, name);
+    if (!known && Object.hasOwn(MODIFIER_ALIASES, name)) {
+      note('translated-modifier', at.rule, `.${name} is translated to .${MODIFIER_ALIASES[name]}`, at.alternative);
+      name = MODIFIER_ALIASES[name]!;
+    } else if (!known) {
+      note('unknown-modifier', at.rule, `.${name} has no equivalent; the output shows ((.${name}))`, at.alternative);
+    }
+    if (Object.hasOwn(APPROXIMATE_MODIFIERS, name)) {
+      note('approximate-modifier', at.rule, `.${name} ${APPROXIMATE_MODIFIERS[name]}`, at.alternative);
+    }
+    if (name === 'replace' && params.length !== 2) {
+      note(
+        'approximate-modifier',
+        at.rule,
+        '.replace needs two arguments; tracery.js replaces with "undefined" when the second is missing',
+        at.alternative,
+      );
+    }
+    return params.length ? `${name}(${params.map(formatArgument).join(', ')})` : name;
+  };
+
+  // Actions come back as zero or more `[…]` groups
+  const convertAction = (action: string): string => {
+    const parts = action.split(':');
+    if (parts.length === 1) {
+      // tracery.js expands the text and throws it away: only the tags and actions in it matter
+      const kept = parseTracery(action)
+        .sections.filter((section) => section.type !== 0)
+        .map((section) => (section.type === 1 ? `[${convertTag(section.raw)}]` : convertAction(section.raw)));
+      if (!kept.length) note('ignored-action', at.rule, `[${action}] has no effect and is dropped`, at.alternative);
+      return kept.join('');
+    }
+    if (parts.length > 2) {
+      note('ignored-action', at.rule, `tracery.js ignores ":${parts.slice(2).join(':')}" in [${action}]`, at.alternative);
+    }
+    const target = rename(parts[0]!);
+    if (parts[1] === 'POP') return `[${target}:POP]`;
+    return `[${target}:${parts[1]!.split(',').map(convertTemplate).join(',')}]`;
+  };
+
+  const convertTag = (tag: string): string => {
+    const { sections, errors } = parseTracery(tag);
+    for (const error of errors) note('syntax-error', at.rule, `tracery.js: ${error} in #${tag}#`, at.alternative);
+    let symbol: string | undefined;
+    const actions: string[] = [];
+    for (const section of sections) {
+      if (section.type !== 0) actions.push(section.raw);
+      else if (symbol === undefined) symbol = section.raw;
+      else note('syntax-error', at.rule, `tracery.js: multiple main sections in #${tag}#`, at.alternative);
+    }
+    // tracery.js looks up a tag without a symbol as "undefined"
+    const [name = 'undefined', ...modifiers] = (symbol ?? 'undefined').split('.');
+    if (defined.has(name) || targets.has(name)) {
+      return `#${actions.map(convertAction).join('')}${[rename(name), ...modifiers.map(convertModifier)].join('.')}#`;
+    }
+    // A symbol nothing defines prints as `((name))`, without drawing a random number; its pushes are undone
+    note('missing-rule', at.rule, `#${name}# has no rule; it is replaced by the text ((${name}))`, at.alternative);
+    const text = applyModifierPipeline(`((${name}))`, modifiers.map(convertModifier), DEFAULT_ENGLISH_MODIFIERS);
+    const undo = actions
+      .map((action) => action.split(':'))
+      .filter((parts) => parts.length > 1 && parts[1] !== 'POP')
+      .map((parts) => `[${rename(parts[0]!)}:POP]`);
+    return actions.map(convertAction).join('') + escapeText(text) + undo.join('');
+  };
+
+  const convertTemplate = (template: string): string => {
+    const { sections, errors } = parseTracery(template);
+    for (const error of errors) note('syntax-error', at.rule, `tracery.js: ${error}`, at.alternative);
+    return sections
+      .map((section) => {
+        if (section.type === 0) return escapeText(clearEscapes(section.raw));
+        if (section.type === 1) return convertTag(section.raw);
+        return convertAction(section.raw);
+      })
+      .join('');
+  };
+
+  const grammar: GrammarRule = {};
+  for (const [key, value] of entries) {
+    const rule = rename(key);
+    if (!defined.has(key)) {
+      note('unsupported-value', rule, 'Rules must be a string or a list of strings; tracery.js cannot expand this one');
+      continue;
+    }
+    const rules: unknown[] = typeof value === 'string' ? [value] : (value as unknown[]);
+    if (!rules.length) note('unsupported-value', rule, 'An empty list of rules expands to nothing');
+    grammar[rule] = (rules.length ? rules : ['']).map((alternative, i) => {
+      at = { rule, alternative: i };
+      if (typeof alternative !== 'string') {
+        note('unsupported-value', rule, 'A rule that is not a string expands to nothing', i);
+        return '';
+      }
+      return escapeWeightSuffix(convertTemplate(alternative));
+    });
+  }
+  return { grammar, report };
+}
@@ -3,7 +3,12 @@
  * Generic types that work with any domain
  */
 
-// Basic grammar types
+import type { ModifierFn } from './baseEngModifiers';
+import type { ModifierPackName } from './modifierPacks';
+import type { OutputFilter } from './outputFilters';
+import type { AlternativeGuard } from './placeholderParse';
+
+// Basic grammar types; the reserved `$modifiers` key holds modifier definitions, not a rule (see grammarModifiers)
 export interface GrammarRule {
   [symbol: string]: string[];
 }
@@ -46,6 +51,14 @@ export interface GenerationResult {
     generationTime?: number;
     /** Filled when processModifiers is on: each modifier chain applied to a reference */
     modifierApplications?: ModifierApplication[];
+    /** Variables bound by `#hero=name#` tags: each one's last text (key without `$`) */
+    bindings?: Record<string, string>;
+    /** Derivation tree with text spans; present for randomly generated results (see getDerivationTree) */
+    derivation?: DerivationNode;
+    /** Seed that reproduces this result with the same grammar, constraints and options */
+    seed?: number;
+    /** Position among all combinations under the same constraints (see getCombinationAt) */
+    index?: number;
   };
 }
 
@@ -63,6 +76,12 @@ export interface AppliedRule {
 export interface ExtractedParameter {
   symbol: string;
   values: string[];
+  /** Author weights parallel to values (`"text ^3"`); absent when every weight is 1 */
+  weights?: number[];
+  /** Guards parallel to values (`"[?language=Welsh] …"`); absent when no value has one */
+  guards?: AlternativeGuard[][];
+  /** Parameters whose choice the guards test, in order of first mention */
+  dependsOn?: string[];
   currentValue?: string;
   isParameter: boolean; // Whether this symbol is a parameter
 }
@@ -78,6 +97,8 @@ export interface GenerationConstraints {
   };
   requiredParameters?: Record<string, string>;
   excludedParameters?: Record<string, string[]>;
+  /** Pin a symbol only where a given parent rule references it, e.g. { NP: { SP: 'cat' } } */
+  contextualParameters?: MultiContextParameters;
   maxDepth?: number;
 }
 
@@ -98,25 +119,139 @@ export interface GrammarNode {
   isExpanded: boolean;
 }
 
+/**
+ * One rule expansion in a result's derivation tree, with the part of the result it produced.
+ * Spans are offsets into the final text: [start, end).
+ */
+export interface DerivationNode {
+  /** Rule, pushed symbol or variable (`$hero`) that was expanded */
+  symbol: string;
+  /** Chosen alternative, labelled as in appliedRules */
+  alternative: string;
+  start: number;
+  end: number;
+  /** Output of the expansion, after modifiers */
+  text: string;
+  /** Present when the tag's modifiers ran; expandedText is the text they received */
+  modifiers?: string[];
+  expandedText?: string;
+  /**
+   * Expanded by an action (`[hero:#name#]`), or below such an expansion: its text went to a stack, not to
+   * the output, so the span is empty where the action stood. A `#hero=name#` tag outputs the text it binds,
+   * so its expansion is a child of the `$hero` node instead.
+   */
+  silent?: boolean;
+  children: DerivationNode[];
+}
+
 // Engine configuration
 export interface EngineConfig {
-  maxDepth: number;
+  /**
+   * Depth limit for generation, counting and enumeration. Unset, grammars that recurse are cut off at
+   * DEFAULT_RECURSION_DEPTH and grammars that do not are not limited
+   */
+  maxDepth?: number;
   enableTracking: boolean;
   enableStatistics: boolean;
+  /** Base seed: successive generations draw their per-result seeds from this stream */
   randomSeed?: number;
   /** Apply Tracery-style #rule.mod# pipelines to expanded text */
   processModifiers?: boolean;
+  /** Language packs added to the English modifiers, before those the grammar's `$modifiers` asks for */
+  modifierPacks?: ModifierPackName[];
+  /** Custom modifiers; they win over packs and the grammar's own definitions */
+  modifiers?: Record<string, ModifierFn>;
+  /** Constraints on finished texts: generateMany rejects, generateAllCombinations drops what fails them */
+  outputFilter?: OutputFilter;
 }
 
 // Generation statistics
 export interface GenerationStatistics {
   totalVariants: number;
+  /** Derivations from origin that use each value of the parameter (a rule used twice can use two values) */
   parameterCounts: Record<string, Record<string, number>>;
+  /** Marginal distribution of each parameter's values under the generation strategy */
+  parameterProbabilities: Record<string, Record<string, number>>;
+  /** Mean depth of the derivations counted in totalVariants (see LanguageSize.depthCounts) */
   averageDepth: number;
+  /** Depth of the deepest of those derivations */
   maxDepth: number;
   generationTime: number;
 }
 
+/** How much of the combination space the output filters keep (see GrammarProcessor.getFilteredCombinations) */
+export interface FilteredCombinationCount {
+  /** All combinations, as getTotalCombinations counts them */
+  total: number;
+  /** Combinations whose text passes the filters: exact, or a rounded estimate */
+  accepted: number;
+  /** Share of combinations kept (1 without filters, 0 for an empty space) */
+  acceptanceRate: number;
+  exact: boolean;
+}
+
+// Paged enumeration
+export interface CombinationPage {
+  results: GenerationResult[];
+  /** Index of the first result in the full enumeration */
+  offset: number;
+  /** Size of the full enumeration */
+  total: number;
+  /** Resumes right after this page; null on the last page */
+  nextCursor: string | null;
+  /** Starts the page before this one; null on the first page */
+  previousCursor: string | null;
+}
+
+// Sampling without replacement
+export interface DistinctGenerationSample {
+  results: GenerationResult[];
+  /** Derivations drawn, including those dropped as duplicate texts */
+  drawn: number;
+  /** Drawn derivations dropped because an earlier one had the same text */
+  collapsed: number;
+  /** Per kept text, how many further drawn derivations produced it */
+  collapsedByText: Record<string, number>;
+  /** Every combination was drawn */
+  exhausted: boolean;
+}
+
+// Factorial designs
+/**
+ * - full: every combination of factor levels
+ * - latinSquare: all factors share n levels; the last factor's level is fixed by the others (n^(k-1) cells)
+ * - balanced: `cellCount` cells chosen so each level of each factor appears as evenly as possible
+ */
+export type FactorialDesignKind = 'full' | 'latinSquare' | 'balanced';
+
+export interface FactorialDesignOptions {
+  /** Parameter → levels to cross */
+  factors: Record<string, string[]>;
+  design?: FactorialDesignKind;
+  /** Trials per cell (default 1) */
+  replicates?: number;
+  /** Number of cells for the balanced design */
+  cellCount?: number;
+  /** Seeds level permutations, cell selection, trial generation and order */
+  seed?: number;
+  /** Shuffle trial order (default false: cells in design order, replicates together) */
+  randomizeOrder?: boolean;
+}
+
+/** One row of a factorial design table */
+export interface FactorialTrial {
+  /** 1-based position in the final order */
+  trial: number;
+  /** 1-based cell number in design order */
+  cell: number;
+  /** 1-based replicate within the cell */
+  replicate: number;
+  levels: Record<string, string>;
+  content: string;
+  /** Replays this trial with generateWithParameters */
+  seed: number;
+}
+
 // Generic structure extractor interface
 export interface StructureExtractor {
   extractStructure(appliedRules: AppliedRule[]): Record<string, any>;
@@ -129,7 +264,7 @@ export interface ContextualParameter {
   value: string;
 }
 
-// Multi-context parameter values
+// Multi-context parameter values: symbol → parent rule that references it → value
 export interface MultiContextParameters {
   [symbol: string]: {
     [context: string]: string;
@@ -2,6 +2,7 @@ import type { Node, Edge } from '@xyflow/react';
 import dagre from 'dagre';
 import type { GrammarRule } from '../engine/types';
 import { buildEdges } from '../engine/grammarGraphModel';
+import { grammarRules } from '../engine/grammarModifiers';
 
 export const GRAMMAR_SYMBOL_NODE_TYPE = 'grammarSymbol' as const;
 
@@ -32,7 +33,7 @@ export function estimateGrammarNodeLayoutHeight(alternativesCount: number): numb
  * Build React Flow edges from grammar references.
  */
 export function buildReactFlowEdges(grammar: GrammarRule): Edge[] {
-  const list = buildEdges(grammar);
+  const list = buildEdges(grammarRules(grammar));
   return list.map((e, i) => ({
     id: `e-${e.source}-${e.target}-${i}`,
     source: e.source,
@@ -41,7 +42,7 @@ export function buildReactFlowEdges(grammar: GrammarRule): Edge[] {
 }
 
 /**
- * Nodes for each grammar key; positions are placeholders until layout runs.
+ * Nodes for each rule (`$modifiers` is not one); positions are placeholders until layout runs.
  */
 export function createGrammarFlowNodes(
   grammar: GrammarRule,
@@ -50,7 +51,7 @@ export function createGrammarFlowNodes(
     'onAlternativesChange' | 'onAddStaticAlternative' | 'onRenameRule' | 'onDeleteRule'
   >,
 ): Node<GrammarSymbolNodeData>[] {
-  const symbols = Object.keys(grammar).sort((a, b) => {
+  const symbols = Object.keys(grammarRules(grammar)).sort((a, b) => {
     if (a === 'origin') return -1;
     if (b === 'origin') return 1;
     return a.localeCompare(b);
@@ -0,0 +1,105 @@
+import type { GenerationStrategy } from '../engine/Engine';
+import type { MultiContextParameters } from '../engine/types';
+import { parseSeed } from '../engine/random';
+
+/** Everything besides the grammar that a seeded result depends on. */
+export interface ReplayState {
+  seed: number;
+  strategy: GenerationStrategy;
+  processModifiers: boolean;
+  parameters: Record<string, string>;
+  excludedParameters: Record<string, string[]>;
+  contextualParameters: MultiContextParameters;
+}
+
+const SEED_PARAM = 'seed';
+const STRATEGY_PARAM = 'strategy';
+const MODIFIERS_PARAM = 'modifiers';
+const PARAMETERS_PARAM = 'params';
+const EXCLUDED_PARAM = 'exclude';
+const CONTEXTUAL_PARAM = 'ctx';
+
+function setJsonParam(url: URL, name: string, value: Record<string, unknown>): void {
+  if (Object.keys(value).length > 0) {
+    url.searchParams.set(name, JSON.stringify(value));
+  } else {
+    url.searchParams.delete(name);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringEntries(value: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+  );
+}
+
+function parseJsonObjectParam(params: URLSearchParams, name: string): Record<string, unknown> | undefined {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (isPlainObject(parsed)) return parsed;
+  } catch {
+    // ignore malformed params
+  }
+  return undefined;
+}
+
+/**
+ * Absolute URL that reopens the current page with a result's seed and options.
+ * Other query params (e.g. `fixture`) are kept so the same grammar loads.
+ */
+export function buildReplayUrl(href: string, replay: ReplayState): string {
+  const url = new URL(href);
+  url.searchParams.set(SEED_PARAM, String(replay.seed));
+  url.searchParams.set(STRATEGY_PARAM, replay.strategy);
+  url.searchParams.set(MODIFIERS_PARAM, replay.processModifiers ? '1' : '0');
+  setJsonParam(url, PARAMETERS_PARAM, replay.parameters);
+  setJsonParam(url, EXCLUDED_PARAM, replay.excludedParameters);
+  setJsonParam(url, CONTEXTUAL_PARAM, replay.contextualParameters);
+  url.hash = '';
+  return url.toString();
+}
+
+/** Reads replay options from a location search string; missing or invalid fields are undefined. */
+export function parseReplaySearch(search: string): Partial<ReplayState> {
+  const params = new URLSearchParams(search);
+  const out: Partial<ReplayState> = {};
+
+  const seed = parseSeed(params.get(SEED_PARAM));
+  if (seed !== null) out.seed = seed;
+
+  const strategy = params.get(STRATEGY_PARAM);
+  if (strategy === 'uniform' || strategy === 'weighted') out.strategy = strategy;
+
+  const modifiers = params.get(MODIFIERS_PARAM);
+  if (modifiers === '1' || modifiers === '0') out.processModifiers = modifiers === '1';
+
+  const parameters = parseJsonObjectParam(params, PARAMETERS_PARAM);
+  if (parameters) out.parameters = stringEntries(parameters);
+
+  const excluded = parseJsonObjectParam(params, EXCLUDED_PARAM);
+  if (excluded) {
+    out.excludedParameters = Object.fromEntries(
+      Object.entries(excluded).filter(
+        (entry): entry is [string, string[]] =>
+          Array.isArray(entry[1]) && entry[1].every((v) => typeof v === 'string'),
+      ),
+    );
+  }
+
+  const contextual = parseJsonObjectParam(params, CONTEXTUAL_PARAM);
+  if (contextual) {
+    out.contextualParameters = Object.fromEntries(
+      Object.entries(contextual)
+        .filter((entry): entry is [string, Record<string, unknown>] => isPlainObject(entry[1]))
+        .map(([symbol, byParent]) => [symbol, stringEntries(byParent)]),
+    );
+  }
+
+  return out;
+}